@@ -0,0 +1,123 @@
+import { buildSchema, parse } from "graphql";
+import { compileToIR } from "../compiler";
+import {
+  generatePossibleTypes,
+  possibleTypesMap,
+  abstractTypesUsed
+} from "../possibleTypes";
+
+const schema = buildSchema(`
+  type Query {
+    node(id: ID!): Node
+    search(text: String!): [SearchResult]
+    user: User
+  }
+
+  interface Node {
+    id: ID!
+  }
+
+  interface Named {
+    name: String
+  }
+
+  type User implements Node & Named {
+    id: ID!
+    name: String
+    pets: [Pet]
+  }
+
+  type Organization implements Node & Named {
+    id: ID!
+    name: String
+  }
+
+  union SearchResult = User | Organization
+
+  union Pet = Cat | Dog
+
+  type Cat {
+    lives: Int
+  }
+
+  type Dog {
+    barks: Boolean
+  }
+`);
+
+function compile(source: string) {
+  return compileToIR(schema, parse(source), { addTypename: true });
+}
+
+describe("possibleTypesMap", () => {
+  it("lists the concrete types of every interface and union", () => {
+    expect(possibleTypesMap(schema)).toEqual({
+      Named: ["Organization", "User"],
+      Node: ["Organization", "User"],
+      Pet: ["Cat", "Dog"],
+      SearchResult: ["Organization", "User"]
+    });
+  });
+});
+
+describe("abstractTypesUsed", () => {
+  it("collects the interfaces and unions selected by operations and fragments", () => {
+    const context = compile(`
+      query Search {
+        search(text: "apollo") {
+          ... on User {
+            pets {
+              ... on Cat {
+                lives
+              }
+            }
+          }
+        }
+      }
+
+      fragment UserName on User {
+        ...NamedName
+      }
+
+      fragment NamedName on Named {
+        name
+      }
+    `);
+
+    expect(
+      abstractTypesUsed(context)
+        .map(type => type.name)
+        .sort()
+    ).toEqual(["Named", "Pet", "SearchResult"]);
+  });
+});
+
+describe("generatePossibleTypes", () => {
+  const context = compile(`
+    query Node {
+      node(id: "1") {
+        id
+      }
+    }
+  `);
+
+  it("generates JSON", () => {
+    expect(generatePossibleTypes(context, "json")).toMatchSnapshot();
+  });
+
+  it("generates TypeScript restricted to the types used", () => {
+    expect(
+      generatePossibleTypes(context, "typescript", { onlyUsedTypes: true })
+    ).toMatchSnapshot();
+  });
+
+  it("generates a JavaScript module", () => {
+    expect(generatePossibleTypes(context, "javascript")).toMatchSnapshot();
+  });
+
+  it("generates Flow restricted to the types used", () => {
+    expect(
+      generatePossibleTypes(context, "flow", { onlyUsedTypes: true })
+    ).toMatchSnapshot();
+  });
+});
@@ -34,11 +34,19 @@ import {
   isMetaFieldName
 } from "../utilities/graphql";
 
+export interface ScalarMapping {
+  // The type values of the scalar are generated as
+  type: string;
+  // The module or package the type is imported from
+  import?: string;
+}
+
 export interface CompilerOptions {
   addTypename?: boolean;
   mergeInFieldsFromFragmentSpreads?: boolean;
   passthroughCustomScalars?: boolean;
   customScalarsPrefix?: string;
+  scalars?: { [scalarName: string]: ScalarMapping };
   namespace?: string;
   generateOperationIds?: boolean;
   operationIdsPath?: string;
@@ -12,7 +12,8 @@ import {
   CompilerContext,
   SelectionSet,
   Field,
-  FragmentSpread
+  FragmentSpread,
+  ScalarMapping
 } from "./";
 
 import { collectFragmentsReferenced } from "./visitors/collectFragmentsReferenced";
@@ -27,6 +28,7 @@ export interface CompilerOptions {
   mergeInFieldsFromFragmentSpreads?: boolean;
   passthroughCustomScalars?: boolean;
   customScalarsPrefix?: string;
+  scalars?: { [scalarName: string]: ScalarMapping };
   namespace?: string;
   generateOperationIds?: boolean;
 }
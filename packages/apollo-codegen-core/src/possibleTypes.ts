@@ -0,0 +1,127 @@
+import {
+  GraphQLSchema,
+  GraphQLAbstractType,
+  GraphQLType,
+  isAbstractType,
+  getNamedType
+} from "graphql";
+
+import { CompilerContext, SelectionSet } from "./compiler";
+
+export type PossibleTypesFormat = "json" | "typescript" | "flow" | "javascript";
+
+export interface PossibleTypesMap {
+  [supertype: string]: string[];
+}
+
+export interface PossibleTypesOptions {
+  // Only include the interfaces and unions selected by the operations and fragments
+  onlyUsedTypes?: boolean;
+}
+
+// The concrete types of every interface and union, in the shape Apollo Client's `possibleTypes`
+// option expects
+export function possibleTypesMap(
+  schema: GraphQLSchema,
+  abstractTypes: GraphQLAbstractType[] = Object.values(
+    schema.getTypeMap()
+  ).filter(isAbstractType)
+): PossibleTypesMap {
+  const map: PossibleTypesMap = {};
+
+  abstractTypes
+    .filter(type => !type.name.startsWith("__"))
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .forEach(type => {
+      map[type.name] = schema
+        .getPossibleTypes(type)
+        .map(possibleType => possibleType.name)
+        .sort();
+    });
+
+  return map;
+}
+
+// The interfaces and unions that fields, inline fragments and fragments select on
+export function abstractTypesUsed(
+  context: CompilerContext
+): GraphQLAbstractType[] {
+  const typesUsed = new Set<GraphQLAbstractType>();
+
+  const addType = (type: GraphQLType) => {
+    const namedType = getNamedType(type);
+    if (isAbstractType(namedType)) {
+      typesUsed.add(namedType);
+    }
+  };
+
+  const collectFromSelectionSet = (selectionSet: SelectionSet) => {
+    for (const selection of selectionSet.selections) {
+      switch (selection.kind) {
+        case "Field":
+          if (selection.selectionSet) {
+            addType(selection.type);
+            collectFromSelectionSet(selection.selectionSet);
+          }
+          break;
+        case "TypeCondition":
+          addType(selection.type);
+          collectFromSelectionSet(selection.selectionSet);
+          break;
+        case "BooleanCondition":
+          collectFromSelectionSet(selection.selectionSet);
+          break;
+        case "FragmentSpread":
+          // Fragments are collected below
+          break;
+      }
+    }
+  };
+
+  Object.values(context.operations).forEach(operation => {
+    collectFromSelectionSet(operation.selectionSet);
+  });
+  Object.values(context.fragments).forEach(fragment => {
+    addType(fragment.type);
+    collectFromSelectionSet(fragment.selectionSet);
+  });
+
+  return Array.from(typesUsed);
+}
+
+export function generatePossibleTypes(
+  context: CompilerContext,
+  format: PossibleTypesFormat,
+  { onlyUsedTypes = false }: PossibleTypesOptions = {}
+): string {
+  const map = possibleTypesMap(
+    context.schema,
+    onlyUsedTypes ? abstractTypesUsed(context) : undefined
+  );
+  const json = JSON.stringify(map, null, 2);
+
+  switch (format) {
+    case "json":
+      return json + "\n";
+    case "typescript":
+      return `/* tslint:disable */
+/* eslint-disable */
+// This file was automatically generated and should not be edited.
+
+export const possibleTypes: { [supertype: string]: string[] } = ${json};
+`;
+    case "javascript":
+      return `/* eslint-disable */
+// This file was automatically generated and should not be edited.
+
+export const possibleTypes = ${json};
+`;
+    case "flow":
+      return `/* @flow */
+/* eslint-disable */
+// This file was automatically generated and should not be edited.
+
+export const possibleTypes: { [supertype: string]: Array<string> } = ${json};
+`;
+  }
+}
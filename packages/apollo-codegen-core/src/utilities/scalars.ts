@@ -0,0 +1,46 @@
+import { GraphQLType, GraphQLScalarType } from "graphql";
+
+import { ScalarMapping } from "../compiler";
+
+interface ScalarMappingOptions {
+  scalars?: { [scalarName: string]: ScalarMapping };
+}
+
+export function scalarMappingForType(
+  options: ScalarMappingOptions,
+  type: GraphQLScalarType
+): ScalarMapping | undefined {
+  return options.scalars && options.scalars[type.name];
+}
+
+// The type names of the mapped scalars in `types` that are imported, grouped by the module or
+// package they're imported from
+export function scalarImports(
+  options: ScalarMappingOptions,
+  types: GraphQLType[]
+): Map<string, string[]> {
+  const imports = new Map<string, string[]>();
+
+  types
+    .filter(
+      (type): type is GraphQLScalarType => type instanceof GraphQLScalarType
+    )
+    .map(type => scalarMappingForType(options, type))
+    .forEach(mapping => {
+      if (!mapping || !mapping.import) return;
+
+      const typeNames = imports.get(mapping.import) || [];
+      if (!typeNames.includes(mapping.type)) {
+        typeNames.push(mapping.type);
+      }
+      imports.set(mapping.import, typeNames);
+    });
+
+  return new Map(
+    Array.from(imports.keys())
+      .sort()
+      .map(
+        source => [source, imports.get(source)!.sort()] as [string, string[]]
+      )
+  );
+}
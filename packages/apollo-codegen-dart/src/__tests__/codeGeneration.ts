@@ -0,0 +1,320 @@
+import {
+  parse,
+  buildSchema,
+  concatAST,
+  Source,
+  GraphQLEnumType,
+  GraphQLInputObjectType
+} from "graphql";
+
+import { loadSchema } from "apollo-codegen-core/lib/loading";
+const schema = loadSchema(
+  require.resolve("../../../../__fixtures__/starwars/schema.json")
+);
+
+import {
+  compileToIR,
+  CompilerOptions,
+  CompilerContext
+} from "apollo-codegen-core/lib/compiler";
+
+import { DartAPIGenerator, generateSource } from "../codeGeneration";
+
+describe("Dart code generation", () => {
+  let generator: DartAPIGenerator;
+
+  beforeEach(() => {
+    generator = new DartAPIGenerator({} as CompilerContext);
+  });
+
+  function compile(
+    source: string,
+    options: CompilerOptions = { mergeInFieldsFromFragmentSpreads: true }
+  ): CompilerContext {
+    const document = parse(source);
+    const context = compileToIR(schema, document, options);
+    generator.context = context;
+    generator.helpers.options = context.options;
+    return context;
+  }
+
+  describe("#classDeclarationForOperation()", () => {
+    it(`should generate a class declaration for a query with variables`, () => {
+      const { operations } = compile(`
+        query HeroName($episode: Episode) {
+          hero(episode: $episode) {
+            name
+          }
+        }
+      `);
+
+      generator.classDeclarationForOperation(operations["HeroName"]);
+
+      expect(generator.output).toMatchSnapshot();
+    });
+
+    it(`should generate a class declaration for a query with fragment spreads`, () => {
+      const { operations } = compile(`
+        query Hero {
+          hero {
+            ...HeroDetails
+          }
+        }
+
+        fragment HeroDetails on Character {
+          name
+        }
+      `);
+
+      generator.classDeclarationForOperation(operations["Hero"]);
+
+      expect(generator.output).toMatchSnapshot();
+    });
+
+    it(`should generate a class declaration for a query with conditional fragment spreads`, () => {
+      const { operations } = compile(`
+        query Hero {
+          hero {
+            ...DroidDetails
+          }
+        }
+
+        fragment DroidDetails on Droid {
+          primaryFunction
+        }
+      `);
+
+      generator.classDeclarationForOperation(operations["Hero"]);
+
+      expect(generator.output).toMatchSnapshot();
+    });
+
+    it(`should generate a class declaration for a mutation with input object variables`, () => {
+      const { operations } = compile(`
+        mutation CreateReview($episode: Episode!, $review: ReviewInput!) {
+          createReview(episode: $episode, review: $review) {
+            stars
+            commentary
+          }
+        }
+      `);
+
+      generator.classDeclarationForOperation(operations["CreateReview"]);
+
+      expect(generator.output).toMatchSnapshot();
+    });
+
+    it(`should generate an operation id when generateOperationIds is set`, () => {
+      const { operations } = compile(
+        `
+        query Hero {
+          hero {
+            name
+          }
+        }
+      `,
+        { generateOperationIds: true }
+      );
+
+      generator.classDeclarationForOperation(operations["Hero"]);
+
+      expect(generator.output).toMatchSnapshot();
+      expect(operations["Hero"].operationId).toBeDefined();
+    });
+  });
+
+  describe("#classDeclarationForFragment()", () => {
+    it(`should generate a class declaration for a fragment with a concrete type condition`, () => {
+      const { fragments } = compile(`
+        fragment DroidDetails on Droid {
+          name
+          primaryFunction
+        }
+      `);
+
+      generator.classDeclarationForFragment(fragments["DroidDetails"]);
+
+      expect(generator.output).toMatchSnapshot();
+    });
+
+    it(`should generate an abstract class for a fragment with inline fragments`, () => {
+      const { fragments } = compile(`
+        fragment HeroDetails on Character {
+          name
+          ... on Droid {
+            primaryFunction
+          }
+          ... on Human {
+            height
+          }
+        }
+      `);
+
+      generator.classDeclarationForFragment(fragments["HeroDetails"]);
+
+      expect(generator.output).toMatchSnapshot();
+    });
+  });
+
+  describe("#classDeclarationForSelectionSet()", () => {
+    it(`should generate classes for composite fields`, () => {
+      const { operations } = compile(`
+        query Hero {
+          hero {
+            name
+            friends {
+              name
+              appearsIn
+            }
+          }
+        }
+      `);
+
+      generator.classDeclarationForSelectionSet({
+        className: "Data",
+        selectionSet: operations["Hero"].selectionSet
+      });
+
+      expect(generator.output).toMatchSnapshot();
+    });
+
+    it(`should make fields that are skipped or not included optional`, () => {
+      const { operations } = compile(`
+        query Hero($includeName: Boolean!) {
+          hero {
+            name @include(if: $includeName)
+            id
+          }
+        }
+      `);
+
+      generator.classDeclarationForSelectionSet({
+        className: "Data",
+        selectionSet: operations["Hero"].selectionSet
+      });
+
+      expect(generator.output).toMatchSnapshot();
+    });
+  });
+
+  describe("#typeDeclarationForGraphQLType()", () => {
+    it("should generate an enum for a GraphQLEnumType", () => {
+      generator.typeDeclarationForGraphQLType(schema.getType(
+        "Episode"
+      ) as GraphQLEnumType);
+
+      expect(generator.output).toMatchSnapshot();
+    });
+
+    it("should generate a class for a GraphQLInputObjectType", () => {
+      generator.typeDeclarationForGraphQLType(schema.getType(
+        "ReviewInput"
+      ) as GraphQLInputObjectType);
+
+      expect(generator.output).toMatchSnapshot();
+    });
+  });
+
+  describe("generateSource()", () => {
+    it("should generate the types used and all operations and fragments", () => {
+      const context = compile(`
+        query Hero($episode: Episode) {
+          hero(episode: $episode) {
+            ...HeroDetails
+          }
+        }
+
+        fragment HeroDetails on Character {
+          name
+        }
+      `);
+
+      expect(generateSource(context, false).output).toMatchSnapshot();
+    });
+
+    it("should output a file per input file and one for types", () => {
+      const context = compile(`
+        query Hero($episode: Episode) {
+          hero(episode: $episode) {
+            name
+          }
+        }
+      `);
+
+      expect(Object.keys(generateSource(context, true).generatedFiles)).toEqual(
+        ["Types.graphql.dart", "GraphQL request.dart"]
+      );
+    });
+
+    it("should import the files declaring the fragments used", () => {
+      const document = concatAST([
+        parse(
+          new Source(
+            `
+            query Hero {
+              hero {
+                ...HeroDetails
+              }
+            }
+          `,
+            "Hero.graphql"
+          )
+        ),
+        parse(
+          new Source(
+            `
+            fragment HeroDetails on Character {
+              name
+            }
+          `,
+            "HeroDetails.graphql"
+          )
+        )
+      ]);
+      const context = compileToIR(schema, document, {});
+
+      expect(
+        generateSource(context, true).generatedFiles["Hero.graphql.dart"].output
+      ).toMatchSnapshot();
+    });
+  });
+
+  describe("custom scalars", () => {
+    const schemaWithScalars = buildSchema(`
+      scalar DateTime
+
+      type Query {
+        now: DateTime!
+        history: [DateTime]
+      }
+    `);
+
+    const generateData = (options: CompilerOptions) => {
+      const context = compileToIR(
+        schemaWithScalars,
+        parse(`query Now { now history }`),
+        options
+      );
+      generator.context = context;
+      generator.helpers.options = context.options;
+      generator.classDeclarationForSelectionSet({
+        className: "Data",
+        selectionSet: context.operations["Now"].selectionSet
+      });
+      return generator.output;
+    };
+
+    it("should map custom scalars to String by default", () => {
+      expect(generateData({})).toMatchSnapshot();
+    });
+
+    it("should pass through custom scalars with a prefix when passthroughCustomScalars is set", () => {
+      expect(
+        generateData({
+          passthroughCustomScalars: true,
+          customScalarsPrefix: "GraphQL"
+        })
+      ).toMatchSnapshot();
+    });
+  });
+});
@@ -0,0 +1,633 @@
+import path from "path";
+
+import {
+  GraphQLError,
+  GraphQLType,
+  getNamedType,
+  isCompositeType,
+  GraphQLEnumType,
+  GraphQLInputObjectType
+} from "graphql";
+
+import {
+  CompilerContext,
+  Operation,
+  Fragment,
+  SelectionSet,
+  Field
+} from "apollo-codegen-core/lib/compiler";
+
+import { join } from "apollo-codegen-core/lib/utilities/printing";
+
+import {
+  DartGenerator,
+  Property,
+  escapedString,
+  escapeIdentifierIfNeeded
+} from "./language";
+import { Helpers } from "./helpers";
+
+import {
+  typeCaseForSelectionSet,
+  Variant
+} from "apollo-codegen-core/lib/compiler/visitors/typeCase";
+import { collectFragmentsReferenced } from "apollo-codegen-core/lib/compiler/visitors/collectFragmentsReferenced";
+import { generateOperationId } from "apollo-codegen-core/lib/compiler/visitors/generateOperationId";
+import { collectAndMergeFields } from "apollo-codegen-core/lib/compiler/visitors/collectAndMergeFields";
+
+const typesFileName = "Types.graphql.dart";
+
+export function generateSource(
+  context: CompilerContext,
+  outputIndividualFiles: boolean,
+  only?: string
+): DartAPIGenerator {
+  const generator = new DartAPIGenerator(context);
+
+  if (outputIndividualFiles) {
+    generator.withinFile(typesFileName, () => {
+      generator.fileHeader();
+
+      context.typesUsed.forEach(type => {
+        generator.typeDeclarationForGraphQLType(type);
+      });
+    });
+
+    const inputFilePaths = new Set<string>();
+
+    Object.values(context.operations).forEach(operation => {
+      inputFilePaths.add(operation.filePath);
+    });
+
+    Object.values(context.fragments).forEach(fragment => {
+      inputFilePaths.add(fragment.filePath);
+    });
+
+    for (const inputFilePath of inputFilePaths) {
+      if (only && inputFilePath !== only) continue;
+
+      const operations = Object.values(context.operations).filter(
+        operation => operation.filePath === inputFilePath
+      );
+      const fragments = Object.values(context.fragments).filter(
+        fragment => fragment.filePath === inputFilePath
+      );
+
+      generator.withinFile(outputFileName(inputFilePath), () => {
+        generator.fileHeader();
+        generator.importDeclarations(inputFilePath, [
+          ...operations.map(operation => operation.selectionSet),
+          ...fragments.map(fragment => fragment.selectionSet)
+        ]);
+
+        operations.forEach(operation => {
+          generator.classDeclarationForOperation(operation);
+        });
+
+        fragments.forEach(fragment => {
+          generator.classDeclarationForFragment(fragment);
+        });
+      });
+    }
+  } else {
+    generator.fileHeader();
+
+    context.typesUsed.forEach(type => {
+      generator.typeDeclarationForGraphQLType(type);
+    });
+
+    Object.values(context.operations).forEach(operation => {
+      generator.classDeclarationForOperation(operation);
+    });
+
+    Object.values(context.fragments).forEach(fragment => {
+      generator.classDeclarationForFragment(fragment);
+    });
+  }
+
+  return generator;
+}
+
+function outputFileName(inputFilePath: string) {
+  return `${path.basename(inputFilePath)}.dart`;
+}
+
+export class DartAPIGenerator extends DartGenerator<CompilerContext> {
+  helpers: Helpers;
+
+  constructor(context: CompilerContext) {
+    super(context);
+
+    this.helpers = new Helpers(context.options);
+  }
+
+  fileHeader() {
+    this.printOnNewline(
+      "//  This file was automatically generated and should not be edited."
+    );
+  }
+
+  // Files generated for each input file import the types, and the files declaring the fragments they use
+  importDeclarations(inputFilePath: string, selectionSets: SelectionSet[]) {
+    const importedFileNames = new Set<string>();
+    for (const selectionSet of selectionSets) {
+      for (const fragmentName of collectFragmentsReferenced(
+        selectionSet,
+        this.context.fragments
+      )) {
+        const fragment = this.context.fragments[fragmentName];
+        if (fragment && fragment.filePath !== inputFilePath) {
+          importedFileNames.add(outputFileName(fragment.filePath));
+        }
+      }
+    }
+
+    this.printNewline();
+    this.importDeclaration(typesFileName);
+    Array.from(importedFileNames)
+      .sort()
+      .forEach(fileName => this.importDeclaration(fileName));
+  }
+
+  classDeclarationForOperation(operation: Operation) {
+    const {
+      operationName,
+      operationType,
+      variables,
+      source,
+      selectionSet
+    } = operation;
+
+    let className: string;
+
+    switch (operationType) {
+      case "query":
+        className = `${this.helpers.operationClassName(operationName)}Query`;
+        break;
+      case "mutation":
+        className = `${this.helpers.operationClassName(operationName)}Mutation`;
+        break;
+      case "subscription":
+        className = `${this.helpers.operationClassName(
+          operationName
+        )}Subscription`;
+        break;
+      default:
+        throw new GraphQLError(`Unsupported operation type "${operationType}"`);
+    }
+
+    const properties = variables.map(({ name, type }) => ({
+      name,
+      type,
+      propertyName: name,
+      typeName: this.helpers.typeNameFromGraphQLType(type)
+    }));
+
+    const dataClassName = this.helpers.nestedClassName(className, "Data");
+
+    this.classDeclaration({ className }, () => {
+      this.constructorDeclaration(className, properties);
+
+      this.propertyDeclarations(properties);
+
+      this.printNewlineIfNeeded();
+      this.printOnNewline("Map<String, dynamic> get variables => ");
+      this.mapLiteral(
+        properties.map(({ name, type, propertyName }) => [
+          name,
+          this.helpers.jsonValueExpression(
+            type,
+            escapeIdentifierIfNeeded(propertyName)
+          )
+        ])
+      );
+      this.print(";");
+
+      this.printNewlineIfNeeded();
+      this.printOnNewline(
+        `static ${dataClassName} parseData(Map<String, dynamic> json) => ${dataClassName}.fromJson(json);`
+      );
+
+      this.printNewlineIfNeeded();
+      this.printOnNewline("static const String operationDefinition =");
+      this.withIndent(() => {
+        this.multilineString(source);
+        this.print(";");
+      });
+
+      this.printNewlineIfNeeded();
+      this.printOnNewline(
+        `static const String operationName = '${operationName}';`
+      );
+
+      const fragmentsReferenced = collectFragmentsReferenced(
+        selectionSet,
+        this.context.fragments
+      );
+
+      this.printNewlineIfNeeded();
+      this.printOnNewline(
+        `static const String queryDocument = ${join(
+          [
+            "operationDefinition",
+            ...Array.from(fragmentsReferenced).map(
+              fragmentName =>
+                `${this.helpers.classNameForFragmentName(
+                  fragmentName
+                )}.fragmentDefinition`
+            )
+          ],
+          " + "
+        )};`
+      );
+
+      if (this.context.options.generateOperationIds) {
+        const { operationId } = generateOperationId(
+          operation,
+          this.context.fragments,
+          fragmentsReferenced
+        );
+        operation.operationId = operationId;
+        this.printNewlineIfNeeded();
+        this.printOnNewline(
+          `static const String operationId = '${operationId}';`
+        );
+      }
+    });
+
+    this.classDeclarationForSelectionSet({
+      className: dataClassName,
+      selectionSet
+    });
+  }
+
+  classDeclarationForFragment({
+    fragmentName,
+    selectionSet,
+    source
+  }: Fragment) {
+    const className = this.helpers.classNameForFragmentName(fragmentName);
+
+    this.classDeclarationForSelectionSet({ className, selectionSet }, () => {
+      this.printNewlineIfNeeded();
+      this.printOnNewline("static const String fragmentDefinition =");
+      this.withIndent(() => {
+        this.multilineString(source);
+        this.print(";");
+      });
+
+      this.printNewlineIfNeeded();
+      this.printOnNewline(
+        `static const List<String> possibleTypes = [${join(
+          selectionSet.possibleTypes.map(
+            type => `'${escapedString(type.name)}'`
+          ),
+          ", "
+        )}];`
+      );
+    });
+  }
+
+  // Selection sets with type conditions become an abstract class, implemented by a class for each set of
+  // possible types
+  classDeclarationForSelectionSet(
+    {
+      className,
+      selectionSet
+    }: {
+      className: string;
+      selectionSet: SelectionSet;
+    },
+    statics?: Function
+  ) {
+    const typeCase = typeCaseForSelectionSet(
+      selectionSet,
+      !!this.context.options.mergeInFieldsFromFragmentSpreads
+    );
+
+    if (typeCase.variants.length === 0) {
+      this.classDeclarationForVariant(
+        { className, variant: typeCase.default },
+        statics
+      );
+      return;
+    }
+
+    // Composite fields are declared as separate classes for every variant, so only scalar
+    // fields can be shared by the abstract class
+    const abstractFields = this.fieldsForVariant(
+      typeCase.default,
+      className
+    ).filter(field => !isCompositeType(getNamedType(field.type)));
+    const overriddenPropertyNames = abstractFields.map(
+      field => field.propertyName
+    );
+
+    const variants = typeCase.variants.map(variant => ({
+      className: this.helpers.nestedClassName(
+        className,
+        this.helpers.classNameForVariant(variant)
+      ),
+      variant
+    }));
+    // Types that aren't matched by any type condition, including types added to the schema later
+    const otherVariant = {
+      className: this.helpers.nestedClassName(className, "Other"),
+      variant: typeCase.remainder || typeCase.default
+    };
+
+    this.classDeclaration({ className, modifiers: ["abstract"] }, () => {
+      this.printOnNewline(
+        `factory ${className}.fromJson(Map<String, dynamic> json)`
+      );
+      this.withinBlock(() => {
+        this.printOnNewline("switch (json['__typename'])");
+        this.withinBlock(() => {
+          for (const { className: variantClassName, variant } of variants) {
+            for (const type of variant.possibleTypes) {
+              this.printOnNewline(`case '${escapedString(type.name)}':`);
+            }
+            this.withIndent(() => {
+              this.printOnNewline(`return ${variantClassName}.fromJson(json);`);
+            });
+          }
+          this.printOnNewline("default:");
+          this.withIndent(() => {
+            this.printOnNewline(
+              `return ${otherVariant.className}.fromJson(json);`
+            );
+          });
+        });
+      });
+
+      if (statics) {
+        statics();
+      }
+
+      for (const field of abstractFields) {
+        this.printNewlineIfNeeded();
+        this.comment(field.description);
+        this.deprecationAnnotation(field.isDeprecated, field.deprecationReason);
+        this.printOnNewline(
+          `${field.typeName} get ${escapeIdentifierIfNeeded(
+            field.propertyName
+          )};`
+        );
+      }
+
+      this.printNewlineIfNeeded();
+      this.printOnNewline("Map<String, dynamic> toJson();");
+    });
+
+    for (const { className: variantClassName, variant } of [
+      ...variants,
+      otherVariant
+    ]) {
+      this.classDeclarationForVariant({
+        className: variantClassName,
+        variant,
+        implementedInterface: className,
+        overriddenPropertyNames
+      });
+    }
+  }
+
+  classDeclarationForVariant(
+    {
+      className,
+      variant,
+      implementedInterface,
+      overriddenPropertyNames = []
+    }: {
+      className: string;
+      variant: Variant;
+      implementedInterface?: string;
+      overriddenPropertyNames?: string[];
+    },
+    statics?: Function
+  ) {
+    const fields = this.fieldsForVariant(variant, className);
+
+    const fragmentSpreads = variant.fragmentSpreads.map(fragmentSpread => {
+      const isConditional = variant.possibleTypes.some(
+        type => !fragmentSpread.selectionSet.possibleTypes.includes(type)
+      );
+
+      return this.helpers.propertyFromFragmentSpread(
+        fragmentSpread,
+        isConditional
+      );
+    });
+    const fragmentsClassName = this.helpers.nestedClassName(
+      className,
+      "Fragments"
+    );
+
+    const properties: Property[] = fields.map(field => ({
+      ...field,
+      isOverride: overriddenPropertyNames.includes(field.propertyName)
+    }));
+    if (fragmentSpreads.length > 0) {
+      properties.push({
+        propertyName: "fragments",
+        typeName: fragmentsClassName
+      });
+    }
+
+    const assignments: [string, string][] = fields.map(
+      ({ propertyName, responseKey, type, className: fieldClassName }) => [
+        propertyName,
+        this.helpers.valueFromJsonExpression(
+          type,
+          `json['${escapedString(responseKey)}']`,
+          fieldClassName
+        )
+      ]
+    );
+    if (fragmentSpreads.length > 0) {
+      assignments.push(["fragments", `${fragmentsClassName}.fromJson(json)`]);
+    }
+
+    this.classDeclaration(
+      {
+        className,
+        implementedInterfaces: implementedInterface
+          ? [implementedInterface]
+          : undefined
+      },
+      () => {
+        this.constructorDeclaration(className, properties);
+
+        this.fromJsonDeclaration(className, assignments);
+
+        if (statics) {
+          statics();
+        }
+
+        this.propertyDeclarations(properties);
+
+        this.toJsonDeclaration(
+          fields.map(({ responseKey, type, propertyName }) => [
+            responseKey,
+            this.helpers.jsonValueExpression(
+              type,
+              escapeIdentifierIfNeeded(propertyName)
+            )
+          ]),
+          fragmentSpreads.length > 0 ? ["fragments.toJson()"] : [],
+          !!implementedInterface
+        );
+      }
+    );
+
+    if (fragmentSpreads.length > 0) {
+      this.classDeclaration({ className: fragmentsClassName }, () => {
+        this.constructorDeclaration(fragmentsClassName, fragmentSpreads);
+
+        this.fromJsonDeclaration(
+          fragmentsClassName,
+          fragmentSpreads.map(({ propertyName, className, isConditional }) => [
+            propertyName,
+            isConditional
+              ? `${className}.possibleTypes.contains(json['__typename']) ? ${className}.fromJson(json) : null`
+              : `${className}.fromJson(json)`
+          ])
+        );
+
+        this.propertyDeclarations(fragmentSpreads);
+
+        // Fragments are spread into the same object in the response
+        this.toJsonDeclaration(
+          [],
+          fragmentSpreads.map(({ propertyName, isConditional }) =>
+            isConditional
+              ? `?${escapeIdentifierIfNeeded(propertyName)}?.toJson()`
+              : `${escapeIdentifierIfNeeded(propertyName)}.toJson()`
+          )
+        );
+      });
+    }
+
+    for (const field of fields) {
+      if (isCompositeType(getNamedType(field.type)) && field.selectionSet) {
+        this.classDeclarationForSelectionSet({
+          className: field.className,
+          selectionSet: field.selectionSet
+        });
+      }
+    }
+  }
+
+  fieldsForVariant(variant: Variant, className: string) {
+    return collectAndMergeFields(
+      variant,
+      !!this.context.options.mergeInFieldsFromFragmentSpreads
+    ).map(field => this.helpers.propertyFromField(field as Field, className));
+  }
+
+  fromJsonDeclaration(className: string, assignments: [string, string][]) {
+    this.printNewlineIfNeeded();
+    this.printOnNewline(
+      `factory ${className}.fromJson(Map<String, dynamic> json) => ${className}(`
+    );
+    this.withIndent(() => {
+      assignments.forEach(([propertyName, expression]) => {
+        this.printOnNewline(
+          `${escapeIdentifierIfNeeded(propertyName)}: ${expression},`
+        );
+      });
+    });
+    this.printOnNewline(");");
+  }
+
+  toJsonDeclaration(
+    entries: [string, string][],
+    maps: string[] = [],
+    isOverride: boolean = false
+  ) {
+    this.printNewlineIfNeeded();
+    if (isOverride) {
+      this.printOnNewline("@override");
+    }
+    this.printOnNewline("Map<String, dynamic> toJson() => ");
+    this.mapLiteral(entries, maps);
+    this.print(";");
+  }
+
+  typeDeclarationForGraphQLType(type: GraphQLType) {
+    if (type instanceof GraphQLEnumType) {
+      this.enumDeclaration(type);
+    } else if (type instanceof GraphQLInputObjectType) {
+      this.classDeclarationForInputObjectType(type);
+    }
+  }
+
+  enumDeclaration(type: GraphQLEnumType) {
+    const { name, description } = type;
+    const values = type.getValues();
+
+    this.printNewlineIfNeeded();
+    this.comment(description || undefined);
+    this.printOnNewline(`enum ${name}`);
+    this.withinBlock(() => {
+      values.forEach(value => {
+        this.comment(value.description || undefined);
+        this.deprecationAnnotation(
+          value.isDeprecated,
+          value.deprecationReason || undefined
+        );
+        this.printOnNewline(
+          `${escapeIdentifierIfNeeded(value.name)}('${escapedString(
+            value.value
+          )}'),`
+        );
+      });
+      this.comment("Auto generated constant for unknown enum values");
+      this.printOnNewline(`UNKNOWN__('UNKNOWN__');`);
+
+      this.printNewline();
+      this.printOnNewline(`const ${name}(this.rawValue);`);
+
+      this.printNewline();
+      this.printOnNewline("final String rawValue;");
+
+      this.printNewline();
+      this.printOnNewline(
+        `static ${name} fromJson(String rawValue) => values.firstWhere((value) => value.rawValue == rawValue, orElse: () => UNKNOWN__);`
+      );
+
+      this.printNewline();
+      this.printOnNewline("String toJson() => rawValue;");
+    });
+  }
+
+  classDeclarationForInputObjectType(type: GraphQLInputObjectType) {
+    const { name: className, description } = type;
+    const properties = Object.values(type.getFields()).map(
+      this.helpers.propertyFromInputField,
+      this.helpers
+    );
+
+    this.classDeclaration(
+      {
+        className,
+        description: description || undefined
+      },
+      () => {
+        this.constructorDeclaration(className, properties);
+
+        this.propertyDeclarations(properties);
+
+        this.toJsonDeclaration(
+          properties.map(({ name, type, propertyName }) => [
+            name,
+            this.helpers.jsonValueExpression(
+              type,
+              escapeIdentifierIfNeeded(propertyName)
+            )
+          ])
+        );
+      }
+    );
+  }
+}
@@ -0,0 +1,252 @@
+import {
+  GraphQLType,
+  GraphQLString,
+  GraphQLInt,
+  GraphQLFloat,
+  GraphQLBoolean,
+  GraphQLID,
+  GraphQLScalarType,
+  GraphQLEnumType,
+  GraphQLInputObjectType,
+  GraphQLInputField,
+  isCompositeType,
+  getNamedType,
+  isNonNullType,
+  isListType
+} from "graphql";
+
+import { camelCase, pascalCase } from "change-case";
+import * as Inflector from "inflected";
+
+import { Property } from "./language";
+
+import {
+  CompilerOptions,
+  SelectionSet,
+  Field,
+  FragmentSpread
+} from "apollo-codegen-core/lib/compiler";
+
+const builtInScalarMap = {
+  [GraphQLString.name]: "String",
+  [GraphQLInt.name]: "int",
+  [GraphQLFloat.name]: "double",
+  [GraphQLBoolean.name]: "bool",
+  [GraphQLID.name]: "String"
+};
+
+const jsonMapTypeName = "Map<String, dynamic>";
+
+export class Helpers {
+  constructor(public options: CompilerOptions) {}
+
+  // Types
+
+  typeNameFromGraphQLType(
+    type: GraphQLType,
+    unmodifiedTypeName?: string,
+    isOptional?: boolean
+  ): string {
+    if (isNonNullType(type)) {
+      return this.typeNameFromGraphQLType(
+        type.ofType,
+        unmodifiedTypeName,
+        false
+      );
+    } else if (isOptional === undefined) {
+      isOptional = true;
+    }
+
+    let typeName;
+    if (isListType(type)) {
+      typeName =
+        "List<" +
+        this.typeNameFromGraphQLType(type.ofType, unmodifiedTypeName) +
+        ">";
+    } else if (type instanceof GraphQLScalarType) {
+      typeName = this.typeNameForScalarType(type);
+    } else {
+      typeName = unmodifiedTypeName || type.name;
+    }
+
+    return isOptional ? typeName + "?" : typeName;
+  }
+
+  typeNameForScalarType(type: GraphQLScalarType): string {
+    return (
+      builtInScalarMap[type.name] ||
+      (this.options.passthroughCustomScalars
+        ? this.options.customScalarsPrefix + type.name
+        : GraphQLString.name)
+    );
+  }
+
+  // Names
+
+  operationClassName(name: string) {
+    return pascalCase(name);
+  }
+
+  // Dart doesn't have nested classes, so the classes for selection sets are prefixed with the name of
+  // their enclosing class
+  nestedClassName(parentClassName: string, className: string) {
+    return `${parentClassName}$${className}`;
+  }
+
+  classNameForPropertyName(propertyName: string) {
+    return pascalCase(Inflector.singularize(propertyName));
+  }
+
+  classNameForFragmentName(fragmentName: string) {
+    return pascalCase(fragmentName);
+  }
+
+  classNameForVariant(variant: SelectionSet) {
+    return (
+      "As" + variant.possibleTypes.map(type => pascalCase(type.name)).join("Or")
+    );
+  }
+
+  // Names starting with an underscore would be private to the generated library, so `__typename` becomes `typename`
+  propertyNameForField(responseKey: string) {
+    return camelCase(responseKey);
+  }
+
+  // Properties
+
+  propertyFromField(
+    field: Field,
+    parentClassName: string
+  ): Field & Property & { className: string } {
+    const { responseKey, isConditional } = field;
+
+    const propertyName = this.propertyNameForField(responseKey);
+    const className = this.nestedClassName(
+      parentClassName,
+      this.classNameForPropertyName(responseKey)
+    );
+
+    let type = field.type;
+
+    // Fields that are skipped or not included are missing from the response
+    if (isConditional && isNonNullType(type)) {
+      type = type.ofType;
+    }
+
+    const unmodifiedType = getNamedType(field.type);
+
+    const unmodifiedTypeName = isCompositeType(unmodifiedType)
+      ? className
+      : unmodifiedType.name;
+
+    const typeName = this.typeNameFromGraphQLType(type, unmodifiedTypeName);
+
+    return Object.assign({}, field, {
+      type,
+      propertyName,
+      typeName,
+      className
+    });
+  }
+
+  propertyFromFragmentSpread(
+    fragmentSpread: FragmentSpread,
+    isConditional: boolean
+  ): FragmentSpread & Property & { className: string } {
+    const className = this.classNameForFragmentName(
+      fragmentSpread.fragmentName
+    );
+
+    return Object.assign({}, fragmentSpread, {
+      propertyName: camelCase(fragmentSpread.fragmentName),
+      typeName: isConditional ? className + "?" : className,
+      className,
+      isConditional
+    });
+  }
+
+  propertyFromInputField(
+    field: GraphQLInputField
+  ): GraphQLInputField & Property {
+    return Object.assign({}, field, {
+      propertyName: camelCase(field.name),
+      typeName: this.typeNameFromGraphQLType(field.type),
+      description: field.description || undefined
+    });
+  }
+
+  // Expressions
+
+  // Converts a value from a decoded JSON response to the generated type
+  valueFromJsonExpression(
+    type: GraphQLType,
+    expression: string,
+    unmodifiedTypeName: string
+  ): string {
+    const isOptional = !isNonNullType(type);
+    const nullableType = isNonNullType(type) ? type.ofType : type;
+    const optional = isOptional ? "?" : "";
+
+    if (isListType(nullableType)) {
+      const elementExpression = this.valueFromJsonExpression(
+        nullableType.ofType,
+        "e",
+        unmodifiedTypeName
+      );
+      return `(${expression} as List<dynamic>${optional})${optional}.map((e) => ${elementExpression}).toList()`;
+    }
+
+    if (nullableType instanceof GraphQLEnumType) {
+      const conversion = `${
+        nullableType.name
+      }.fromJson(${expression} as String)`;
+      return isOptional
+        ? `${expression} == null ? null : ${conversion}`
+        : conversion;
+    }
+
+    if (isCompositeType(nullableType)) {
+      const conversion = `${unmodifiedTypeName}.fromJson(${expression} as ${jsonMapTypeName})`;
+      return isOptional
+        ? `${expression} == null ? null : ${conversion}`
+        : conversion;
+    }
+
+    const typeName = this.typeNameForScalarType(
+      nullableType as GraphQLScalarType
+    );
+    // Whole numbers are decoded as ints, even for Float fields
+    if (typeName === "double") {
+      return `(${expression} as num${optional})${optional}.toDouble()`;
+    }
+    return `${expression} as ${typeName}${optional}`;
+  }
+
+  // Converts a variable, input field or response value to a value that can be encoded as JSON
+  jsonValueExpression(type: GraphQLType, expression: string): string {
+    const isOptional = !isNonNullType(type);
+    const nullableType = isNonNullType(type) ? type.ofType : type;
+    const optional = isOptional ? "?" : "";
+
+    if (isListType(nullableType)) {
+      const elementExpression = this.jsonValueExpression(
+        nullableType.ofType,
+        "e"
+      );
+      // Lists of scalars can be passed on as is
+      return elementExpression === "e"
+        ? expression
+        : `${expression}${optional}.map((e) => ${elementExpression}).toList()`;
+    }
+
+    if (
+      nullableType instanceof GraphQLEnumType ||
+      nullableType instanceof GraphQLInputObjectType ||
+      isCompositeType(nullableType)
+    ) {
+      return `${expression}${optional}.toJson()`;
+    }
+
+    return expression;
+  }
+}
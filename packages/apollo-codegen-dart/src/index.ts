@@ -0,0 +1 @@
+export { generateSource } from "./codeGeneration";
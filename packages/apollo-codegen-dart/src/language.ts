@@ -0,0 +1,153 @@
+import CodeGenerator from "apollo-codegen-core/lib/utilities/CodeGenerator";
+
+import { join, wrap } from "apollo-codegen-core/lib/utilities/printing";
+
+export interface Class {
+  className: string;
+  modifiers?: string[];
+  implementedInterfaces?: string[];
+  description?: string;
+}
+
+export interface Property {
+  propertyName: string;
+  typeName: string;
+  isOverride?: boolean;
+  description?: string;
+  isDeprecated?: boolean;
+  deprecationReason?: string;
+}
+
+export function escapedString(string: string) {
+  return string
+    .replace(/\\/g, "\\\\")
+    .replace(/'/g, "\\'")
+    .replace(/\$/g, "\\$")
+    .replace(/\n/g, "\\n");
+}
+
+// prettier-ignore
+const reservedKeywords = new Set(['assert', 'break', 'case', 'catch', 'class',
+  'const', 'continue', 'default', 'do', 'else', 'enum', 'extends', 'false',
+  'final', 'finally', 'for', 'if', 'in', 'is', 'new', 'null', 'rethrow',
+  'return', 'super', 'switch', 'this', 'throw', 'true', 'try', 'var', 'void',
+  'while', 'with', 'values', 'index', 'hashCode', 'runtimeType']);
+
+// Dart has no way to escape identifiers, so reserved words get a `$` suffix
+export function escapeIdentifierIfNeeded(identifier: string) {
+  if (reservedKeywords.has(identifier)) {
+    return identifier + "$";
+  } else {
+    return identifier;
+  }
+}
+
+export class DartGenerator<Context> extends CodeGenerator<
+  Context,
+  { typeName: string }
+> {
+  constructor(context: Context) {
+    super(context);
+  }
+
+  multilineString(string: string) {
+    this.printOnNewline(`'${escapedString(string)}'`);
+  }
+
+  comment(comment?: string) {
+    if (!comment) return;
+
+    comment.split("\n").forEach(line => {
+      this.printOnNewline(`/// ${line.trim()}`.trimRight());
+    });
+  }
+
+  deprecationAnnotation(
+    isDeprecated: boolean | undefined,
+    deprecationReason: string | undefined
+  ) {
+    if (isDeprecated !== undefined && isDeprecated) {
+      this.printOnNewline(
+        `@Deprecated('${escapedString(deprecationReason || "")}')`
+      );
+    }
+  }
+
+  importDeclaration(path: string) {
+    this.printOnNewline(`import '${path}';`);
+  }
+
+  classDeclaration(
+    { className, modifiers = [], implementedInterfaces, description }: Class,
+    closure: Function
+  ) {
+    this.printNewlineIfNeeded();
+    this.comment(description);
+    this.printOnNewline(
+      wrap("", join(modifiers, " "), " ") +
+        `class ${className}` +
+        wrap(" implements ", join(implementedInterfaces || [], ", "))
+    );
+    this.pushScope({ typeName: className });
+    this.withinBlock(closure);
+    this.popScope();
+  }
+
+  // A constructor with named parameters, which are required unless they're nullable
+  constructorDeclaration(className: string, properties: Property[]) {
+    if (properties.length === 0) {
+      this.printOnNewline(`${className}();`);
+      return;
+    }
+
+    this.printOnNewline(`${className}({`);
+    this.withIndent(() => {
+      properties.forEach(({ propertyName, typeName }) => {
+        this.printOnNewline(
+          `${
+            typeName.endsWith("?") ? "" : "required "
+          }this.${escapeIdentifierIfNeeded(propertyName)},`
+        );
+      });
+    });
+    this.printOnNewline("});");
+  }
+
+  propertyDeclarations(properties: Property[]) {
+    properties.forEach(property => {
+      this.printNewlineIfNeeded();
+      this.comment(property.description);
+      this.deprecationAnnotation(
+        property.isDeprecated,
+        property.deprecationReason
+      );
+      if (property.isOverride) {
+        this.printOnNewline("@override");
+      }
+      this.printOnNewline(
+        `final ${property.typeName} ${escapeIdentifierIfNeeded(
+          property.propertyName
+        )};`
+      );
+    });
+  }
+
+  // Prints a map literal, starting with the spread `maps`
+  mapLiteral(entries: [string, string][], maps: string[] = []) {
+    if (entries.length === 0 && maps.length === 0) {
+      this.print("{}");
+      return;
+    }
+
+    this.print("{");
+    this.withIndent(() => {
+      maps.forEach(map => {
+        this.printOnNewline(`...${map},`);
+      });
+      entries.forEach(([key, expression]) => {
+        this.printOnNewline(`'${key}': ${expression},`);
+      });
+    });
+    this.printOnNewline("}");
+  }
+}
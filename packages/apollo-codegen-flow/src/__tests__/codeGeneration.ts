@@ -317,4 +317,28 @@ describe("Flow codeGeneration", () => {
 
     expect(output).toMatchSnapshot();
   });
+
+  test("imports mapped custom scalars", () => {
+    const miscSchema = loadSchema(
+      require.resolve("../../../../__fixtures__/misc/schema.json")
+    );
+
+    const document = parse(`
+      query Misc {
+        misc {
+          date
+        }
+      }
+    `);
+
+    const output = generateSource(
+      compileToIR(miscSchema, document, {
+        mergeInFieldsFromFragmentSpreads: true,
+        addTypename: true,
+        scalars: { Date: { type: "DateTime", import: "luxon" } }
+      })
+    );
+
+    expect(output).toMatchSnapshot();
+  });
 });
@@ -480,3 +480,29 @@ describe("passthrough custom scalars with custom scalar prefix", () => {
     );
   });
 });
+
+describe("mapped custom scalars", () => {
+  let getTypeAnnotation: Function;
+
+  beforeAll(() => {
+    getTypeAnnotation = createTypeAnnotationFromGraphQLTypeFunction({
+      passthroughCustomScalars: true,
+      customScalarsPrefix: "Foo$",
+      scalars: { Odd: { type: "number" } },
+      useFlowReadOnlyTypes: false
+    });
+  });
+
+  test("Custom Scalar", () => {
+    const OddType = new GraphQLScalarType({
+      name: "Odd",
+      serialize(value) {
+        return value % 2 === 1 ? value : null;
+      }
+    });
+
+    expect(getTypeAnnotation(OddType)).toMatchObject(
+      t.nullableTypeAnnotation(t.genericTypeAnnotation(t.identifier("number")))
+    );
+  });
+});
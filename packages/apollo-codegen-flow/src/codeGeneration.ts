@@ -18,6 +18,7 @@ import {
 import { collectAndMergeFields } from "apollo-codegen-core/lib/compiler/visitors/collectAndMergeFields";
 
 import { BasicGeneratedFile } from "apollo-codegen-core/lib/utilities/CodeGenerator";
+import { scalarImports } from "apollo-codegen-core/lib/utilities/scalars";
 import FlowGenerator, { ObjectProperty, FlowCompilerOptions } from "./language";
 import Printer from "./printer";
 
@@ -63,6 +64,21 @@ function printEnumsAndInputObjects(
   `);
 }
 
+// The common part is appended to every generated file, so it imports the mapped scalars for all of them
+function printScalarImports(
+  generator: FlowAPIGenerator,
+  context: CompilerContext
+) {
+  for (const [source, typeNames] of scalarImports(
+    context.options,
+    context.typesUsed
+  )) {
+    generator.printer.enqueue(
+      `import type { ${typeNames.join(", ")} } from ${JSON.stringify(source)};`
+    );
+  }
+}
+
 export function generateSource(context: CompilerContext) {
   const generator = new FlowAPIGenerator(context);
   const generatedFiles: {
@@ -98,6 +114,7 @@ export function generateSource(context: CompilerContext) {
   });
 
   generator.fileHeader();
+  printScalarImports(generator, context);
   printEnumsAndInputObjects(generator, context);
   const common = generator.printer.printAndClear();
 
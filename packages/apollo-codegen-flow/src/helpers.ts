@@ -13,6 +13,7 @@ import {
 import * as t from "@babel/types";
 
 import { CompilerOptions } from "apollo-codegen-core/lib/compiler";
+import { scalarMappingForType } from "apollo-codegen-core/lib/utilities/scalars";
 
 const builtInScalarMap = {
   [GraphQLString.name]: t.stringTypeAnnotation(),
@@ -48,6 +49,11 @@ export function createTypeAnnotationFromGraphQLTypeFunction(
       const builtIn = builtInScalarMap[typeName || type.name];
       if (builtIn != null) {
         return builtIn;
+      }
+
+      const mapping = scalarMappingForType(compilerOptions, type);
+      if (mapping) {
+        return t.genericTypeAnnotation(t.identifier(mapping.type));
       } else if (compilerOptions.passthroughCustomScalars) {
         return t.genericTypeAnnotation(
           t.identifier(
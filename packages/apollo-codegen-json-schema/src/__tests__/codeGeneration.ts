@@ -0,0 +1,141 @@
+import { parse } from "graphql";
+
+import { loadSchema } from "apollo-codegen-core/lib/loading";
+const schema = loadSchema(
+  require.resolve("../../../../__fixtures__/starwars/schema.json")
+);
+
+import { compileToIR } from "apollo-codegen-core/lib/compiler";
+
+import { generateJSONSchema, generateSource } from "../codeGeneration";
+import { generateSource as generateZodSource } from "../zod";
+
+function compile(source: string) {
+  return compileToIR(schema, parse(source), { addTypename: true });
+}
+
+describe("JSON Schema code generation", () => {
+  it("should describe the result and variables of a query", () => {
+    const context = compile(`
+      query HeroName($episode: Episode) {
+        hero(episode: $episode) {
+          name
+        }
+      }
+    `);
+
+    expect(generateJSONSchema(context).definitions).toEqual({
+      Episode: {
+        description: "The episodes in the Star Wars trilogy",
+        type: "string",
+        enum: ["EMPIRE", "JEDI", "NEWHOPE"]
+      },
+      HeroName: {
+        type: "object",
+        properties: {
+          hero: {
+            type: ["object", "null"],
+            properties: {
+              __typename: { type: "string", enum: ["Human", "Droid"] },
+              name: {
+                description: "The name of the character",
+                type: "string"
+              }
+            },
+            required: ["__typename", "name"],
+            additionalProperties: false
+          }
+        },
+        required: ["hero"],
+        additionalProperties: false
+      },
+      HeroNameVariables: {
+        type: "object",
+        properties: {
+          episode: {
+            anyOf: [{ $ref: "#/definitions/Episode" }, { type: "null" }]
+          }
+        },
+        required: [],
+        additionalProperties: false
+      }
+    });
+  });
+
+  it("should describe type conditions as alternatives", () => {
+    const context = compile(`
+      query HeroDetails {
+        hero {
+          name
+          ... on Droid {
+            primaryFunction
+          }
+          ... on Human {
+            height
+          }
+        }
+      }
+    `);
+
+    expect(generateSource(context)).toMatchSnapshot();
+  });
+
+  it("should describe fields that are skipped or not included as optional", () => {
+    const context = compile(`
+      query HeroName($includeName: Boolean!) {
+        hero {
+          name @include(if: $includeName)
+        }
+      }
+    `);
+
+    const { definitions } = generateJSONSchema(context);
+    expect(definitions!.HeroName.properties!.hero.required).toEqual([
+      "__typename"
+    ]);
+  });
+
+  it("should describe input objects and merge in fragment spreads", () => {
+    const context = compile(`
+      mutation CreateReview($episode: Episode, $review: ReviewInput!) {
+        createReview(episode: $episode, review: $review) {
+          ...ReviewFields
+        }
+      }
+
+      fragment ReviewFields on Review {
+        stars
+        commentary
+      }
+    `);
+
+    expect(generateSource(context)).toMatchSnapshot();
+  });
+});
+
+describe("zod code generation", () => {
+  it("should generate schemas for results, variables, enums and input objects", () => {
+    const context = compile(`
+      mutation CreateReview($episode: Episode, $review: ReviewInput!) {
+        createReview(episode: $episode, review: $review) {
+          stars
+          commentary
+        }
+      }
+
+      query HeroDetails {
+        hero {
+          name
+          friends {
+            name
+          }
+          ... on Droid {
+            primaryFunction
+          }
+        }
+      }
+    `);
+
+    expect(generateZodSource(context)).toMatchSnapshot();
+  });
+});
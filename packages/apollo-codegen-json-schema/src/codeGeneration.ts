@@ -0,0 +1,265 @@
+import {
+  GraphQLType,
+  GraphQLScalarType,
+  GraphQLEnumType,
+  GraphQLInputObjectType,
+  GraphQLString,
+  GraphQLInt,
+  GraphQLFloat,
+  GraphQLBoolean,
+  GraphQLID,
+  isNonNullType,
+  isListType
+} from "graphql";
+
+import {
+  CompilerContext,
+  Operation,
+  SelectionSet,
+  Field
+} from "apollo-codegen-core/lib/compiler";
+import {
+  typeCaseForSelectionSet,
+  Variant
+} from "apollo-codegen-core/lib/compiler/visitors/typeCase";
+import { collectAndMergeFields } from "apollo-codegen-core/lib/compiler/visitors/collectAndMergeFields";
+import { sortEnumValues } from "apollo-codegen-core/lib/utilities/graphql";
+
+export type JSONSchemaTypeName =
+  | "string"
+  | "integer"
+  | "number"
+  | "boolean"
+  | "array"
+  | "object"
+  | "null";
+
+export interface JSONSchema {
+  $schema?: string;
+  $ref?: string;
+  description?: string;
+  type?: JSONSchemaTypeName | JSONSchemaTypeName[];
+  enum?: string[];
+  items?: JSONSchema;
+  properties?: { [propertyName: string]: JSONSchema };
+  required?: string[];
+  additionalProperties?: boolean;
+  anyOf?: JSONSchema[];
+  definitions?: { [definitionName: string]: JSONSchema };
+}
+
+const builtInScalarMap: { [scalarName: string]: JSONSchema } = {
+  [GraphQLString.name]: { type: "string" },
+  [GraphQLInt.name]: { type: "integer" },
+  [GraphQLFloat.name]: { type: "number" },
+  [GraphQLBoolean.name]: { type: "boolean" },
+  [GraphQLID.name]: { type: "string" }
+};
+
+export function definitionRef(definitionName: string) {
+  return `#/definitions/${definitionName}`;
+}
+
+export function variablesDefinitionName(operationName: string) {
+  return operationName + "Variables";
+}
+
+// A single schema with a definition for the result and variables of every operation, and for the
+// enums and input objects they use
+export function generateJSONSchema(context: CompilerContext): JSONSchema {
+  return new JSONSchemaGenerator(context).schema();
+}
+
+export function generateSource(context: CompilerContext): string {
+  return JSON.stringify(generateJSONSchema(context), null, 2) + "\n";
+}
+
+export class JSONSchemaGenerator {
+  constructor(public context: CompilerContext) {}
+
+  schema(): JSONSchema {
+    const definitions: { [definitionName: string]: JSONSchema } = {};
+
+    this.context.typesUsed.forEach(type => {
+      if (type instanceof GraphQLEnumType) {
+        definitions[type.name] = this.enumSchema(type);
+      } else if (type instanceof GraphQLInputObjectType) {
+        definitions[type.name] = this.inputObjectSchema(type);
+      }
+    });
+
+    Object.values(this.context.operations).forEach(operation => {
+      definitions[operation.operationName] = this.selectionSetSchema(
+        operation.selectionSet
+      );
+      definitions[
+        variablesDefinitionName(operation.operationName)
+      ] = this.variablesSchema(operation);
+    });
+
+    return {
+      $schema: "http://json-schema.org/draft-07/schema#",
+      definitions
+    };
+  }
+
+  enumSchema(type: GraphQLEnumType): JSONSchema {
+    return withDescription(
+      {
+        type: "string",
+        enum: sortEnumValues(type.getValues()).map(({ value }) => value)
+      },
+      type.description
+    );
+  }
+
+  inputObjectSchema(type: GraphQLInputObjectType): JSONSchema {
+    const fields = Object.values(type.getFields());
+
+    return withDescription(
+      {
+        type: "object",
+        properties: fields.reduce(
+          (properties, field) => ({
+            ...properties,
+            [field.name]: withDescription(
+              this.typeSchema(field.type),
+              field.description
+            )
+          }),
+          {}
+        ),
+        required: fields
+          .filter(
+            field =>
+              isNonNullType(field.type) && field.defaultValue === undefined
+          )
+          .map(field => field.name),
+        additionalProperties: false
+      },
+      type.description
+    );
+  }
+
+  variablesSchema({ variables }: Operation): JSONSchema {
+    return {
+      type: "object",
+      properties: variables.reduce(
+        (properties, variable) => ({
+          ...properties,
+          [variable.name]: this.typeSchema(variable.type)
+        }),
+        {}
+      ),
+      required: variables
+        .filter(variable => isNonNullType(variable.type))
+        .map(variable => variable.name),
+      additionalProperties: false
+    };
+  }
+
+  // Responses always include the fields of fragment spreads, so they're merged in regardless of
+  // the `mergeInFieldsFromFragmentSpreads` option
+  selectionSetSchema(selectionSet: SelectionSet): JSONSchema {
+    const schemas = typeCaseForSelectionSet(
+      selectionSet,
+      true
+    ).exhaustiveVariants.map(variant => this.variantSchema(variant));
+
+    return schemas.length === 1 ? schemas[0] : { anyOf: schemas };
+  }
+
+  variantSchema(variant: Variant): JSONSchema {
+    const fields = collectAndMergeFields(variant, true);
+
+    return {
+      type: "object",
+      properties: fields.reduce(
+        (properties, field) => ({
+          ...properties,
+          [field.responseKey]: withDescription(
+            this.fieldSchema(field, variant),
+            field.description
+          )
+        }),
+        {}
+      ),
+      // Fields that are skipped or not included are missing from the response
+      required: fields
+        .filter(field => !field.isConditional)
+        .map(field => field.responseKey),
+      additionalProperties: false
+    };
+  }
+
+  fieldSchema(field: Field, variant: Variant): JSONSchema {
+    if (field.name === "__typename") {
+      return {
+        type: "string",
+        enum: variant.possibleTypes.map(type => type.name)
+      };
+    }
+
+    const { selectionSet } = field;
+    return this.typeSchema(
+      field.type,
+      selectionSet && (() => this.selectionSetSchema(selectionSet))
+    );
+  }
+
+  // Composite types are described by the schema of the selection set on them, and enums and input
+  // objects refer to their definitions
+  typeSchema(
+    type: GraphQLType,
+    compositeTypeSchema?: () => JSONSchema
+  ): JSONSchema {
+    if (isNonNullType(type)) {
+      return this.nonNullTypeSchema(type.ofType, compositeTypeSchema);
+    } else {
+      return nullable(this.nonNullTypeSchema(type, compositeTypeSchema));
+    }
+  }
+
+  private nonNullTypeSchema(
+    type: GraphQLType,
+    compositeTypeSchema?: () => JSONSchema
+  ): JSONSchema {
+    if (isListType(type)) {
+      return {
+        type: "array",
+        items: this.typeSchema(type.ofType, compositeTypeSchema)
+      };
+    } else if (type instanceof GraphQLScalarType) {
+      // Custom scalars can be serialized as any JSON value
+      return builtInScalarMap[type.name] || {};
+    } else if (
+      type instanceof GraphQLEnumType ||
+      type instanceof GraphQLInputObjectType
+    ) {
+      return { $ref: definitionRef(type.name) };
+    } else if (compositeTypeSchema) {
+      return compositeTypeSchema();
+    } else {
+      throw new Error(`Cannot describe ${type} without a selection set`);
+    }
+  }
+}
+
+function withDescription(
+  schema: JSONSchema,
+  description?: string | null
+): JSONSchema {
+  return description ? { description, ...schema } : schema;
+}
+
+function nullable(schema: JSONSchema): JSONSchema {
+  if (typeof schema.type === "string" && !schema.enum) {
+    return { ...schema, type: [schema.type, "null"] };
+  } else if (Object.keys(schema).length === 0) {
+    return schema;
+  } else if (schema.anyOf) {
+    return { ...schema, anyOf: [...schema.anyOf, { type: "null" }] };
+  } else {
+    return { anyOf: [schema, { type: "null" }] };
+  }
+}
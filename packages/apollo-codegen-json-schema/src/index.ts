@@ -0,0 +1,2 @@
+export { generateSource } from "./codeGeneration";
+export { generateSource as generateZodSource } from "./zod";
@@ -0,0 +1,109 @@
+import { GraphQLInputObjectType } from "graphql";
+
+import { CompilerContext } from "apollo-codegen-core/lib/compiler";
+
+import { JSONSchema, generateJSONSchema } from "./codeGeneration";
+
+export function zodSchemaName(definitionName: string) {
+  return definitionName + "Schema";
+}
+
+// Emits a zod schema for every definition of the JSON Schema, so payloads can be validated
+// without a JSON Schema validator
+export function generateSource(context: CompilerContext): string {
+  const { definitions = {} } = generateJSONSchema(context);
+
+  const schemas = Object.entries(definitions).map(([name, schema]) => {
+    // Input objects can refer to themselves, so they're evaluated lazily
+    if (context.schema.getType(name) instanceof GraphQLInputObjectType) {
+      return `export const ${zodSchemaName(
+        name
+      )}: z.ZodTypeAny = z.lazy(() => ${zodExpression(schema)});`;
+    }
+    return `export const ${zodSchemaName(name)} = ${zodExpression(schema)};`;
+  });
+
+  return (
+    [
+      `/* tslint:disable */
+/* eslint-disable */
+// This file was automatically generated and should not be edited.
+
+import { z } from "zod";`,
+      ...schemas
+    ].join("\n\n") + "\n"
+  );
+}
+
+export function zodExpression(schema: JSONSchema, indent = ""): string {
+  if (schema.$ref) {
+    return zodSchemaName(schema.$ref.replace("#/definitions/", ""));
+  }
+
+  if (schema.anyOf) {
+    const nullable = schema.anyOf.some(isNullSchema);
+    const schemas = schema.anyOf.filter(member => !isNullSchema(member));
+    const expression =
+      schemas.length === 1
+        ? zodExpression(schemas[0], indent)
+        : `z.union([\n${schemas
+            .map(member => indent + "  " + zodExpression(member, indent + "  "))
+            .join(",\n")}\n${indent}])`;
+    return nullable ? `${expression}.nullable()` : expression;
+  }
+
+  if (Array.isArray(schema.type)) {
+    const types = schema.type.filter(type => type !== "null");
+    const expression = zodExpression({ ...schema, type: types[0] }, indent);
+    return types.length < schema.type.length
+      ? `${expression}.nullable()`
+      : expression;
+  }
+
+  if (schema.enum) {
+    return schema.enum.length === 1
+      ? `z.literal(${JSON.stringify(schema.enum[0])})`
+      : `z.enum([${schema.enum
+          .map(value => JSON.stringify(value))
+          .join(", ")}])`;
+  }
+
+  switch (schema.type) {
+    case "string":
+      return "z.string()";
+    case "integer":
+      return "z.number().int()";
+    case "number":
+      return "z.number()";
+    case "boolean":
+      return "z.boolean()";
+    case "array":
+      return `z.array(${
+        schema.items ? zodExpression(schema.items, indent) : "z.unknown()"
+      })`;
+    case "object":
+      return zodObjectExpression(schema, indent);
+    default:
+      return "z.unknown()";
+  }
+}
+
+function zodObjectExpression(
+  { properties = {}, required = [] }: JSONSchema,
+  indent: string
+): string {
+  const shape = Object.entries(properties).map(([name, property]) => {
+    const expression = zodExpression(property, indent + "  ");
+    return `${indent}  ${name}: ${
+      required.includes(name) ? expression : `${expression}.optional()`
+    }`;
+  });
+
+  return shape.length > 0
+    ? `z.object({\n${shape.join(",\n")}\n${indent}}).strict()`
+    : "z.object({}).strict()";
+}
+
+function isNullSchema(schema: JSONSchema) {
+  return schema.type === "null";
+}
@@ -0,0 +1,241 @@
+import { parse, GraphQLEnumType, GraphQLInputObjectType } from "graphql";
+
+import { loadSchema } from "apollo-codegen-core/lib/loading";
+const schema = loadSchema(
+  require.resolve("../../../../__fixtures__/starwars/schema.json")
+);
+
+import {
+  compileToIR,
+  CompilerOptions,
+  CompilerContext
+} from "apollo-codegen-core/lib/compiler";
+
+import { KotlinAPIGenerator, generateSource } from "../codeGeneration";
+
+describe("Kotlin code generation", () => {
+  let generator: KotlinAPIGenerator;
+
+  beforeEach(() => {
+    generator = new KotlinAPIGenerator({} as CompilerContext);
+  });
+
+  function compile(
+    source: string,
+    options: CompilerOptions = { mergeInFieldsFromFragmentSpreads: true }
+  ): CompilerContext {
+    const document = parse(source);
+    const context = compileToIR(schema, document, options);
+    generator.context = context;
+    generator.helpers.options = context.options;
+    return context;
+  }
+
+  describe("#classDeclarationForOperation()", () => {
+    it(`should generate a class declaration for a query with variables`, () => {
+      const { operations } = compile(`
+        query HeroName($episode: Episode) {
+          hero(episode: $episode) {
+            name
+          }
+        }
+      `);
+
+      generator.classDeclarationForOperation(operations["HeroName"]);
+
+      expect(generator.output).toMatchSnapshot();
+    });
+
+    it(`should generate a class declaration for a query with fragment spreads`, () => {
+      const { operations } = compile(`
+        query Hero {
+          hero {
+            ...HeroDetails
+          }
+        }
+
+        fragment HeroDetails on Character {
+          name
+        }
+      `);
+
+      generator.classDeclarationForOperation(operations["Hero"]);
+
+      expect(generator.output).toMatchSnapshot();
+    });
+
+    it(`should generate a class declaration for a query with conditional fragment spreads`, () => {
+      const { operations } = compile(`
+        query Hero {
+          hero {
+            ...DroidDetails
+          }
+        }
+
+        fragment DroidDetails on Droid {
+          primaryFunction
+        }
+      `);
+
+      generator.classDeclarationForOperation(operations["Hero"]);
+
+      expect(generator.output).toMatchSnapshot();
+    });
+
+    it(`should generate a class declaration for a mutation with input object variables`, () => {
+      const { operations } = compile(`
+        mutation CreateReview($episode: Episode!, $review: ReviewInput!) {
+          createReview(episode: $episode, review: $review) {
+            stars
+            commentary
+          }
+        }
+      `);
+
+      generator.classDeclarationForOperation(operations["CreateReview"]);
+
+      expect(generator.output).toMatchSnapshot();
+    });
+
+    it(`should generate an operation id when generateOperationIds is set`, () => {
+      const { operations } = compile(
+        `
+        query Hero {
+          hero {
+            name
+          }
+        }
+      `,
+        { generateOperationIds: true }
+      );
+
+      generator.classDeclarationForOperation(operations["Hero"]);
+
+      expect(generator.output).toMatchSnapshot();
+      expect(operations["Hero"].operationId).toBeDefined();
+    });
+  });
+
+  describe("#classDeclarationForFragment()", () => {
+    it(`should generate a class declaration for a fragment with a concrete type condition`, () => {
+      const { fragments } = compile(`
+        fragment DroidDetails on Droid {
+          name
+          primaryFunction
+        }
+      `);
+
+      generator.classDeclarationForFragment(fragments["DroidDetails"]);
+
+      expect(generator.output).toMatchSnapshot();
+    });
+
+    it(`should generate a sealed class for a fragment with inline fragments`, () => {
+      const { fragments } = compile(`
+        fragment HeroDetails on Character {
+          name
+          ... on Droid {
+            primaryFunction
+          }
+          ... on Human {
+            height
+          }
+        }
+      `);
+
+      generator.classDeclarationForFragment(fragments["HeroDetails"]);
+
+      expect(generator.output).toMatchSnapshot();
+    });
+  });
+
+  describe("#classDeclarationForSelectionSet()", () => {
+    it(`should generate nested classes for composite fields`, () => {
+      const { operations } = compile(`
+        query Hero {
+          hero {
+            name
+            friends {
+              name
+              appearsIn
+            }
+          }
+        }
+      `);
+
+      generator.classDeclarationForSelectionSet({
+        className: "Data",
+        selectionSet: operations["Hero"].selectionSet
+      });
+
+      expect(generator.output).toMatchSnapshot();
+    });
+
+    it(`should make fields that are skipped or not included optional`, () => {
+      const { operations } = compile(`
+        query Hero($includeName: Boolean!) {
+          hero {
+            name @include(if: $includeName)
+            id
+          }
+        }
+      `);
+
+      generator.classDeclarationForSelectionSet({
+        className: "Data",
+        selectionSet: operations["Hero"].selectionSet
+      });
+
+      expect(generator.output).toMatchSnapshot();
+    });
+  });
+
+  describe("#typeDeclarationForGraphQLType()", () => {
+    it("should generate an enum class for a GraphQLEnumType", () => {
+      generator.typeDeclarationForGraphQLType(schema.getType(
+        "Episode"
+      ) as GraphQLEnumType);
+
+      expect(generator.output).toMatchSnapshot();
+    });
+
+    it("should generate a data class for a GraphQLInputObjectType", () => {
+      generator.typeDeclarationForGraphQLType(schema.getType(
+        "ReviewInput"
+      ) as GraphQLInputObjectType);
+
+      expect(generator.output).toMatchSnapshot();
+    });
+  });
+
+  describe("generateSource()", () => {
+    it("should print a package declaration when a namespace is set", () => {
+      const context = compile(
+        `
+        query Hero($episode: Episode) {
+          hero(episode: $episode) {
+            name
+          }
+        }
+      `,
+        { namespace: "com.example.api" }
+      );
+
+      expect(generateSource(context, false).output).toMatchSnapshot();
+    });
+
+    it("should output a file per input file and one for types", () => {
+      const context = compile(`
+        query Hero($episode: Episode) {
+          hero(episode: $episode) {
+            name
+          }
+        }
+      `);
+
+      expect(Object.keys(generateSource(context, true).generatedFiles)).toEqual(
+        ["Types.graphql.kt", "GraphQL request.kt"]
+      );
+    });
+  });
+});
@@ -0,0 +1,550 @@
+import path from "path";
+
+import {
+  GraphQLError,
+  GraphQLType,
+  getNamedType,
+  isCompositeType,
+  isNonNullType,
+  GraphQLEnumType,
+  GraphQLInputObjectType
+} from "graphql";
+
+import {
+  CompilerContext,
+  Operation,
+  Fragment,
+  SelectionSet,
+  Field
+} from "apollo-codegen-core/lib/compiler";
+
+import { join } from "apollo-codegen-core/lib/utilities/printing";
+
+import {
+  KotlinGenerator,
+  Property,
+  escapeIdentifierIfNeeded
+} from "./language";
+import { Helpers } from "./helpers";
+
+import {
+  typeCaseForSelectionSet,
+  Variant
+} from "apollo-codegen-core/lib/compiler/visitors/typeCase";
+import { collectFragmentsReferenced } from "apollo-codegen-core/lib/compiler/visitors/collectFragmentsReferenced";
+import { generateOperationId } from "apollo-codegen-core/lib/compiler/visitors/generateOperationId";
+import { collectAndMergeFields } from "apollo-codegen-core/lib/compiler/visitors/collectAndMergeFields";
+
+export function generateSource(
+  context: CompilerContext,
+  outputIndividualFiles: boolean,
+  only?: string
+): KotlinAPIGenerator {
+  const generator = new KotlinAPIGenerator(context);
+
+  if (outputIndividualFiles) {
+    generator.withinFile(`Types.graphql.kt`, () => {
+      generator.fileHeader();
+
+      context.typesUsed.forEach(type => {
+        generator.typeDeclarationForGraphQLType(type);
+      });
+    });
+
+    const inputFilePaths = new Set<string>();
+
+    Object.values(context.operations).forEach(operation => {
+      inputFilePaths.add(operation.filePath);
+    });
+
+    Object.values(context.fragments).forEach(fragment => {
+      inputFilePaths.add(fragment.filePath);
+    });
+
+    for (const inputFilePath of inputFilePaths) {
+      if (only && inputFilePath !== only) continue;
+
+      generator.withinFile(`${path.basename(inputFilePath)}.kt`, () => {
+        generator.fileHeader();
+
+        Object.values(context.operations).forEach(operation => {
+          if (operation.filePath === inputFilePath) {
+            generator.classDeclarationForOperation(operation);
+          }
+        });
+
+        Object.values(context.fragments).forEach(fragment => {
+          if (fragment.filePath === inputFilePath) {
+            generator.classDeclarationForFragment(fragment);
+          }
+        });
+      });
+    }
+  } else {
+    generator.fileHeader();
+
+    context.typesUsed.forEach(type => {
+      generator.typeDeclarationForGraphQLType(type);
+    });
+
+    Object.values(context.operations).forEach(operation => {
+      generator.classDeclarationForOperation(operation);
+    });
+
+    Object.values(context.fragments).forEach(fragment => {
+      generator.classDeclarationForFragment(fragment);
+    });
+  }
+
+  return generator;
+}
+
+export class KotlinAPIGenerator extends KotlinGenerator<CompilerContext> {
+  helpers: Helpers;
+
+  constructor(context: CompilerContext) {
+    super(context);
+
+    this.helpers = new Helpers(context.options);
+  }
+
+  fileHeader() {
+    this.printOnNewline(
+      "//  This file was automatically generated and should not be edited."
+    );
+    this.packageDeclaration(this.context.options.namespace);
+  }
+
+  classDeclarationForOperation(operation: Operation) {
+    const {
+      operationName,
+      operationType,
+      variables,
+      source,
+      selectionSet
+    } = operation;
+
+    let className;
+
+    switch (operationType) {
+      case "query":
+        className = `${this.helpers.operationClassName(operationName)}Query`;
+        break;
+      case "mutation":
+        className = `${this.helpers.operationClassName(operationName)}Mutation`;
+        break;
+      case "subscription":
+        className = `${this.helpers.operationClassName(
+          operationName
+        )}Subscription`;
+        break;
+      default:
+        throw new GraphQLError(`Unsupported operation type "${operationType}"`);
+    }
+
+    const properties = variables.map(({ name, type }) => ({
+      name,
+      type,
+      propertyName: name,
+      typeName: this.helpers.typeNameFromGraphQLType(type),
+      defaultValue: isNonNullType(type) ? undefined : "null"
+    }));
+
+    this.classDeclaration(
+      { className },
+      properties.length > 0 ? properties : undefined,
+      () => {
+        this.printOnNewline("fun variables(): Map<String, Any?> = ");
+        this.mapExpression(
+          properties.map(({ name, type, propertyName }) => [
+            name,
+            this.helpers.inputValueExpression(
+              type,
+              escapeIdentifierIfNeeded(propertyName)
+            )
+          ])
+        );
+
+        this.classDeclarationForSelectionSet({
+          className: "Data",
+          selectionSet
+        });
+
+        this.companionObjectDeclaration(() => {
+          this.printOnNewline("const val OPERATION_DEFINITION =");
+          this.withIndent(() => {
+            this.multilineString(source);
+          });
+
+          this.printNewlineIfNeeded();
+          this.printOnNewline(`const val OPERATION_NAME = "${operationName}"`);
+
+          const fragmentsReferenced = collectFragmentsReferenced(
+            selectionSet,
+            this.context.fragments
+          );
+
+          this.printNewlineIfNeeded();
+          this.printOnNewline(
+            `const val QUERY_DOCUMENT = ${join(
+              [
+                "OPERATION_DEFINITION",
+                ...Array.from(fragmentsReferenced).map(
+                  fragmentName =>
+                    `${this.helpers.classNameForFragmentName(
+                      fragmentName
+                    )}.FRAGMENT_DEFINITION`
+                )
+              ],
+              " + "
+            )}`
+          );
+
+          if (this.context.options.generateOperationIds) {
+            const { operationId } = generateOperationId(
+              operation,
+              this.context.fragments,
+              fragmentsReferenced
+            );
+            operation.operationId = operationId;
+            this.printNewlineIfNeeded();
+            this.printOnNewline(`const val OPERATION_ID = "${operationId}"`);
+          }
+        });
+      }
+    );
+  }
+
+  classDeclarationForFragment({
+    fragmentName,
+    selectionSet,
+    source
+  }: Fragment) {
+    const className = this.helpers.classNameForFragmentName(fragmentName);
+
+    this.classDeclarationForSelectionSet({ className, selectionSet }, () => {
+      this.printOnNewline("const val FRAGMENT_DEFINITION =");
+      this.withIndent(() => {
+        this.multilineString(source);
+      });
+
+      this.printNewlineIfNeeded();
+      this.printOnNewline(
+        `val POSSIBLE_TYPES = listOf(${join(
+          selectionSet.possibleTypes.map(type => `"${type.name}"`),
+          ", "
+        )})`
+      );
+    });
+  }
+
+  // Selection sets with type conditions become a sealed class with a subclass for each set of possible types
+  classDeclarationForSelectionSet(
+    {
+      className,
+      selectionSet
+    }: {
+      className: string;
+      selectionSet: SelectionSet;
+    },
+    companion?: Function
+  ) {
+    const typeCase = typeCaseForSelectionSet(
+      selectionSet,
+      !!this.context.options.mergeInFieldsFromFragmentSpreads
+    );
+
+    if (typeCase.variants.length === 0) {
+      this.classDeclarationForVariant(
+        { className, variant: typeCase.default },
+        companion
+      );
+      return;
+    }
+
+    // Composite fields are declared as nested classes of every subclass, so only scalar
+    // fields can be shared by the sealed class
+    const abstractFields = this.fieldsForVariant(typeCase.default).filter(
+      field => !isCompositeType(getNamedType(field.type))
+    );
+    const overriddenPropertyNames = abstractFields.map(
+      field => field.propertyName
+    );
+
+    const variants = typeCase.variants.map(variant => ({
+      className: this.helpers.classNameForVariant(variant),
+      variant
+    }));
+    // Types that aren't matched by any type condition, including types added to the schema later
+    const otherVariant = {
+      className: "Other",
+      variant: typeCase.remainder || typeCase.default
+    };
+
+    this.classDeclaration(
+      { className, modifiers: ["sealed"] },
+      undefined,
+      () => {
+        for (const field of abstractFields) {
+          this.comment(field.description);
+          this.deprecationAnnotation(
+            field.isDeprecated,
+            field.deprecationReason
+          );
+          this.printOnNewline(
+            `abstract val ${escapeIdentifierIfNeeded(field.propertyName)}: ${
+              field.typeName
+            }`
+          );
+        }
+
+        for (const { className: variantClassName, variant } of [
+          ...variants,
+          otherVariant
+        ]) {
+          this.classDeclarationForVariant({
+            className: variantClassName,
+            variant,
+            superClass: `${className}()`,
+            overriddenPropertyNames
+          });
+        }
+
+        this.companionObjectDeclaration(() => {
+          if (companion) {
+            companion();
+          }
+
+          this.printNewlineIfNeeded();
+          this.printOnNewline(
+            `fun fromResponse(map: Map<String, Any?>): ${className} = when (map["__typename"])`
+          );
+          this.withinBlock(() => {
+            for (const { className: variantClassName, variant } of variants) {
+              this.printOnNewline(
+                `${join(
+                  variant.possibleTypes.map(type => `"${type.name}"`),
+                  ", "
+                )} -> ${variantClassName}.fromResponse(map)`
+              );
+            }
+            this.printOnNewline(
+              `else -> ${otherVariant.className}.fromResponse(map)`
+            );
+          });
+        });
+      }
+    );
+  }
+
+  classDeclarationForVariant(
+    {
+      className,
+      variant,
+      superClass,
+      overriddenPropertyNames = []
+    }: {
+      className: string;
+      variant: Variant;
+      superClass?: string;
+      overriddenPropertyNames?: string[];
+    },
+    companion?: Function
+  ) {
+    const fields = this.fieldsForVariant(variant);
+
+    const fragmentSpreads = variant.fragmentSpreads.map(fragmentSpread => {
+      const isConditional = variant.possibleTypes.some(
+        type => !fragmentSpread.selectionSet.possibleTypes.includes(type)
+      );
+
+      return this.helpers.propertyFromFragmentSpread(
+        fragmentSpread,
+        isConditional
+      );
+    });
+
+    const properties: Property[] = fields.map(field => ({
+      ...field,
+      isOverride: overriddenPropertyNames.includes(field.propertyName)
+    }));
+    if (fragmentSpreads.length > 0) {
+      properties.push({ propertyName: "fragments", typeName: "Fragments" });
+    }
+
+    this.classDeclaration(
+      { className, modifiers: ["data"], superClass },
+      properties,
+      () => {
+        for (const field of fields) {
+          if (isCompositeType(getNamedType(field.type)) && field.selectionSet) {
+            this.classDeclarationForSelectionSet({
+              className: field.className,
+              selectionSet: field.selectionSet
+            });
+          }
+        }
+
+        if (fragmentSpreads.length > 0) {
+          this.classDeclaration(
+            { className: "Fragments", modifiers: ["data"] },
+            fragmentSpreads,
+            () => {
+              this.companionObjectDeclaration(() => {
+                this.fromResponseDeclaration(
+                  "Fragments",
+                  fragmentSpreads.map(
+                    ({ propertyName, className, isConditional }) => [
+                      propertyName,
+                      isConditional
+                        ? `if (${className}.POSSIBLE_TYPES.contains(map["__typename"])) ${className}.fromResponse(map) else null`
+                        : `${className}.fromResponse(map)`
+                    ]
+                  )
+                );
+              });
+            }
+          );
+        }
+
+        this.companionObjectDeclaration(() => {
+          if (companion) {
+            companion();
+          }
+
+          const assignments: [string, string][] = fields.map(
+            ({ propertyName, responseKey, type, className }) => [
+              propertyName,
+              this.helpers.valueFromResponseExpression(
+                type,
+                `map["${responseKey}"]`,
+                className
+              )
+            ]
+          );
+          if (fragmentSpreads.length > 0) {
+            assignments.push(["fragments", "Fragments.fromResponse(map)"]);
+          }
+
+          this.fromResponseDeclaration(className, assignments);
+        });
+      }
+    );
+  }
+
+  fieldsForVariant(variant: Variant) {
+    return collectAndMergeFields(
+      variant,
+      !!this.context.options.mergeInFieldsFromFragmentSpreads
+    ).map(field => this.helpers.propertyFromField(field as Field));
+  }
+
+  fromResponseDeclaration(className: string, assignments: [string, string][]) {
+    this.printNewlineIfNeeded();
+    // Nested objects are parsed from maps without type information
+    if (assignments.some(([, expression]) => expression.includes(" as Map<"))) {
+      this.printOnNewline(`@Suppress("UNCHECKED_CAST")`);
+    }
+    this.printOnNewline(
+      `fun fromResponse(map: Map<String, Any?>): ${className} = ${className}(`
+    );
+    this.withIndent(() => {
+      assignments.forEach(([propertyName, expression], index) => {
+        this.printOnNewline(
+          `${escapeIdentifierIfNeeded(propertyName)} = ${expression}${
+            index < assignments.length - 1 ? "," : ""
+          }`
+        );
+      });
+    });
+    this.printOnNewline(")");
+  }
+
+  mapExpression(entries: [string, string][]) {
+    if (entries.length === 0) {
+      this.print("emptyMap()");
+      return;
+    }
+
+    this.print("mapOf(");
+    this.withIndent(() => {
+      entries.forEach(([key, expression], index) => {
+        this.printOnNewline(
+          `"${key}" to ${expression}${index < entries.length - 1 ? "," : ""}`
+        );
+      });
+    });
+    this.printOnNewline(")");
+  }
+
+  typeDeclarationForGraphQLType(type: GraphQLType) {
+    if (type instanceof GraphQLEnumType) {
+      this.enumClassDeclaration(type);
+    } else if (type instanceof GraphQLInputObjectType) {
+      this.classDeclarationForInputObjectType(type);
+    }
+  }
+
+  enumClassDeclaration(type: GraphQLEnumType) {
+    const { name, description } = type;
+    const values = type.getValues();
+
+    this.classDeclaration(
+      {
+        className: name,
+        modifiers: ["enum"],
+        description: description || undefined
+      },
+      [{ propertyName: "rawValue", typeName: "String" }],
+      () => {
+        values.forEach(value => {
+          this.comment(value.description || undefined);
+          this.deprecationAnnotation(
+            value.isDeprecated,
+            value.deprecationReason || undefined
+          );
+          this.printOnNewline(
+            `${escapeIdentifierIfNeeded(value.name)}("${value.value}"),`
+          );
+        });
+        this.comment("Auto generated constant for unknown enum values");
+        this.printOnNewline(`UNKNOWN__("UNKNOWN__");`);
+
+        this.companionObjectDeclaration(() => {
+          this.printOnNewline(
+            `fun safeValueOf(rawValue: String): ${name} = values().find { it.rawValue == rawValue } ?: UNKNOWN__`
+          );
+        });
+      }
+    );
+  }
+
+  classDeclarationForInputObjectType(type: GraphQLInputObjectType) {
+    const { name: className, description } = type;
+    const properties = Object.values(type.getFields()).map(
+      this.helpers.propertyFromInputField,
+      this.helpers
+    );
+
+    this.classDeclaration(
+      {
+        className,
+        modifiers: ["data"],
+        description: description || undefined
+      },
+      properties,
+      () => {
+        this.printOnNewline("fun toMap(): Map<String, Any?> = ");
+        this.mapExpression(
+          properties.map(({ name, type, propertyName }) => [
+            name,
+            this.helpers.inputValueExpression(
+              type,
+              escapeIdentifierIfNeeded(propertyName)
+            )
+          ])
+        );
+      }
+    );
+  }
+}
@@ -0,0 +1,248 @@
+import {
+  GraphQLType,
+  GraphQLString,
+  GraphQLInt,
+  GraphQLFloat,
+  GraphQLBoolean,
+  GraphQLID,
+  GraphQLNonNull,
+  GraphQLScalarType,
+  GraphQLEnumType,
+  GraphQLInputObjectType,
+  GraphQLInputField,
+  isCompositeType,
+  getNamedType,
+  isNonNullType,
+  isListType
+} from "graphql";
+
+import { camelCase, pascalCase } from "change-case";
+import * as Inflector from "inflected";
+
+import { Property } from "./language";
+
+import {
+  CompilerOptions,
+  SelectionSet,
+  Field,
+  FragmentSpread
+} from "apollo-codegen-core/lib/compiler";
+import { isMetaFieldName } from "apollo-codegen-core/lib/utilities/graphql";
+
+const builtInScalarMap = {
+  [GraphQLString.name]: "String",
+  [GraphQLInt.name]: "Int",
+  [GraphQLFloat.name]: "Double",
+  [GraphQLBoolean.name]: "Boolean",
+  [GraphQLID.name]: "String"
+};
+
+// JSON parsers don't agree on how to represent numbers, so we convert them explicitly
+const numberConversions: { [typeName: string]: string } = {
+  Int: "toInt()",
+  Double: "toDouble()"
+};
+
+const responseMapTypeName = "Map<String, Any?>";
+
+export class Helpers {
+  constructor(public options: CompilerOptions) {}
+
+  // Types
+
+  typeNameFromGraphQLType(
+    type: GraphQLType,
+    unmodifiedTypeName?: string,
+    isOptional?: boolean
+  ): string {
+    if (isNonNullType(type)) {
+      return this.typeNameFromGraphQLType(
+        type.ofType,
+        unmodifiedTypeName,
+        false
+      );
+    } else if (isOptional === undefined) {
+      isOptional = true;
+    }
+
+    let typeName;
+    if (isListType(type)) {
+      typeName =
+        "List<" +
+        this.typeNameFromGraphQLType(type.ofType, unmodifiedTypeName) +
+        ">";
+    } else if (type instanceof GraphQLScalarType) {
+      typeName = this.typeNameForScalarType(type);
+    } else {
+      typeName = unmodifiedTypeName || type.name;
+    }
+
+    return isOptional ? typeName + "?" : typeName;
+  }
+
+  typeNameForScalarType(type: GraphQLScalarType): string {
+    return (
+      builtInScalarMap[type.name] ||
+      (this.options.passthroughCustomScalars
+        ? this.options.customScalarsPrefix + type.name
+        : GraphQLString.name)
+    );
+  }
+
+  // Names
+
+  operationClassName(name: string) {
+    return pascalCase(name);
+  }
+
+  classNameForPropertyName(propertyName: string) {
+    return pascalCase(Inflector.singularize(propertyName));
+  }
+
+  classNameForFragmentName(fragmentName: string) {
+    return pascalCase(fragmentName);
+  }
+
+  classNameForVariant(variant: SelectionSet) {
+    return (
+      "As" + variant.possibleTypes.map(type => pascalCase(type.name)).join("Or")
+    );
+  }
+
+  propertyNameForField(responseKey: string) {
+    return isMetaFieldName(responseKey) ? responseKey : camelCase(responseKey);
+  }
+
+  // Properties
+
+  propertyFromField(field: Field): Field & Property & { className: string } {
+    const { responseKey, isConditional } = field;
+
+    const propertyName = this.propertyNameForField(responseKey);
+    const className = this.classNameForPropertyName(responseKey);
+
+    let type = field.type;
+
+    // Fields that are skipped or not included are missing from the response
+    if (isConditional && isNonNullType(type)) {
+      type = type.ofType;
+    }
+
+    const unmodifiedType = getNamedType(field.type);
+
+    const unmodifiedTypeName = isCompositeType(unmodifiedType)
+      ? className
+      : unmodifiedType.name;
+
+    const typeName = this.typeNameFromGraphQLType(type, unmodifiedTypeName);
+
+    return Object.assign({}, field, {
+      type,
+      propertyName,
+      typeName,
+      className
+    });
+  }
+
+  propertyFromFragmentSpread(
+    fragmentSpread: FragmentSpread,
+    isConditional: boolean
+  ): FragmentSpread & Property & { className: string } {
+    const className = this.classNameForFragmentName(
+      fragmentSpread.fragmentName
+    );
+
+    return Object.assign({}, fragmentSpread, {
+      propertyName: camelCase(fragmentSpread.fragmentName),
+      typeName: isConditional ? className + "?" : className,
+      className,
+      isConditional
+    });
+  }
+
+  propertyFromInputField(
+    field: GraphQLInputField
+  ): GraphQLInputField & Property {
+    const isOptional = !(field.type instanceof GraphQLNonNull);
+
+    return Object.assign({}, field, {
+      propertyName: camelCase(field.name),
+      typeName: this.typeNameFromGraphQLType(field.type),
+      description: field.description || undefined,
+      defaultValue: isOptional ? "null" : undefined
+    });
+  }
+
+  // Expressions
+
+  // Converts a value from a response map (as parsed from JSON) to the generated type
+  valueFromResponseExpression(
+    type: GraphQLType,
+    expression: string,
+    unmodifiedTypeName: string
+  ): string {
+    const isOptional = !isNonNullType(type);
+    const nullableType = isNonNullType(type) ? type.ofType : type;
+    const optional = isOptional ? "?" : "";
+
+    if (isListType(nullableType)) {
+      const elementExpression = this.valueFromResponseExpression(
+        nullableType.ofType,
+        "it",
+        unmodifiedTypeName
+      );
+      return `(${expression} as List<*>${optional})${optional}.map { ${elementExpression} }`;
+    }
+
+    if (nullableType instanceof GraphQLEnumType) {
+      return isOptional
+        ? `(${expression} as String?)?.let { ${
+            nullableType.name
+          }.safeValueOf(it) }`
+        : `${nullableType.name}.safeValueOf(${expression} as String)`;
+    }
+
+    if (isCompositeType(nullableType)) {
+      return isOptional
+        ? `(${expression} as ${responseMapTypeName}?)?.let { ${unmodifiedTypeName}.fromResponse(it) }`
+        : `${unmodifiedTypeName}.fromResponse(${expression} as ${responseMapTypeName})`;
+    }
+
+    const typeName = this.typeNameForScalarType(
+      nullableType as GraphQLScalarType
+    );
+    const numberConversion = numberConversions[typeName];
+    if (numberConversion) {
+      return `(${expression} as Number${optional})${optional}.${numberConversion}`;
+    }
+    return `${expression} as ${typeName}${optional}`;
+  }
+
+  // Converts a variable or input field value to a value that can be serialized to JSON
+  inputValueExpression(type: GraphQLType, expression: string): string {
+    const isOptional = !isNonNullType(type);
+    const nullableType = isNonNullType(type) ? type.ofType : type;
+    const optional = isOptional ? "?" : "";
+
+    if (isListType(nullableType)) {
+      const elementExpression = this.inputValueExpression(
+        nullableType.ofType,
+        "it"
+      );
+      // Lists of scalars can be passed on as is
+      return elementExpression === "it"
+        ? expression
+        : `${expression}${optional}.map { ${elementExpression} }`;
+    }
+
+    if (nullableType instanceof GraphQLEnumType) {
+      return `${expression}${optional}.rawValue`;
+    }
+
+    if (nullableType instanceof GraphQLInputObjectType) {
+      return `${expression}${optional}.toMap()`;
+    }
+
+    return expression;
+  }
+}
@@ -0,0 +1,140 @@
+import CodeGenerator from "apollo-codegen-core/lib/utilities/CodeGenerator";
+
+import { join, wrap } from "apollo-codegen-core/lib/utilities/printing";
+
+export interface Class {
+  className: string;
+  modifiers?: string[];
+  superClass?: string;
+  description?: string;
+}
+
+export interface Property {
+  propertyName: string;
+  typeName: string;
+  defaultValue?: string;
+  isOverride?: boolean;
+  description?: string;
+  isDeprecated?: boolean;
+  deprecationReason?: string;
+}
+
+export function escapedString(string: string) {
+  return string
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\$/g, "\\$")
+    .replace(/\n/g, "\\n");
+}
+
+// prettier-ignore
+const reservedKeywords = new Set(['as', 'break', 'class', 'continue', 'do',
+  'else', 'false', 'for', 'fun', 'if', 'in', 'interface', 'is', 'null',
+  'object', 'package', 'return', 'super', 'this', 'throw', 'true', 'try',
+  'typealias', 'typeof', 'val', 'var', 'when', 'while']);
+
+export function escapeIdentifierIfNeeded(identifier: string) {
+  if (reservedKeywords.has(identifier)) {
+    return "`" + identifier + "`";
+  } else {
+    return identifier;
+  }
+}
+
+export class KotlinGenerator<Context> extends CodeGenerator<
+  Context,
+  { typeName: string }
+> {
+  constructor(context: Context) {
+    super(context);
+  }
+
+  multilineString(string: string) {
+    this.printOnNewline(`"${escapedString(string)}"`);
+  }
+
+  comment(comment?: string) {
+    if (!comment) return;
+
+    const lines = comment.split("\n").map(line => line.trim());
+    if (lines.length === 1) {
+      this.printOnNewline(`/** ${lines[0]} */`);
+    } else {
+      this.printOnNewline("/**");
+      lines.forEach(line => {
+        this.printOnNewline(` * ${line}`.trimRight());
+      });
+      this.printOnNewline(" */");
+    }
+  }
+
+  deprecationAnnotation(
+    isDeprecated: boolean | undefined,
+    deprecationReason: string | undefined
+  ) {
+    if (isDeprecated !== undefined && isDeprecated) {
+      this.printOnNewline(
+        `@Deprecated("${escapedString(deprecationReason || "")}")`
+      );
+    }
+  }
+
+  packageDeclaration(packageName: string | undefined) {
+    if (!packageName) return;
+
+    this.printNewlineIfNeeded();
+    this.printOnNewline(`package ${packageName}`);
+  }
+
+  classDeclaration(
+    { className, modifiers = [], superClass, description }: Class,
+    properties: Property[] | undefined,
+    closure?: Function
+  ) {
+    this.printNewlineIfNeeded();
+    this.comment(description);
+    this.printOnNewline(
+      wrap("", join(modifiers, " "), " ") +
+        `class ${escapeIdentifierIfNeeded(className)}`
+    );
+    if (properties) {
+      this.constructorParameters(properties);
+    }
+    this.print(wrap(" : ", superClass));
+    this.pushScope({ typeName: className });
+    if (closure) {
+      this.withinBlock(closure);
+    }
+    this.popScope();
+  }
+
+  constructorParameters(properties: Property[]) {
+    this.print("(");
+    this.withIndent(() => {
+      properties.forEach((property, index) => {
+        this.comment(property.description);
+        this.deprecationAnnotation(
+          property.isDeprecated,
+          property.deprecationReason
+        );
+        this.printOnNewline(
+          join([
+            property.isOverride && "override ",
+            `val ${escapeIdentifierIfNeeded(property.propertyName)}: ${
+              property.typeName
+            }`,
+            wrap(" = ", property.defaultValue),
+            index < properties.length - 1 && ","
+          ])
+        );
+      });
+    });
+    this.printOnNewline(")");
+  }
+
+  companionObjectDeclaration(closure: Function) {
+    this.printNewlineIfNeeded();
+    this.printOnNewline("companion object");
+    this.withinBlock(closure);
+  }
+}
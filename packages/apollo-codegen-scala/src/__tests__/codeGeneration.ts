@@ -84,6 +84,27 @@ describe("Scala code generation", function() {
 
       expect(generateSource(context)).toMatchSnapshot();
     });
+
+    test(`should import mapped custom scalars`, function() {
+      const miscSchema = loadSchema(
+        require.resolve("../../../../__fixtures__/misc/schema.json")
+      );
+      const context = compileToLegacyIR(
+        miscSchema,
+        parse(`
+          query Misc {
+            misc {
+              date
+            }
+          }
+        `),
+        {
+          scalars: { Date: { type: "OffsetDateTime", import: "java.time" } }
+        }
+      );
+
+      expect(generateSource(context)).toMatchSnapshot();
+    });
   });
 
   describe("#classDeclarationForOperation()", function() {
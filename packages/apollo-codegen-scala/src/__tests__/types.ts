@@ -151,5 +151,25 @@ describe("Scala code generation: Types", function() {
         )
       ).toBe("com.apollographql.scalajs.OptionalValue[MyCustomScalarType]");
     });
+
+    test("should return the mapped type for a custom scalar type with the scalars option", function() {
+      expect(
+        typeNameFromGraphQLType(
+          {
+            options: {
+              passthroughCustomScalars: true,
+              customScalarsPrefix: "My",
+              scalars: {
+                CustomScalarType: {
+                  type: "OffsetDateTime",
+                  import: "java.time"
+                }
+              }
+            }
+          },
+          new GraphQLScalarType({ name: "CustomScalarType", serialize: String })
+        )
+      ).toBe("com.apollographql.scalajs.OptionalValue[OffsetDateTime]");
+    });
   });
 });
@@ -10,6 +10,7 @@ import {
 import { isTypeProperSuperTypeOf } from "apollo-codegen-core/lib/utilities/graphql";
 
 import { join } from "apollo-codegen-core/lib/utilities/printing";
+import { scalarImports } from "apollo-codegen-core/lib/utilities/scalars";
 
 import {
   packageDeclaration,
@@ -60,6 +61,18 @@ export function generateSource(context: LegacyCompilerContext) {
     packageDeclaration(generator, context.options.namespace);
   }
 
+  for (const [source, typeNames] of scalarImports(
+    context.options,
+    context.typesUsed
+  )) {
+    generator.printNewlineIfNeeded();
+    generator.printOnNewline(
+      typeNames.length === 1
+        ? `import ${source}.${typeNames[0]}`
+        : `import ${source}.{${typeNames.join(", ")}}`
+    );
+  }
+
   context.typesUsed.forEach(type => {
     typeDeclarationForGraphQLType(generator, type);
   });
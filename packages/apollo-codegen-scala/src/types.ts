@@ -11,6 +11,7 @@ import {
   isListType
 } from "graphql";
 import { LegacyCompilerContext } from "apollo-codegen-core/lib/compiler/legacyIR";
+import { scalarMappingForType } from "apollo-codegen-core/lib/utilities/scalars";
 import { GraphQLType } from "graphql";
 
 const builtInScalarMap = {
@@ -93,10 +94,13 @@ function typeNameForScalarType(
   context: LegacyCompilerContext,
   type: GraphQLScalarType
 ): string {
-  return (
-    builtInScalarMap[type.name] ||
-    (context.options.passthroughCustomScalars
-      ? context.options.customScalarsPrefix + type.name
-      : GraphQLString.name)
-  );
+  const builtIn = builtInScalarMap[type.name];
+  if (builtIn) return builtIn;
+
+  const mapping = scalarMappingForType(context.options, type);
+  if (mapping) return mapping.type;
+
+  return context.options.passthroughCustomScalars
+    ? context.options.customScalarsPrefix + type.name
+    : GraphQLString.name;
 }
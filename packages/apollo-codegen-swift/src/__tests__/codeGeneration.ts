@@ -553,6 +553,29 @@ describe("Swift code generation", () => {
     });
   });
 
+  describe("#fileHeader()", () => {
+    it("should import the modules of mapped custom scalars", () => {
+      const miscSchema = loadSchema(
+        require.resolve("../../../../__fixtures__/misc/schema.json")
+      );
+      generator.context = compileToIR(
+        miscSchema,
+        parse(`
+          query Misc {
+            misc {
+              date
+            }
+          }
+        `),
+        { scalars: { Date: { type: "Date", import: "Foundation" } } }
+      );
+
+      generator.fileHeader();
+
+      expect(generator.output).toMatchSnapshot();
+    });
+  });
+
   describe("#typeDeclarationForGraphQLType()", () => {
     it("should generate an enum declaration for a GraphQLEnumType", () => {
       generator.typeDeclarationForGraphQLType(schema.getType("Episode"));
@@ -120,5 +120,17 @@ describe("Swift code generation: Types", () => {
         )
       ).toBe("MyCustomScalarType?");
     });
+
+    it("should return the mapped type for a custom scalar type with the scalars option", () => {
+      helpers.options.passthroughCustomScalars = true;
+      helpers.options.customScalarsPrefix = "My";
+      helpers.options.scalars = { CustomScalarType: { type: "Date" } };
+
+      expect(
+        helpers.typeNameFromGraphQLType(
+          new GraphQLScalarType({ name: "CustomScalarType", serialize: String })
+        )
+      ).toBe("Date?");
+    });
   });
 });
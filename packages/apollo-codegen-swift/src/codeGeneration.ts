@@ -16,7 +16,8 @@ import {
   Operation,
   Fragment,
   SelectionSet,
-  Field
+  Field,
+  ScalarMapping
 } from "apollo-codegen-core/lib/compiler";
 
 import { join, wrap } from "apollo-codegen-core/lib/utilities/printing";
@@ -38,6 +39,7 @@ import {
 import { collectFragmentsReferenced } from "apollo-codegen-core/lib/compiler/visitors/collectFragmentsReferenced";
 import { generateOperationId } from "apollo-codegen-core/lib/compiler/visitors/generateOperationId";
 import { collectAndMergeFields } from "apollo-codegen-core/lib/compiler/visitors/collectAndMergeFields";
+import { scalarImports } from "apollo-codegen-core/lib/utilities/scalars";
 
 import "apollo-codegen-core/lib/utilities/array";
 
@@ -45,6 +47,7 @@ export interface Options {
   namespace?: string;
   passthroughCustomScalars?: boolean;
   customScalarsPrefix?: string;
+  scalars?: { [scalarName: string]: ScalarMapping };
 }
 
 export function generateSource(
@@ -135,6 +138,12 @@ export class SwiftAPIGenerator extends SwiftGenerator<CompilerContext> {
     );
     this.printNewline();
     this.printOnNewline("import Apollo");
+    for (const source of scalarImports(
+      this.context.options,
+      this.context.typesUsed
+    ).keys()) {
+      this.printOnNewline(`import ${source}`);
+    }
   }
 
   classDeclarationForOperation(operation: Operation) {
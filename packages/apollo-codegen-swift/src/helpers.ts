@@ -29,6 +29,7 @@ import {
   Argument
 } from "apollo-codegen-core/lib/compiler";
 import { isMetaFieldName } from "apollo-codegen-core/lib/utilities/graphql";
+import { scalarMappingForType } from "apollo-codegen-core/lib/utilities/scalars";
 import { Variant } from "apollo-codegen-core/lib/compiler/visitors/typeCase";
 import { collectAndMergeFields } from "apollo-codegen-core/lib/compiler/visitors/collectAndMergeFields";
 
@@ -76,12 +77,15 @@ export class Helpers {
   }
 
   typeNameForScalarType(type: GraphQLScalarType): string {
-    return (
-      builtInScalarMap[type.name] ||
-      (this.options.passthroughCustomScalars
-        ? this.options.customScalarsPrefix + type.name
-        : GraphQLString.name)
-    );
+    const builtIn = builtInScalarMap[type.name];
+    if (builtIn) return builtIn;
+
+    const mapping = scalarMappingForType(this.options, type);
+    if (mapping) return mapping.type;
+
+    return this.options.passthroughCustomScalars
+      ? this.options.customScalarsPrefix + type.name
+      : GraphQLString.name;
   }
 
   fieldTypeEnum(type: GraphQLType, structName: string): string {
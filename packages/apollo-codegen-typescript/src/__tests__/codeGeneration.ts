@@ -634,4 +634,58 @@ describe("Typescript codeGeneration local / global", () => {
     expect(output).toMatchSnapshot();
     expect(generateGlobalSource(context)).toMatchSnapshot();
   });
+
+  describe("typed document nodes", () => {
+    const options = {
+      mergeInFieldsFromFragmentSpreads: true,
+      addTypename: true,
+      typedDocumentNodes: true
+    };
+
+    test("query with variables and fragment spreads", () => {
+      const context = compile(
+        `
+        fragment simpleFragment on Character {
+          name
+        }
+
+        query HeroFragment($episode: Episode) {
+          hero(episode: $episode) {
+            ...simpleFragment
+            id
+          }
+        }
+      `,
+        options
+      );
+
+      const output = generateLocalSource(context).map(f => ({
+        ...f,
+        content: f.content({
+          outputPath: "/some/file/ComponentA.tsx",
+          globalSourcePath: "/__generated__/globalTypes.ts"
+        })
+      }));
+      expect(output).toMatchSnapshot();
+    });
+
+    test("query without variables", () => {
+      const context = compile(
+        `
+        query HeroName {
+          hero {
+            name
+          }
+        }
+      `,
+        options
+      );
+
+      const output = generateLocalSource(context).map(f => ({
+        ...f,
+        content: f.content()
+      }));
+      expect(output).toMatchSnapshot();
+    });
+  });
 });
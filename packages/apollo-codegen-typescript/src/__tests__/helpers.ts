@@ -329,3 +329,42 @@ describe("passthrough custom scalars with custom scalar prefix", () => {
     );
   });
 });
+
+describe("mapped custom scalars", () => {
+  let getTypeAnnotation: Function;
+
+  beforeAll(() => {
+    getTypeAnnotation = createTypeFromGraphQLTypeFunction({
+      passthroughCustomScalars: true,
+      customScalarsPrefix: "Foo$",
+      scalars: {
+        Odd: { type: "number" },
+        DateTime: { type: "DateTime", import: "luxon" }
+      }
+    });
+  });
+
+  test("Custom Scalar", () => {
+    const OddType = new GraphQLScalarType({
+      name: "Odd",
+      serialize(value) {
+        return value % 2 === 1 ? value : null;
+      }
+    });
+
+    expect(getTypeAnnotation(OddType)).toMatchObject(
+      nullableType(t.TSTypeReference(t.identifier("number")))
+    );
+  });
+
+  test("Custom Scalar with an import", () => {
+    const DateTimeType = new GraphQLScalarType({
+      name: "DateTime",
+      serialize: String
+    });
+
+    expect(getTypeAnnotation(DateTimeType)).toMatchObject(
+      nullableType(t.TSTypeReference(t.identifier('import("luxon").DateTime')))
+    );
+  });
+});
@@ -1,7 +1,7 @@
 import path from "path";
 import * as t from "@babel/types";
 import { stripIndent } from "common-tags";
-import { GraphQLEnumType, GraphQLInputObjectType } from "graphql";
+import { GraphQLEnumType, GraphQLInputObjectType, parse } from "graphql";
 
 import {
   CompilerContext,
@@ -19,6 +19,7 @@ import {
 } from "apollo-codegen-core/lib/compiler/visitors/typeCase";
 
 import { collectAndMergeFields } from "apollo-codegen-core/lib/compiler/visitors/collectAndMergeFields";
+import { collectFragmentsReferenced } from "apollo-codegen-core/lib/compiler/visitors/collectFragmentsReferenced";
 
 import { BasicGeneratedFile } from "apollo-codegen-core/lib/utilities/CodeGenerator";
 import TypescriptGenerator, {
@@ -113,6 +114,7 @@ export function generateSource(context: CompilerContext) {
   Object.values(context.operations).forEach(operation => {
     generator.fileHeader();
     generator.interfacesForOperation(operation);
+    generator.typedDocumentNodeForOperation(operation);
 
     const output = generator.printer.printAndClear();
 
@@ -176,6 +178,7 @@ export function generateLocalSource(
         );
       }
       generator.interfacesForOperation(operation);
+      generator.typedDocumentNodeForOperation(operation);
       const output = generator.printer.printAndClear();
       return new TypescriptGeneratedFile(output);
     }
@@ -289,6 +292,36 @@ export class TypescriptAPIGenerator extends TypescriptGenerator {
     }
   }
 
+  // Exports the operation document, including the fragments it references, typed with the
+  // interfaces generated for its result and variables
+  public typedDocumentNodeForOperation(operation: Operation) {
+    if (!this.options.typedDocumentNodes) return;
+
+    const { operationName, variables, selectionSet, source } = operation;
+
+    const fragmentSources = Array.from(
+      collectFragmentsReferenced(selectionSet, this.context.fragments)
+    ).map(fragmentName => this.context.fragments[fragmentName].source);
+
+    const document = parse([source, ...fragmentSources].join("\n"), {
+      noLocation: true
+    });
+
+    const variablesType =
+      variables.length > 0
+        ? operationName + "Variables"
+        : "Record<string, never>";
+
+    // An import type, so the generated files can still be concatenated into a single file
+    this.printer.enqueue(
+      `export const ${operationName}Document: import("@graphql-typed-document-node/core").TypedDocumentNode<${operationName}, ${variablesType}> = ${JSON.stringify(
+        document,
+        null,
+        2
+      )};`
+    );
+  }
+
   public interfacesForFragment(fragment: Fragment) {
     const { fragmentName, selectionSet } = fragment;
     this.scopeStackPush(fragmentName);
@@ -13,6 +13,7 @@ import {
 import * as t from "@babel/types";
 
 import { CompilerOptions } from "apollo-codegen-core/lib/compiler";
+import { scalarMappingForType } from "apollo-codegen-core/lib/utilities/scalars";
 
 const builtInScalarMap = {
   [GraphQLString.name]: t.TSStringKeyword(),
@@ -40,6 +41,18 @@ export function createTypeFromGraphQLTypeFunction(
       const builtIn = builtInScalarMap[typeName || graphQLType.name];
       if (builtIn != null) {
         return builtIn;
+      }
+
+      const mapping = scalarMappingForType(compilerOptions, graphQLType);
+      if (mapping) {
+        // An import type, so the generated files don't need to import mapped scalars themselves
+        return t.TSTypeReference(
+          t.identifier(
+            mapping.import
+              ? `import(${JSON.stringify(mapping.import)}).${mapping.type}`
+              : mapping.type
+          )
+        );
       } else if (compilerOptions.passthroughCustomScalars) {
         return t.TSTypeReference(
           t.identifier(
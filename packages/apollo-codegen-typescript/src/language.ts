@@ -17,7 +17,8 @@ export type ObjectProperty = {
 };
 
 export interface TypescriptCompilerOptions extends CompilerOptions {
-  // Leaving this open for Typescript only compiler options
+  // Emit a `TypedDocumentNode` constant for every operation
+  typedDocumentNodes?: boolean;
 }
 
 export default class TypescriptGenerator {
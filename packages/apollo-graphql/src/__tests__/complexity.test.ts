@@ -0,0 +1,188 @@
+import { default as gql, disableFragmentWarnings } from "graphql-tag";
+import {
+  buildSchema,
+  buildClientSchema,
+  introspectionFromSchema
+} from "graphql";
+import { documentComplexity } from "../complexity";
+
+disableFragmentWarnings();
+
+const schema = buildSchema(`
+  directive @cost(complexity: Int, multipliers: [String]) on FIELD_DEFINITION
+
+  type Query {
+    me: User
+    user(id: ID!): User
+    search(term: String!, limit: Int): [SearchResult] @cost(complexity: 5)
+    feed(count: Int): [Post] @cost(complexity: 2, multipliers: ["count"])
+  }
+
+  type Mutation {
+    like(postId: ID!): Post @cost(complexity: 10)
+  }
+
+  type User {
+    id: ID!
+    name: String
+    friends(first: Int): [User]
+    posts: [Post]
+  }
+
+  type Post {
+    id: ID!
+    title: String
+    author: User
+  }
+
+  union SearchResult = User | Post
+`);
+
+describe("documentComplexity", () => {
+  it("counts depth and fields of nested selections", () => {
+    expect(
+      documentComplexity(
+        schema,
+        gql`
+          query Me {
+            me {
+              __typename
+              name
+              posts {
+                title
+                author {
+                  name
+                }
+              }
+            }
+          }
+        `
+      )
+    ).toEqual([{ operationName: "Me", depth: 4, fieldCount: 6, cost: 6 }]);
+  });
+
+  it("multiplies the cost of list fields by list size arguments", () => {
+    expect(
+      documentComplexity(
+        schema,
+        gql`
+          query Friends($count: Int, $first: Int = 3) {
+            me {
+              friends(first: 5) {
+                name
+              }
+            }
+            user(id: "1") {
+              friends(first: $first) {
+                name
+              }
+            }
+            feed(count: $count) {
+              title
+            }
+          }
+        `
+      )
+    ).toEqual([
+      {
+        operationName: "Friends",
+        depth: 3,
+        fieldCount: 8,
+        // me: 1 + 5 * 2, user: 1 + 3 * 2, feed: 10 * (2 + 1)
+        cost: 11 + 7 + 30
+      }
+    ]);
+  });
+
+  it("uses costs from the config over declared costs", () => {
+    expect(
+      documentComplexity(
+        schema,
+        gql`
+          mutation Like {
+            like(postId: "1") {
+              id
+            }
+          }
+
+          query Search {
+            search(term: "apollo", limit: 2) {
+              ... on User {
+                name
+              }
+              ... on Post {
+                title
+              }
+            }
+          }
+        `,
+        { fieldCosts: { "Mutation.like": 3, "Post.title": 4 } }
+      )
+    ).toEqual([
+      { operationName: "Like", depth: 2, fieldCount: 2, cost: 4 },
+      { operationName: "Search", depth: 2, fieldCount: 3, cost: 2 * 10 }
+    ]);
+  });
+
+  it("counts fragments every time they're spread", () => {
+    expect(
+      documentComplexity(
+        schema,
+        gql`
+          query Users {
+            me {
+              ...UserDetails
+            }
+            user(id: "1") {
+              ...UserDetails
+            }
+          }
+
+          fragment UserDetails on User {
+            id
+            name
+          }
+        `,
+        { defaultFieldCost: 2 }
+      )
+    ).toEqual([{ operationName: "Users", depth: 2, fieldCount: 6, cost: 12 }]);
+  });
+
+  it("doesn't recurse into fragment cycles", () => {
+    expect(
+      documentComplexity(
+        schema,
+        gql`
+          query Me {
+            me {
+              ...A
+            }
+          }
+
+          fragment A on User {
+            friends {
+              ...A
+            }
+          }
+        `
+      )
+    ).toEqual([{ operationName: "Me", depth: 2, fieldCount: 2, cost: 2 }]);
+  });
+
+  it("uses the default cost for schemas without directives", () => {
+    const clientSchema = buildClientSchema(introspectionFromSchema(schema));
+
+    expect(
+      documentComplexity(
+        clientSchema,
+        gql`
+          query Search {
+            search(term: "apollo") {
+              __typename
+            }
+          }
+        `
+      )
+    ).toEqual([{ operationName: "Search", depth: 1, fieldCount: 1, cost: 1 }]);
+  });
+});
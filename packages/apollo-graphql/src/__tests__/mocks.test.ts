@@ -0,0 +1,168 @@
+import { default as gql, disableFragmentWarnings } from "graphql-tag";
+import { buildSchema } from "graphql";
+import { documentMocks } from "../mocks";
+
+disableFragmentWarnings();
+
+const schema = buildSchema(`
+  scalar DateTime
+
+  type Query {
+    me: User
+    search(term: String!): [SearchResult!]!
+    node(id: ID!): Node
+  }
+
+  interface Node {
+    id: ID!
+  }
+
+  type User implements Node {
+    id: ID!
+    name: String
+    age: Int
+    role: Role!
+    createdAt: DateTime
+    friends: [User]
+  }
+
+  type Post implements Node {
+    id: ID!
+    title: String
+    rating: Float
+    published: Boolean
+  }
+
+  union SearchResult = User | Post
+
+  enum Role {
+    ADMIN
+    MEMBER
+  }
+`);
+
+describe("documentMocks", () => {
+  it("generates the same responses for the same seed", () => {
+    const document = gql`
+      query Me {
+        me {
+          id
+          name
+          age
+          role
+          createdAt
+          friends {
+            name
+          }
+        }
+      }
+    `;
+
+    const mocks = documentMocks(schema, document, { seed: 1 });
+    expect(documentMocks(schema, document, { seed: 1 })).toEqual(mocks);
+    expect(documentMocks(schema, document, { seed: 2 })).not.toEqual(mocks);
+    expect(mocks).toMatchSnapshot();
+  });
+
+  it("generates values of the right type", () => {
+    const [{ response }] = documentMocks(
+      schema,
+      gql`
+        query Me {
+          me {
+            id
+            age
+            role
+            friends {
+              id
+            }
+          }
+        }
+      `,
+      { listLength: 3 }
+    );
+
+    const { me } = response.data;
+    expect(typeof me.id).toBe("string");
+    expect(Number.isInteger(me.age)).toBe(true);
+    expect(["ADMIN", "MEMBER"]).toContain(me.role);
+    expect(me.friends).toHaveLength(3);
+  });
+
+  it("resolves abstract types and merges fragments, aliases and __typename", () => {
+    const [{ response }] = documentMocks(
+      schema,
+      gql`
+        query Node {
+          node(id: "1") {
+            __typename
+            id
+            ... on User {
+              displayName: name
+            }
+            ...PostFields
+          }
+        }
+
+        fragment PostFields on Post {
+          title
+          rating
+        }
+      `,
+      { types: { Node: () => ({ __typename: "Post" }) } }
+    );
+
+    expect(Object.keys(response.data.node)).toEqual([
+      "__typename",
+      "id",
+      "title",
+      "rating"
+    ]);
+    expect(response.data.node.__typename).toBe("Post");
+  });
+
+  it("uses the configured mocks of scalars and object types", () => {
+    const [{ response }] = documentMocks(
+      schema,
+      gql`
+        query Me {
+          me {
+            name
+            age
+            createdAt
+          }
+        }
+      `,
+      {
+        types: {
+          DateTime: () => "2019-01-01T00:00:00Z",
+          User: ({ path }) => ({ name: `User at ${path.join(".")}`, age: null })
+        }
+      }
+    );
+
+    expect(response.data).toEqual({
+      me: {
+        name: "User at me",
+        age: null,
+        createdAt: "2019-01-01T00:00:00Z"
+      }
+    });
+  });
+
+  it("leaves out fields skipped with a literal condition", () => {
+    const [{ response }] = documentMocks(
+      schema,
+      gql`
+        query Me($withName: Boolean!) {
+          me {
+            id @skip(if: true)
+            name @include(if: $withName)
+          }
+        }
+      `
+    );
+
+    expect(Object.keys(response.data.me)).toEqual(["name"]);
+  });
+});
@@ -0,0 +1,288 @@
+// Estimates how expensive an operation is to execute, so expensive operations
+// can be caught before they're shipped to clients.
+//
+// Three numbers are computed for every operation:
+//
+// - depth, the deepest level of nested fields
+// - fieldCount, the number of fields selected, counting the fields of a
+//   fragment every time it is spread
+// - cost, the sum of the cost of every field. A field's cost includes the
+//   cost of its selection set, multiplied by the number of items requested
+//   when the field takes a list size argument like `first`.
+//
+// The cost of a field is taken from the `fieldCosts` config, keyed by
+// "Type.field", or from a `@cost(complexity: Int, multipliers: [String])`
+// directive declared on the field in the schema. Other fields cost
+// `defaultFieldCost`. `__typename` doesn't count towards any of the numbers,
+// since it's often added automatically.
+import {
+  GraphQLSchema,
+  GraphQLCompositeType,
+  GraphQLField,
+  DocumentNode,
+  OperationDefinitionNode,
+  FragmentDefinitionNode,
+  SelectionSetNode,
+  FieldNode,
+  ArgumentNode,
+  ValueNode,
+  Kind,
+  getNamedType,
+  isCompositeType,
+  isObjectType,
+  isInterfaceType,
+  valueFromASTUntyped
+} from "graphql";
+
+export interface ComplexityConfig {
+  // cost of fields without a configured or declared cost
+  defaultFieldCost?: number;
+  // costs of individual fields, keyed by "Type.field"
+  fieldCosts?: { [coordinate: string]: number };
+  // arguments limiting the number of items a list field returns
+  listSizeArguments?: string[];
+  // number of items assumed when a list size argument is a variable without a default
+  defaultListSize?: number;
+}
+
+export interface OperationComplexity {
+  operationName?: string;
+  depth: number;
+  fieldCount: number;
+  cost: number;
+}
+
+const DefaultComplexityConfig: Required<ComplexityConfig> = {
+  defaultFieldCost: 1,
+  fieldCosts: {},
+  listSizeArguments: ["first", "last", "limit"],
+  defaultListSize: 10
+};
+
+type FragmentMap = { [fragmentName: string]: FragmentDefinitionNode };
+
+interface SelectionSetComplexity {
+  depth: number;
+  fieldCount: number;
+  cost: number;
+}
+
+export function operationComplexity(
+  schema: GraphQLSchema,
+  operation: OperationDefinitionNode,
+  fragments: FragmentMap,
+  config: ComplexityConfig = {}
+): OperationComplexity {
+  const options = { ...DefaultComplexityConfig, ...config };
+
+  const variableDefaults: { [variableName: string]: any } = Object.create(null);
+  for (const { variable, defaultValue } of operation.variableDefinitions ||
+    []) {
+    if (defaultValue) {
+      variableDefaults[variable.name.value] = valueFromASTUntyped(defaultValue);
+    }
+  }
+
+  const rootType =
+    operation.operation === "mutation"
+      ? schema.getMutationType()
+      : operation.operation === "subscription"
+      ? schema.getSubscriptionType()
+      : schema.getQueryType();
+
+  const listSize = (value: ValueNode): number | undefined => {
+    if (value.kind === Kind.VARIABLE) {
+      const defaultValue = variableDefaults[value.name.value];
+      return typeof defaultValue === "number"
+        ? defaultValue
+        : options.defaultListSize;
+    }
+    const size = valueFromASTUntyped(value);
+    return typeof size === "number" ? size : undefined;
+  };
+
+  const fieldMultiplier = (
+    field: FieldNode,
+    multiplierArguments: string[]
+  ): number => {
+    let multiplier = 1;
+    for (const argument of field.arguments || []) {
+      if (!multiplierArguments.includes(argument.name.value)) continue;
+      const size = listSize(argument.value);
+      if (size !== undefined) multiplier *= Math.max(size, 0);
+    }
+    return multiplier;
+  };
+
+  const selectionSetComplexity = (
+    selectionSet: SelectionSetNode,
+    parentType: GraphQLCompositeType | undefined,
+    visitedFragments: string[]
+  ): SelectionSetComplexity => {
+    const result = { depth: 0, fieldCount: 0, cost: 0 };
+
+    const add = (complexity: SelectionSetComplexity) => {
+      result.depth = Math.max(result.depth, complexity.depth);
+      result.fieldCount += complexity.fieldCount;
+      result.cost += complexity.cost;
+    };
+
+    for (const selection of selectionSet.selections) {
+      switch (selection.kind) {
+        case Kind.FIELD: {
+          if (selection.name.value === "__typename") break;
+
+          const fieldDef = fieldDefinition(parentType, selection.name.value);
+          const costDirective = fieldDef && costDirectiveValues(fieldDef);
+          const coordinate =
+            parentType && `${parentType.name}.${selection.name.value}`;
+
+          let fieldCost = options.defaultFieldCost;
+          if (coordinate && coordinate in options.fieldCosts) {
+            fieldCost = options.fieldCosts[coordinate];
+          } else if (costDirective && costDirective.complexity !== undefined) {
+            fieldCost = costDirective.complexity;
+          }
+
+          const child = selection.selectionSet
+            ? selectionSetComplexity(
+                selection.selectionSet,
+                fieldCompositeType(fieldDef),
+                visitedFragments
+              )
+            : { depth: 0, fieldCount: 0, cost: 0 };
+
+          const multiplier = fieldMultiplier(selection, [
+            ...options.listSizeArguments,
+            ...((costDirective && costDirective.multipliers) || [])
+          ]);
+
+          add({
+            depth: child.depth + 1,
+            fieldCount: child.fieldCount + 1,
+            cost: (fieldCost + child.cost) * multiplier
+          });
+          break;
+        }
+        case Kind.INLINE_FRAGMENT: {
+          const typeCondition = selection.typeCondition
+            ? schema.getType(selection.typeCondition.name.value)
+            : parentType;
+          add(
+            selectionSetComplexity(
+              selection.selectionSet,
+              isCompositeType(typeCondition) ? typeCondition : undefined,
+              visitedFragments
+            )
+          );
+          break;
+        }
+        case Kind.FRAGMENT_SPREAD: {
+          const fragmentName = selection.name.value;
+          const fragment = fragments[fragmentName];
+          // Cycles are reported by validation, so they don't have to be counted
+          if (!fragment || visitedFragments.includes(fragmentName)) break;
+
+          const typeCondition = schema.getType(
+            fragment.typeCondition.name.value
+          );
+          add(
+            selectionSetComplexity(
+              fragment.selectionSet,
+              isCompositeType(typeCondition) ? typeCondition : undefined,
+              [...visitedFragments, fragmentName]
+            )
+          );
+          break;
+        }
+      }
+    }
+
+    return result;
+  };
+
+  const { depth, fieldCount, cost } = selectionSetComplexity(
+    operation.selectionSet,
+    rootType || undefined,
+    []
+  );
+
+  return {
+    operationName: operation.name ? operation.name.value : undefined,
+    depth,
+    fieldCount,
+    cost
+  };
+}
+
+// Analyzes every operation in a document, using the fragments defined in the same document
+export function documentComplexity(
+  schema: GraphQLSchema,
+  document: DocumentNode,
+  config?: ComplexityConfig
+): OperationComplexity[] {
+  const fragments: FragmentMap = Object.create(null);
+  for (const definition of document.definitions) {
+    if (definition.kind === Kind.FRAGMENT_DEFINITION) {
+      fragments[definition.name.value] = definition;
+    }
+  }
+
+  return document.definitions
+    .filter(
+      (definition): definition is OperationDefinitionNode =>
+        definition.kind === Kind.OPERATION_DEFINITION
+    )
+    .map(operation =>
+      operationComplexity(schema, operation, fragments, config)
+    );
+}
+
+function fieldDefinition(
+  parentType: GraphQLCompositeType | undefined,
+  fieldName: string
+): GraphQLField<any, any> | undefined {
+  if (!(isObjectType(parentType) || isInterfaceType(parentType))) {
+    return undefined;
+  }
+  return parentType.getFields()[fieldName];
+}
+
+function fieldCompositeType(
+  fieldDef: GraphQLField<any, any> | undefined
+): GraphQLCompositeType | undefined {
+  if (!fieldDef) return undefined;
+  const type = getNamedType(fieldDef.type);
+  return isCompositeType(type) ? type : undefined;
+}
+
+// Directives are only available on schemas built from SDL, not from introspection results
+function costDirectiveValues(
+  fieldDef: GraphQLField<any, any>
+): { complexity?: number; multipliers?: string[] } | undefined {
+  const directive =
+    fieldDef.astNode &&
+    (fieldDef.astNode.directives || []).find(
+      directive => directive.name.value === "cost"
+    );
+  if (!directive) return undefined;
+
+  const argumentValue = (name: string) => {
+    const argument = (directive.arguments || []).find(
+      (argument: ArgumentNode) => argument.name.value === name
+    );
+    return argument ? valueFromASTUntyped(argument.value) : undefined;
+  };
+
+  const complexity = argumentValue("complexity");
+  const multipliers = argumentValue("multipliers");
+
+  return {
+    complexity: typeof complexity === "number" ? complexity : undefined,
+    multipliers: Array.isArray(multipliers)
+      ? multipliers.filter(
+          (multiplier): multiplier is string => typeof multiplier === "string"
+        )
+      : undefined
+  };
+}
@@ -3,3 +3,17 @@ export {
   defaultOperationRegistrySignature,
   operationHash
 } from "./operationId";
+export {
+  operationComplexity,
+  documentComplexity,
+  ComplexityConfig,
+  OperationComplexity
+} from "./complexity";
+export {
+  mockOperation,
+  documentMocks,
+  MocksConfig,
+  MockContext,
+  MockFunction,
+  OperationMock
+} from "./mocks";
@@ -0,0 +1,373 @@
+// Generates mock responses for operations, so component tests don't need
+// hand-written fixtures.
+//
+// Responses are built the way a server executes an operation: the fields of
+// fragments and inline fragments that apply to an object's concrete type are
+// collected by response key, so aliases, `__typename` and fields selected more
+// than once come out the same shape as real responses. Nullable fields always
+// get a value, lists get `listLength` items, and interfaces and unions resolve
+// to one of their possible types.
+//
+// Values are derived from a pseudo-random number generator seeded from the
+// `seed` config and the operation name, so the same operations produce the
+// same responses on every run. Functions in `types`, keyed by the name of a
+// scalar, enum, object, interface or union, override the generated values:
+//
+// - for scalars and enums, the function returns the value
+// - for object types, it returns an object whose properties are used as the
+//   values of the fields with the same name
+// - for interfaces and unions, it returns an object whose `__typename` picks
+//   the concrete type
+import {
+  GraphQLSchema,
+  GraphQLType,
+  GraphQLObjectType,
+  GraphQLAbstractType,
+  GraphQLLeafType,
+  GraphQLEnumType,
+  OperationDefinitionNode,
+  FragmentDefinitionNode,
+  SelectionSetNode,
+  FieldNode,
+  DocumentNode,
+  Kind,
+  isNonNullType,
+  isListType,
+  isLeafType,
+  isEnumType,
+  isObjectType,
+  isAbstractType,
+  valueFromASTUntyped
+} from "graphql";
+
+export interface MockContext {
+  // the name of the type being mocked
+  typeName: string;
+  // the name of the field the value is mocked for, if any
+  fieldName?: string;
+  // the response path of the value
+  path: (string | number)[];
+  // returns a number in [0, 1) from the seeded generator
+  random: () => number;
+}
+
+export type MockFunction = (context: MockContext) => any;
+
+export interface MocksConfig {
+  // seeds the generated values
+  seed?: number;
+  // number of items in generated lists
+  listLength?: number;
+  // values of scalars, enums, object types, interfaces and unions, keyed by type name
+  types?: { [typeName: string]: MockFunction };
+}
+
+export interface OperationMock {
+  operationName?: string;
+  response: { data: any };
+}
+
+const DefaultMocksConfig: Required<MocksConfig> = {
+  seed: 0,
+  listLength: 2,
+  types: {}
+};
+
+type FragmentMap = { [fragmentName: string]: FragmentDefinitionNode };
+
+type Path = (string | number)[];
+
+export function mockOperation(
+  schema: GraphQLSchema,
+  operation: OperationDefinitionNode,
+  fragments: FragmentMap,
+  config: MocksConfig = {}
+): OperationMock {
+  const options = { ...DefaultMocksConfig, ...config };
+  const operationName = operation.name ? operation.name.value : undefined;
+  const random = seededRandom(options.seed ^ stringHash(operationName || ""));
+
+  const integer = (max: number) => Math.floor(random() * max);
+
+  const override = (
+    typeName: string,
+    fieldName: string | undefined,
+    path: Path
+  ): any => {
+    const mock = options.types[typeName];
+    return mock
+      ? mock({ typeName, fieldName, path: [...path], random })
+      : undefined;
+  };
+
+  const mockLeaf = (type: GraphQLLeafType, fieldName: string, path: Path) => {
+    const value = override(type.name, fieldName, path);
+    if (value !== undefined) return value;
+
+    if (isEnumType(type)) {
+      const values = (type as GraphQLEnumType).getValues();
+      return values[integer(values.length)].value;
+    }
+
+    switch (type.name) {
+      case "Int":
+        return integer(100);
+      case "Float":
+        return Math.round(random() * 10000) / 100;
+      case "Boolean":
+        return random() < 0.5;
+      case "ID":
+        return String(integer(1000000));
+      case "String":
+        return `${fieldName} ${integer(1000)}`;
+      default:
+        // custom scalars without a mock get a string, which most of them serialize to
+        return `${type.name} ${integer(1000)}`;
+    }
+  };
+
+  const concreteType = (
+    type: GraphQLAbstractType,
+    fieldName: string,
+    path: Path
+  ): GraphQLObjectType => {
+    const possibleTypes = [...schema.getPossibleTypes(type)].sort((a, b) =>
+      a.name.localeCompare(b.name)
+    );
+    const value = override(type.name, fieldName, path);
+    const chosenType =
+      value &&
+      possibleTypes.find(
+        possibleType => possibleType.name === value.__typename
+      );
+    return chosenType || possibleTypes[integer(possibleTypes.length)];
+  };
+
+  const mockValue = (
+    type: GraphQLType,
+    fieldNodes: FieldNode[],
+    path: Path,
+    overrideValue: any
+  ): any => {
+    const fieldName = fieldNodes[0].name.value;
+
+    if (isNonNullType(type)) {
+      return mockValue(type.ofType, fieldNodes, path, overrideValue);
+    }
+    if (overrideValue === null) {
+      return null;
+    }
+    if (isListType(type)) {
+      return Array.from({ length: options.listLength }, (_, index) =>
+        mockValue(type.ofType, fieldNodes, [...path, index], undefined)
+      );
+    }
+    if (isLeafType(type)) {
+      return overrideValue !== undefined
+        ? overrideValue
+        : mockLeaf(type, fieldName, path);
+    }
+
+    const objectType = isAbstractType(type)
+      ? concreteType(type, fieldName, path)
+      : (type as GraphQLObjectType);
+    return mockObject(
+      objectType,
+      mergeSelectionSets(fieldNodes),
+      fieldName,
+      path
+    );
+  };
+
+  const mockObject = (
+    type: GraphQLObjectType,
+    selectionSet: SelectionSetNode,
+    fieldName: string | undefined,
+    path: Path
+  ): any => {
+    const overrides = override(type.name, fieldName, path) || {};
+    const fields = type.getFields();
+    const result: { [responseKey: string]: any } = {};
+
+    collectFields(schema, type, selectionSet, fragments).forEach(
+      (fieldNodes, responseKey) => {
+        const name = fieldNodes[0].name.value;
+        if (name === "__typename") {
+          result[responseKey] = type.name;
+          return;
+        }
+
+        const field = fields[name];
+        // Unknown fields are reported by validation
+        if (!field) return;
+
+        result[responseKey] = mockValue(
+          field.type,
+          fieldNodes,
+          [...path, responseKey],
+          overrides[name]
+        );
+      }
+    );
+
+    return result;
+  };
+
+  const rootType =
+    operation.operation === "mutation"
+      ? schema.getMutationType()
+      : operation.operation === "subscription"
+      ? schema.getSubscriptionType()
+      : schema.getQueryType();
+
+  return {
+    operationName,
+    response: {
+      data: rootType
+        ? mockObject(rootType, operation.selectionSet, undefined, [])
+        : null
+    }
+  };
+}
+
+// Mocks every operation in a document, using the fragments defined in the same document
+export function documentMocks(
+  schema: GraphQLSchema,
+  document: DocumentNode,
+  config?: MocksConfig
+): OperationMock[] {
+  const fragments: FragmentMap = Object.create(null);
+  for (const definition of document.definitions) {
+    if (definition.kind === Kind.FRAGMENT_DEFINITION) {
+      fragments[definition.name.value] = definition;
+    }
+  }
+
+  return document.definitions
+    .filter(
+      (definition): definition is OperationDefinitionNode =>
+        definition.kind === Kind.OPERATION_DEFINITION
+    )
+    .map(operation => mockOperation(schema, operation, fragments, config));
+}
+
+// The fields selected on an object of `type`, grouped by response key in the order they're selected
+function collectFields(
+  schema: GraphQLSchema,
+  type: GraphQLObjectType,
+  selectionSet: SelectionSetNode,
+  fragments: FragmentMap,
+  fields: Map<string, FieldNode[]> = new Map(),
+  visitedFragments: string[] = []
+): Map<string, FieldNode[]> {
+  for (const selection of selectionSet.selections) {
+    if (isExcluded(selection.directives)) continue;
+
+    switch (selection.kind) {
+      case Kind.FIELD: {
+        const responseKey = selection.alias
+          ? selection.alias.value
+          : selection.name.value;
+        fields.set(responseKey, [
+          ...(fields.get(responseKey) || []),
+          selection
+        ]);
+        break;
+      }
+      case Kind.INLINE_FRAGMENT:
+        if (
+          !selection.typeCondition ||
+          appliesTo(schema, selection.typeCondition.name.value, type)
+        ) {
+          collectFields(
+            schema,
+            type,
+            selection.selectionSet,
+            fragments,
+            fields,
+            visitedFragments
+          );
+        }
+        break;
+      case Kind.FRAGMENT_SPREAD: {
+        const fragmentName = selection.name.value;
+        const fragment = fragments[fragmentName];
+        if (
+          !fragment ||
+          visitedFragments.includes(fragmentName) ||
+          !appliesTo(schema, fragment.typeCondition.name.value, type)
+        ) {
+          break;
+        }
+        collectFields(schema, type, fragment.selectionSet, fragments, fields, [
+          ...visitedFragments,
+          fragmentName
+        ]);
+        break;
+      }
+    }
+  }
+
+  return fields;
+}
+
+function appliesTo(
+  schema: GraphQLSchema,
+  typeConditionName: string,
+  type: GraphQLObjectType
+): boolean {
+  const typeCondition = schema.getType(typeConditionName);
+  if (!typeCondition) return false;
+  if (isObjectType(typeCondition)) return typeCondition === type;
+  return (
+    isAbstractType(typeCondition) && schema.isPossibleType(typeCondition, type)
+  );
+}
+
+// Fields are only left out when `@skip` or `@include` has a literal condition, since there are no
+// variables to evaluate the others with
+function isExcluded(directives: FieldNode["directives"] | undefined): boolean {
+  return (directives || []).some(directive => {
+    const condition = (directive.arguments || []).find(
+      argument => argument.name.value === "if"
+    );
+    if (!condition || condition.value.kind === Kind.VARIABLE) return false;
+
+    const value = valueFromASTUntyped(condition.value);
+    return (
+      (directive.name.value === "skip" && value === true) ||
+      (directive.name.value === "include" && value === false)
+    );
+  });
+}
+
+function mergeSelectionSets(fieldNodes: FieldNode[]): SelectionSetNode {
+  return {
+    kind: Kind.SELECTION_SET,
+    selections: fieldNodes.reduce(
+      (selections, { selectionSet }) =>
+        selectionSet ? [...selections, ...selectionSet.selections] : selections,
+      [] as SelectionSetNode["selections"]
+    )
+  };
+}
+
+// mulberry32, a small generator that's good enough for mock data
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function stringHash(value: string): number {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (Math.imul(31, hash) + value.charCodeAt(i)) | 0;
+  }
+  return hash;
+}
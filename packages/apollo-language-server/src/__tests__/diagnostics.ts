@@ -1,7 +1,12 @@
-import { Source } from "graphql";
+import { Source, buildSchema } from "graphql";
+import { DiagnosticSeverity } from "vscode-languageserver";
 import { loadSchema } from "apollo-codegen-core/lib/loading";
 import { GraphQLDocument } from "../document";
-import { collectExecutableDefinitionDiagnositics } from "../diagnostics";
+import {
+  collectExecutableDefinitionDiagnositics,
+  diagnosticsFromConfigValidationErrors,
+  DeprecatedDiagnosticTag
+} from "../diagnostics";
 const schema = loadSchema(
   require.resolve("../../../../__fixtures__/starwars/schema.json")
 );
@@ -82,5 +87,95 @@ describe("Language server diagnostics", () => {
       expect(diagnostics.length).toEqual(1);
       expect(diagnostics[0].range.start.character).toEqual(40);
     });
+    it("warns about deprecated usages", () => {
+      const schemaWithDeprecations = buildSchema(`
+        type Query {
+          name: String @deprecated(reason: "Use fullName")
+          fullName: String
+        }
+      `);
+      const diagnostics = collectExecutableDefinitionDiagnositics(
+        schemaWithDeprecations,
+        new GraphQLDocument(new Source(`query Name { name }`))
+      );
+      expect(diagnostics).toEqual([
+        {
+          source: "GraphQL: Deprecation",
+          message: "The field Query.name is deprecated. Use fullName",
+          severity: DiagnosticSeverity.Warning,
+          range: {
+            start: { line: 0, character: 13 },
+            end: { line: 0, character: 17 }
+          },
+          tags: [DeprecatedDiagnosticTag]
+        }
+      ]);
+    });
+  });
+});
+
+describe("diagnosticsFromConfigValidationErrors", () => {
+  const config = `module.exports = {
+  client: {
+    serviceName: "not the key",
+    service: { name: "my-service" },
+    "inclues": ["src/**/*.ts"]
+  },
+  service: { name: 1 }
+};
+`;
+
+  it("reports errors on the last key of their path", () => {
+    const diagnostics = diagnosticsFromConfigValidationErrors(config, [
+      { path: ["client", "inclues"], message: "unknown" },
+      { path: ["service", "name"], message: "wrong type" }
+    ]);
+
+    expect(diagnostics.map(({ range }) => range)).toEqual([
+      { start: { line: 4, character: 5 }, end: { line: 4, character: 12 } },
+      { start: { line: 6, character: 13 }, end: { line: 6, character: 17 } }
+    ]);
+    expect(diagnostics[0]).toMatchObject({
+      message: "unknown",
+      severity: DiagnosticSeverity.Warning
+    });
+  });
+
+  it("falls back to the deepest key found", () => {
+    const [diagnostic] = diagnosticsFromConfigValidationErrors(config, [
+      { path: ["client", "service", "missing"], message: "unknown" }
+    ]);
+
+    expect(diagnostic.range).toEqual({
+      start: { line: 3, character: 4 },
+      end: { line: 3, character: 11 }
+    });
+  });
+
+  it("finds keys in the blocks of YAML configs", () => {
+    const yamlConfig = `client:
+  service:
+    name: my-service
+  # includes of the client
+  "inclues":
+    - src/**/*.ts
+service:
+  name: 1
+`;
+    const diagnostics = diagnosticsFromConfigValidationErrors(
+      yamlConfig,
+      [
+        { path: ["client", "inclues"], message: "unknown" },
+        { path: ["service", "name"], message: "wrong type" },
+        { path: ["client", "name"], message: "missing" }
+      ],
+      true
+    );
+
+    expect(diagnostics.map(({ range }) => range)).toEqual([
+      { start: { line: 4, character: 3 }, end: { line: 4, character: 10 } },
+      { start: { line: 7, character: 2 }, end: { line: 7, character: 6 } },
+      { start: { line: 0, character: 0 }, end: { line: 0, character: 6 } }
+    ]);
   });
 });
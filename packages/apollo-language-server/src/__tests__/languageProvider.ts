@@ -0,0 +1,730 @@
+import { mkdtempSync, rmdirSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  CancellationToken,
+  Position,
+  Range,
+  TextDocument
+} from "vscode-languageserver";
+import URI from "vscode-uri";
+import { GraphQLLanguageProvider } from "../languageProvider";
+import { GraphQLWorkspace } from "../workspace";
+import { GraphQLClientProject } from "../project/client";
+import { LoadingHandler } from "../loadingHandler";
+import { collectExecutableDefinitionDiagnositics } from "../diagnostics";
+import {
+  ClientConfig,
+  DefaultClientConfig,
+  DefaultEngineConfig
+} from "../config";
+
+const loadingHandler: LoadingHandler = {
+  handle: (_message, value) => value,
+  handleSync: (_message, value) => value(),
+  showError: message => {
+    throw new Error(message);
+  },
+  showWarning: () => {}
+};
+
+const token = CancellationToken.None;
+
+const heroQuery = `query HeroName($episode: Episode) {
+  hero(episode: $episode) {
+    ...HeroDetails
+    friends {
+      ...HeroDetails
+    }
+  }
+}
+`;
+
+const heroFragment = `fragment HeroDetails on Character {
+  name
+}
+`;
+
+describe("GraphQLLanguageProvider", () => {
+  let dir: string;
+  let project: GraphQLClientProject;
+  let provider: GraphQLLanguageProvider;
+
+  beforeEach(async () => {
+    // the temporary project root doesn't contain any files
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    dir = mkdtempSync(join(tmpdir(), "language-provider-"));
+    project = new GraphQLClientProject({
+      config: new ClientConfig({
+        client: {
+          ...DefaultClientConfig,
+          service: {
+            name: "starwars",
+            localSchemaFile: require.resolve(
+              "../../../../__fixtures__/starwars/schema.json"
+            )
+          }
+        },
+        engine: DefaultEngineConfig
+      }),
+      loadingHandler,
+      rootURI: URI.file(dir)
+    });
+    await project.whenReady;
+
+    project.documentDidChange(
+      TextDocument.create("file:///query.graphql", "graphql", 1, heroQuery)
+    );
+    project.documentDidChange(
+      TextDocument.create(
+        "file:///fragment.graphql",
+        "graphql",
+        1,
+        heroFragment
+      )
+    );
+
+    provider = new GraphQLLanguageProvider(({
+      projectForFile: () => project
+    } as any) as GraphQLWorkspace);
+  });
+
+  afterEach(() => {
+    project.dispose();
+    rmdirSync(dir);
+    jest.restoreAllMocks();
+  });
+
+  describe("rename", () => {
+    it("renames a fragment definition and all of its spreads", async () => {
+      const edit = await provider.provideRename(
+        "file:///fragment.graphql",
+        Position.create(0, 12),
+        "CharacterDetails",
+        token
+      );
+
+      expect(edit).toMatchInlineSnapshot(`
+Object {
+  "changes": Object {
+    "file:///fragment.graphql": Array [
+      Object {
+        "newText": "CharacterDetails",
+        "range": Object {
+          "end": Object {
+            "character": 20,
+            "line": 0,
+          },
+          "start": Object {
+            "character": 9,
+            "line": 0,
+          },
+        },
+      },
+    ],
+    "file:///query.graphql": Array [
+      Object {
+        "newText": "CharacterDetails",
+        "range": Object {
+          "end": Object {
+            "character": 18,
+            "line": 2,
+          },
+          "start": Object {
+            "character": 7,
+            "line": 2,
+          },
+        },
+      },
+      Object {
+        "newText": "CharacterDetails",
+        "range": Object {
+          "end": Object {
+            "character": 20,
+            "line": 4,
+          },
+          "start": Object {
+            "character": 9,
+            "line": 4,
+          },
+        },
+      },
+    ],
+  },
+}
+`);
+    });
+
+    it("renames a fragment from one of its spreads", async () => {
+      const prepared = await provider.providePrepareRename(
+        "file:///query.graphql",
+        Position.create(2, 8),
+        token
+      );
+      expect(prepared).toMatchInlineSnapshot(`
+Object {
+  "placeholder": "HeroDetails",
+  "range": Object {
+    "end": Object {
+      "character": 18,
+      "line": 2,
+    },
+    "start": Object {
+      "character": 7,
+      "line": 2,
+    },
+  },
+}
+`);
+
+      const edit = await provider.provideRename(
+        "file:///query.graphql",
+        Position.create(2, 8),
+        "CharacterDetails",
+        token
+      );
+      expect(Object.keys(edit!.changes!)).toEqual([
+        "file:///fragment.graphql",
+        "file:///query.graphql"
+      ]);
+    });
+
+    it("renames an operation", async () => {
+      const edit = await provider.provideRename(
+        "file:///query.graphql",
+        Position.create(0, 8),
+        "HeroNameQuery",
+        token
+      );
+
+      expect(edit).toMatchInlineSnapshot(`
+Object {
+  "changes": Object {
+    "file:///query.graphql": Array [
+      Object {
+        "newText": "HeroNameQuery",
+        "range": Object {
+          "end": Object {
+            "character": 14,
+            "line": 0,
+          },
+          "start": Object {
+            "character": 6,
+            "line": 0,
+          },
+        },
+      },
+    ],
+  },
+}
+`);
+    });
+
+    it("renames a variable within its operation", async () => {
+      const edit = await provider.provideRename(
+        "file:///query.graphql",
+        Position.create(1, 18),
+        "$ep",
+        token
+      );
+
+      expect(edit).toMatchInlineSnapshot(`
+Object {
+  "changes": Object {
+    "file:///query.graphql": Array [
+      Object {
+        "newText": "ep",
+        "range": Object {
+          "end": Object {
+            "character": 23,
+            "line": 0,
+          },
+          "start": Object {
+            "character": 16,
+            "line": 0,
+          },
+        },
+      },
+      Object {
+        "newText": "ep",
+        "range": Object {
+          "end": Object {
+            "character": 24,
+            "line": 1,
+          },
+          "start": Object {
+            "character": 17,
+            "line": 1,
+          },
+        },
+      },
+    ],
+  },
+}
+`);
+    });
+
+    it("renames a variable in the fragments its operation spreads", async () => {
+      project.documentDidChange(
+        TextDocument.create(
+          "file:///friends.graphql",
+          "graphql",
+          1,
+          `query HeroFriends($first: Int) {
+  hero {
+    ...FriendsConnection
+  }
+}
+
+fragment FriendsConnection on Character {
+  friendsConnection(first: $first) {
+    totalCount
+  }
+}
+`
+        )
+      );
+
+      const edit = await provider.provideRename(
+        "file:///friends.graphql",
+        Position.create(0, 20),
+        "count",
+        token
+      );
+      expect(
+        edit!.changes!["file:///friends.graphql"].map(
+          ({ range }) => range.start
+        )
+      ).toEqual([{ line: 0, character: 19 }, { line: 7, character: 28 }]);
+
+      project.documentDidChange(
+        TextDocument.create(
+          "file:///other.graphql",
+          "graphql",
+          1,
+          "query OtherFriends { hero { ...FriendsConnection } }"
+        )
+      );
+      await expect(
+        provider.provideRename(
+          "file:///friends.graphql",
+          Position.create(0, 20),
+          "count",
+          token
+        )
+      ).rejects.toThrowErrorMatchingInlineSnapshot(
+        `"$first is also used by fragments that \\"OtherFriends\\" spreads, so it can't be renamed in this operation alone."`
+      );
+    });
+
+    it("refuses to rename names owned by the schema", async () => {
+      await expect(
+        provider.providePrepareRename(
+          "file:///query.graphql",
+          Position.create(1, 3),
+          token
+        )
+      ).rejects.toThrowErrorMatchingInlineSnapshot(
+        `"\\"hero\\" is a field defined by the schema and can't be renamed."`
+      );
+
+      await expect(
+        provider.providePrepareRename(
+          "file:///fragment.graphql",
+          Position.create(0, 27),
+          token
+        )
+      ).rejects.toThrowErrorMatchingInlineSnapshot(
+        `"\\"Character\\" is defined by the schema and can't be renamed."`
+      );
+    });
+
+    it("refuses invalid and conflicting names", async () => {
+      await expect(
+        provider.provideRename(
+          "file:///query.graphql",
+          Position.create(0, 8),
+          "Hero-Name",
+          token
+        )
+      ).rejects.toThrowErrorMatchingInlineSnapshot(
+        `"\\"Hero-Name\\" is not a valid GraphQL name."`
+      );
+
+      project.documentDidChange(
+        TextDocument.create(
+          "file:///other.graphql",
+          "graphql",
+          1,
+          "fragment OtherDetails on Character { id }"
+        )
+      );
+      await expect(
+        provider.provideRename(
+          "file:///fragment.graphql",
+          Position.create(0, 12),
+          "OtherDetails",
+          token
+        )
+      ).rejects.toThrowErrorMatchingInlineSnapshot(
+        `"A fragment named \\"OtherDetails\\" already exists."`
+      );
+    });
+  });
+
+  describe("code actions", () => {
+    async function codeActionsFor(text: string, position: Position) {
+      const uri = "file:///actions.graphql";
+      project.documentDidChange(TextDocument.create(uri, "graphql", 1, text));
+      // Editors only send the diagnostics overlapping the requested range
+      const diagnostics = collectExecutableDefinitionDiagnositics(
+        project.schema!,
+        project.documentsAt(uri)![0],
+        project.fragments
+      ).filter(
+        ({ range: { start, end } }) =>
+          start.line === position.line &&
+          start.character <= position.character &&
+          position.character <= end.character
+      );
+      return provider.provideCodeActions(
+        uri,
+        Range.create(position, position),
+        { diagnostics },
+        token
+      );
+    }
+
+    it("suggests replacements for unknown fields", async () => {
+      const codeActions = await codeActionsFor(
+        `query Hero { hero { nam } }`,
+        Position.create(0, 20)
+      );
+
+      expect(codeActions.map(({ title }) => title)).toEqual([
+        'Change to "name"'
+      ]);
+      expect(codeActions[0].edit).toMatchInlineSnapshot(`
+Object {
+  "changes": Object {
+    "file:///actions.graphql": Array [
+      Object {
+        "newText": "name",
+        "range": Object {
+          "end": Object {
+            "character": 23,
+            "line": 0,
+          },
+          "start": Object {
+            "character": 20,
+            "line": 0,
+          },
+        },
+      },
+    ],
+  },
+}
+`);
+    });
+
+    it("adds missing required arguments and declares their variables", async () => {
+      const codeActions = await codeActionsFor(
+        `query Human { human { name } }`,
+        Position.create(0, 14)
+      );
+
+      expect(codeActions.map(({ title }) => title)).toEqual([
+        'Add argument "id"',
+        'Add __typename to "human"'
+      ]);
+      expect(codeActions[0].edit).toMatchInlineSnapshot(`
+Object {
+  "changes": Object {
+    "file:///actions.graphql": Array [
+      Object {
+        "newText": "(id: $id)",
+        "range": Object {
+          "end": Object {
+            "character": 19,
+            "line": 0,
+          },
+          "start": Object {
+            "character": 19,
+            "line": 0,
+          },
+        },
+      },
+      Object {
+        "newText": "($id: ID!)",
+        "range": Object {
+          "end": Object {
+            "character": 11,
+            "line": 0,
+          },
+          "start": Object {
+            "character": 11,
+            "line": 0,
+          },
+        },
+      },
+    ],
+  },
+}
+`);
+    });
+
+    it("declares undefined variables", async () => {
+      const codeActions = await codeActionsFor(
+        `query Hero($review: ReviewInput!) {
+  hero(episode: $episode) { name }
+}`,
+        Position.create(1, 17)
+      );
+
+      expect(codeActions.map(({ title }) => title)).toEqual([
+        'Declare "$episode: Episode"'
+      ]);
+      expect(codeActions[0].edit).toMatchInlineSnapshot(`
+Object {
+  "changes": Object {
+    "file:///actions.graphql": Array [
+      Object {
+        "newText": ", $episode: Episode",
+        "range": Object {
+          "end": Object {
+            "character": 32,
+            "line": 0,
+          },
+          "start": Object {
+            "character": 32,
+            "line": 0,
+          },
+        },
+      },
+    ],
+  },
+}
+`);
+    });
+
+    it("removes unused variables", async () => {
+      const codeActions = await codeActionsFor(
+        `query Hero($episode: Episode, $unused: Int) { hero(episode: $episode) { name } }`,
+        Position.create(0, 31)
+      );
+
+      expect(codeActions.map(({ title }) => title)).toEqual([
+        'Remove unused variable "$unused"'
+      ]);
+      expect(codeActions[0].edit).toMatchInlineSnapshot(`
+Object {
+  "changes": Object {
+    "file:///actions.graphql": Array [
+      Object {
+        "newText": "",
+        "range": Object {
+          "end": Object {
+            "character": 42,
+            "line": 0,
+          },
+          "start": Object {
+            "character": 28,
+            "line": 0,
+          },
+        },
+      },
+    ],
+  },
+}
+`);
+    });
+
+    it("removes unused fragments and adds __typename", async () => {
+      const codeActions = await codeActionsFor(
+        `fragment Unused on Character {
+  name
+}
+`,
+        Position.create(0, 10)
+      );
+
+      expect(codeActions.map(({ title, kind }) => [title, kind])).toEqual([
+        ['Remove unused fragment "Unused"', "quickfix"],
+        ['Add __typename to "Unused"', "quickfix"]
+      ]);
+      expect(codeActions.map(({ edit }) => edit)).toMatchInlineSnapshot(`
+Array [
+  Object {
+    "changes": Object {
+      "file:///actions.graphql": Array [
+        Object {
+          "newText": "",
+          "range": Object {
+            "end": Object {
+              "character": 0,
+              "line": 3,
+            },
+            "start": Object {
+              "character": 0,
+              "line": 0,
+            },
+          },
+        },
+      ],
+    },
+  },
+  Object {
+    "changes": Object {
+      "file:///actions.graphql": Array [
+        Object {
+          "newText": "__typename
+  ",
+          "range": Object {
+            "end": Object {
+              "character": 2,
+              "line": 1,
+            },
+            "start": Object {
+              "character": 2,
+              "line": 1,
+            },
+          },
+        },
+      ],
+    },
+  },
+]
+`);
+    });
+  });
+
+  describe("code lenses", () => {
+    it("shows the complexity of operations", async () => {
+      const codeLenses = await provider.provideCodeLenses(
+        "file:///query.graphql",
+        token
+      );
+
+      expect(codeLenses.map(({ command }) => command!.title)).toEqual([
+        "Depth 3 · 4 fields · Cost 4"
+      ]);
+    });
+
+    it("runs operations against a remote service", async () => {
+      project.config.client.service = {
+        name: "starwars",
+        url: "http://localhost:4000/graphql",
+        headers: { authorization: "token" },
+        skipSSLValidation: true
+      };
+
+      const [runLens] = await provider.provideCodeLenses(
+        "file:///query.graphql",
+        token
+      );
+
+      expect(runLens.command).toMatchInlineSnapshot(`
+Object {
+  "arguments": Array [
+    Object {
+      "document": "query HeroName($episode: Episode) {
+  hero(episode: $episode) {
+    ...HeroDetails
+    friends {
+      ...HeroDetails
+    }
+  }
+}
+
+fragment HeroDetails on Character {
+  name
+}",
+      "headers": Object {
+        "authorization": "token",
+      },
+      "operationName": "HeroName",
+      "skipSSLValidation": true,
+      "url": "http://localhost:4000/graphql",
+      "variables": Array [
+        Object {
+          "name": "episode",
+          "type": "Episode",
+        },
+      ],
+    },
+  ],
+  "command": "apollographql.runQuery",
+  "title": "Run query",
+}
+`);
+    });
+
+    it("shows the number of references to fragments", async () => {
+      const [referencesLens] = await provider.provideCodeLenses(
+        "file:///fragment.graphql",
+        token
+      );
+
+      expect(referencesLens.command!.title).toBe("2 references");
+      expect(referencesLens.command!.command).toBe(
+        "apollographql.showReferences"
+      );
+      const [uri, position, locations] = referencesLens.command!.arguments!;
+      expect(uri).toBe("file:///fragment.graphql");
+      expect(position).toEqual(Position.create(0, 0));
+      expect(locations).toEqual([
+        {
+          uri: "file:///query.graphql",
+          range: Range.create(2, 4, 2, 18)
+        },
+        {
+          uri: "file:///query.graphql",
+          range: Range.create(4, 6, 4, 20)
+        }
+      ]);
+    });
+
+    it("updates the number of references as documents change", async () => {
+      const referencesTitle = async () => {
+        const [referencesLens] = await provider.provideCodeLenses(
+          "file:///fragment.graphql",
+          token
+        );
+        return referencesLens.command!.title;
+      };
+
+      project.documentDidChange(
+        TextDocument.create(
+          "file:///query.graphql",
+          "graphql",
+          2,
+          `query HeroName {
+  hero {
+    ...HeroDetails
+  }
+}
+`
+        )
+      );
+      expect(await referencesTitle()).toBe("1 reference");
+
+      project.fileWasDeleted("file:///query.graphql");
+      expect(await referencesTitle()).toBe("0 references");
+    });
+
+    it("uses the configured field costs", async () => {
+      project.config.client.complexity = {
+        fieldCosts: { "Character.friends": 5 }
+      };
+
+      const codeLenses = await provider.provideCodeLenses(
+        "file:///query.graphql",
+        token
+      );
+
+      expect(codeLenses.map(({ command }) => command!.title)).toEqual([
+        "Depth 3 · 4 fields · Cost 8"
+      ]);
+    });
+  });
+});
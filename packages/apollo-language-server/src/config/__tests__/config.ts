@@ -17,6 +17,13 @@ describe("ApolloConfig", () => {
         /\/test\/dir\/name|\\test\\dir\\name/
       );
     });
+    it("properly parses yaml filepaths for configDirURI", () => {
+      const uri = URI.parse("/test/dir/name/apollo.config.yml");
+      const config = new ApolloConfig({ service: { name: "hai" } }, uri);
+      expect(config.configDirURI.fsPath).toMatch(
+        /\/test\/dir\/name$|\\test\\dir\\name$/
+      );
+    });
     it("properly parses filepaths for configDirURI", () => {
       const uri = URI.parse("/test/dir/name/apollo.config.js");
       const config = new ApolloConfig({ service: { name: "hai" } }, uri);
@@ -58,6 +65,26 @@ describe("ApolloConfig", () => {
       expect(projects.find(c => c.isClient)).toBeTruthy();
       expect(projects.find(c => c.isService)).toBeTruthy();
     });
+
+    it("creates a config for every named project, sharing the engine config", () => {
+      const rawConfig: ApolloConfigFormat = {
+        engine: { endpoint: "https://engine.example.com" },
+        projects: {
+          web: { client: { service: "my-service", includes: ["web/**"] } },
+          api: { service: { name: "my-service" } }
+        }
+      };
+      const config = new ApolloConfig(rawConfig);
+      const [web, api] = config.projects;
+
+      expect(config.projects).toHaveLength(2);
+      expect(web.projectName).toEqual("web");
+      expect(web.isClient).toBeTruthy();
+      expect(web.client!.includes).toEqual(["web/**"]);
+      expect(web.engine.endpoint).toEqual("https://engine.example.com");
+      expect(api.projectName).toEqual("api");
+      expect(api.isService).toBeTruthy();
+    });
   });
 
   describe("tag", () => {
@@ -166,6 +166,28 @@ Object {
 
       expect(config.client.service).toEqual("hello");
     });
+
+    it("loads config from a yaml file", async () => {
+      writeFilesToDir(dir, {
+        "apollo.config.yml": `client:\n  service: hello\n  tagName: graphql\n`
+      });
+      const config = await loadConfig({ configPath: dirPath });
+
+      expect(config.client.service).toEqual("hello");
+      expect(config.client.tagName).toEqual("graphql");
+    });
+
+    it("loads config from a json file", async () => {
+      writeFilesToDir(dir, {
+        "apollo.config.json": `{"service": {"name": "hello", "localSchemaFile": "./schema.graphql"}}`
+      });
+      const config = await loadConfig({ configPath: dirPath });
+
+      expect(config.service).toMatchObject({
+        name: "hello",
+        localSchemaFile: "./schema.graphql"
+      });
+    });
   });
 
   describe("errors", () => {
@@ -224,6 +246,22 @@ Object {
       });
     });
 
+    it("reports unknown keys and values of the wrong type", async () => {
+      writeFilesToDir(dir, {
+        "my.config.js": `module.exports = { client: { service: 'hello', inclues: [], tagName: 1 } }`
+      });
+
+      const config = await loadConfig({
+        configPath: dirPath,
+        configFileName: "my.config.js"
+      });
+
+      expect(config.validationErrors.map(({ path }) => path)).toEqual([
+        ["client", "inclues"],
+        ["client", "tagName"]
+      ]);
+    });
+
     it("throws if project type cant be resolved", () => {
       writeFilesToDir(dir, {
         "my.config.js": `module.exports = {}`
@@ -256,6 +294,69 @@ Object {
       expect(config.client.service).toEqual("harambe");
     });
 
+    it("lets .env.local take precedence over .env", async () => {
+      writeFilesToDir(dir, {
+        "my.config.js": `module.exports = { client: { name: 'hello' } }`,
+        ".env": `ENGINE_API_KEY=service:harambe:54378950jn`,
+        ".env.local": `ENGINE_API_KEY=service:simba:54378950jn`
+      });
+
+      const config = await loadConfig({
+        configPath: dirPath,
+        configFileName: "my.config.js"
+      });
+
+      expect(config.client.service).toEqual("simba");
+      expect(config.engine.apiKey).toEqual("service:simba:54378950jn");
+    });
+
+    it("replaces placeholders with variables from .env files", async () => {
+      writeFilesToDir(dir, {
+        "my.config.js": `module.exports = {
+          service: {
+            endpoint: {
+              url: "\${GRAPHQL_URL}/graphql",
+              headers: { authorization: "Bearer \${TOKEN}", other: "\${UNSET_VARIABLE}" }
+            }
+          }
+        }`,
+        ".env": `GRAPHQL_URL=http://localhost:4000\nTOKEN=from-env`,
+        ".env.local": `TOKEN=from-env-local`
+      });
+
+      const config = await loadConfig({
+        configPath: dirPath,
+        configFileName: "my.config.js"
+      });
+
+      expect(config.service.endpoint).toEqual({
+        url: "http://localhost:4000/graphql",
+        headers: {
+          authorization: "Bearer from-env-local",
+          other: "${UNSET_VARIABLE}"
+        }
+      });
+    });
+
+    it("lets variables set in the environment take precedence over .env files", async () => {
+      writeFilesToDir(dir, {
+        "my.config.js": `module.exports = { service: { endpoint: { url: "\${APOLLO_TEST_URL}" } } }`,
+        ".env": `APOLLO_TEST_URL=http://from-file`
+      });
+
+      process.env.APOLLO_TEST_URL = "http://from-environment";
+      try {
+        const config = await loadConfig({
+          configPath: dirPath,
+          configFileName: "my.config.js"
+        });
+
+        expect(config.service.endpoint!.url).toEqual("http://from-environment");
+      } finally {
+        delete process.env.APOLLO_TEST_URL;
+      }
+    });
+
     // this doesn't work right now :)
     xit("finds .env in cwd & parses for key", async () => {
       writeFilesToDir(dir, {
@@ -375,6 +476,113 @@ Object {
     });
   });
 
+  describe("projects", () => {
+    const projectsConfig = `module.exports = {
+      projects: {
+        web: { client: { service: 'web-service', tagName: 'graphql' } },
+        mobile: { client: { service: 'mobile-service', includes: ['mobile/**'] } },
+        api: { service: { name: 'api-service' } }
+      }
+    }`;
+
+    it("loads the project passed in", async () => {
+      writeFilesToDir(dir, { "my.config.js": projectsConfig });
+
+      const config = await loadConfig({
+        configPath: dirPath,
+        configFileName: "my.config.js",
+        type: "client",
+        project: "mobile"
+      });
+
+      expect(config.projectName).toEqual("mobile");
+      expect(config.client.service).toEqual("mobile-service");
+      expect(config.client.includes).toEqual(["mobile/**"]);
+      expect(config.client.tagName).toEqual(DefaultClientConfig.tagName);
+      expect(config.projects).toHaveLength(1);
+    });
+
+    it("loads the only project of the type passed in", async () => {
+      writeFilesToDir(dir, { "my.config.js": projectsConfig });
+
+      const config = await loadConfig({
+        configPath: dirPath,
+        configFileName: "my.config.js",
+        type: "service"
+      });
+
+      expect(config.projectName).toEqual("api");
+      expect(config.service.name).toEqual("api-service");
+    });
+
+    it("throws if there are multiple projects of the type passed in", () => {
+      writeFilesToDir(dir, { "my.config.js": projectsConfig });
+
+      return expect(
+        loadConfig({
+          configPath: dirPath,
+          configFileName: "my.config.js",
+          type: "client"
+        })
+      ).rejects.toThrow(/"web", "mobile"/);
+    });
+
+    it("throws if the project passed in doesn't exist", () => {
+      writeFilesToDir(dir, { "my.config.js": projectsConfig });
+
+      return expect(
+        loadConfig({
+          configPath: dirPath,
+          configFileName: "my.config.js",
+          project: "desktop"
+        })
+      ).rejects.toThrow(/No project named "desktop"/);
+    });
+
+    it("loads all projects with their defaults when no type is passed in", async () => {
+      writeFilesToDir(dir, { "my.config.js": projectsConfig });
+
+      const config = await loadConfig({
+        configPath: dirPath,
+        configFileName: "my.config.js"
+      });
+
+      const projects = config.projects;
+      expect(projects.map(project => project.projectName)).toEqual([
+        "web",
+        "mobile",
+        "api"
+      ]);
+      expect(projects[0].client!.tagName).toEqual("graphql");
+      expect(projects[1].client!.includes).toEqual(["mobile/**"]);
+      expect(projects[2].service!.endpoint).toEqual(
+        DefaultServiceConfig.endpoint
+      );
+      expect(projects[2].engine.endpoint).toEqual(DefaultEngineConfig.endpoint);
+    });
+
+    it("uses the service name from the env for client projects without a service", async () => {
+      writeFilesToDir(dir, {
+        "my.config.js": `module.exports = {
+          projects: {
+            web: { client: { service: 'web-service' } },
+            mobile: { client: { includes: ['mobile/**'] } }
+          }
+        }`,
+        ".env": `ENGINE_API_KEY=service:harambe:54378950jn`
+      });
+
+      const config = await loadConfig({
+        configPath: dirPath,
+        configFileName: "my.config.js"
+      });
+
+      const [web, mobile] = config.projects;
+      expect(web.client!.service).toEqual("web-service");
+      expect(mobile.client!.service).toEqual("harambe");
+    });
+  });
+
   describe("default merging", () => {
     it("merges service name and default config for client projects", async () => {
       writeFilesToDir(dir, {
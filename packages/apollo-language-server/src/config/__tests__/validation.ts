@@ -0,0 +1,89 @@
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import { validateConfig, apolloConfigSchema } from "../";
+
+describe("validateConfig", () => {
+  it("accepts valid configs", () => {
+    expect(
+      validateConfig({
+        client: {
+          service: { name: "my-service", localSchemaFile: ["a.graphql"] },
+          includes: ["src/**/*.ts"],
+          scalars: { Date: "string", JSON: { type: "JSON", import: "./json" } },
+          mocks: { seed: 1, types: { Date: () => "2019-01-01" } }
+        },
+        engine: { apiKey: "service:my-service:123" },
+        projects: {
+          api: {
+            service: { name: "my-service", lint: { noUnusedTypes: "off" } }
+          }
+        }
+      })
+    ).toEqual([]);
+  });
+
+  it("reports unknown keys with a suggestion", () => {
+    expect(
+      validateConfig({
+        client: { service: "my-service", inclues: ["src/**/*.ts"] },
+        servce: { name: "my-service" },
+        projects: { web: { client: { tagname: "graphql" } } }
+      })
+    ).toEqual([
+      {
+        path: ["client", "inclues"],
+        message: 'Unknown key "inclues" in "client". Did you mean "includes"?'
+      },
+      {
+        path: ["servce"],
+        message: 'Unknown key "servce" in the config. Did you mean "service"?'
+      },
+      {
+        path: ["projects", "web", "client", "tagname"],
+        message:
+          'Unknown key "tagname" in "projects.web.client". Did you mean "tagName"?'
+      }
+    ]);
+  });
+
+  it("reports values of the wrong type", () => {
+    expect(
+      validateConfig({
+        client: {
+          service: 42,
+          includes: "src/**/*.ts",
+          excludes: ["**/node_modules", false]
+        },
+        service: { lint: { noUnusedTypes: "warn" } }
+      })
+    ).toEqual([
+      {
+        path: ["client", "service"],
+        message: `"client.service" should be a string or an object, but it's a number`
+      },
+      {
+        path: ["client", "includes"],
+        message: `"client.includes" should be an array, but it's a string`
+      },
+      {
+        path: ["client", "excludes", "1"],
+        message: `"client.excludes.1" should be a string, but it's a boolean`
+      },
+      {
+        path: ["service", "lint", "noUnusedTypes"],
+        message: `"service.lint.noUnusedTypes" should be one of "off", "warning", "error", but it's "warn"`
+      }
+    ]);
+  });
+
+  it("matches the published schema", () => {
+    expect(
+      JSON.parse(
+        readFileSync(
+          resolve(__dirname, "../../../apollo.config.schema.json"),
+          "utf8"
+        )
+      )
+    ).toEqual(apolloConfigSchema);
+  });
+});
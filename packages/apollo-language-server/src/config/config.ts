@@ -8,7 +8,9 @@ import {
 } from "../engine";
 import URI from "vscode-uri";
 import { WithRequired } from "apollo-env";
+import { ComplexityConfig, MocksConfig } from "apollo-graphql";
 import { getServiceName, parseServiceSpecifier } from "./utils";
+import { ConfigValidationError } from "./validation";
 
 export interface EngineStatsWindow {
   to: number;
@@ -28,11 +30,19 @@ export interface RemoteServiceConfig {
   url: EndpointURI;
   headers?: { [key: string]: string };
   skipSSLValidation?: boolean;
+  // re-introspect the endpoint every `pollInterval` milliseconds to pick up schema changes
+  pollInterval?: number;
 }
 
+export type ServiceEndpointConfig = Pick<
+  RemoteServiceConfig,
+  Exclude<keyof RemoteServiceConfig, "name">
+>;
+
 export interface LocalServiceConfig {
   name: ServiceID;
-  localSchemaFile: string;
+  // a path or glob, or a list of them, to SDL files or a single introspection result
+  localSchemaFile: string | string[];
 }
 
 export interface EngineConfig {
@@ -72,6 +82,22 @@ export interface ClientConfigFormat extends ConfigBase {
   tagName?: string;
   // stats window config
   statsWindow?: StatsWindowSize;
+  // operation complexity analysis
+  complexity?: ClientComplexityConfig;
+  // types generated for custom scalars
+  scalars?: { [scalarName: string]: ClientScalarConfig };
+  // seed and per type values of client:mocks
+  mocks?: MocksConfig;
+}
+
+// A type name, or a type with the module or package it's imported from
+export type ClientScalarConfig = string | { type: string; import?: string };
+
+export interface ClientComplexityConfig extends ComplexityConfig {
+  // client:analyze fails for operations exceeding any of these
+  maxDepth?: number;
+  maxFieldCount?: number;
+  maxCost?: number;
 }
 
 export const DefaultClientConfig = {
@@ -83,10 +109,40 @@ export const DefaultClientConfig = {
   statsWindow: DefaultEngineStatsWindow
 };
 
+export type LintSeverity = "off" | "warning" | "error";
+
+export interface ServiceLintConfig {
+  // type, interface, union, enum, input and scalar names are PascalCase
+  typeNamePascalCase?: LintSeverity;
+  // field, input field and argument names are camelCase
+  fieldNameCamelCase?: LintSeverity;
+  // enum values are ALL_CAPS
+  enumValueAllCaps?: LintSeverity;
+  // types and fields have a description
+  requireDescriptions?: LintSeverity;
+  // every @deprecated directive gives an explicit reason
+  requireDeprecationReason?: LintSeverity;
+  // every type is referenced by another type, or is a root type
+  noUnusedTypes?: LintSeverity;
+  // input object type names end with "Input"
+  inputTypeSuffix?: LintSeverity;
+}
+
+export const DefaultServiceLintConfig: Required<ServiceLintConfig> = {
+  typeNamePascalCase: "warning",
+  fieldNameCamelCase: "warning",
+  enumValueAllCaps: "warning",
+  requireDescriptions: "off",
+  requireDeprecationReason: "warning",
+  noUnusedTypes: "warning",
+  inputTypeSuffix: "off"
+};
+
 export interface ServiceConfigFormat extends ConfigBase {
   name?: string;
-  endpoint?: Exclude<RemoteServiceConfig, "name">;
-  localSchemaFile?: string;
+  endpoint?: ServiceEndpointConfig;
+  localSchemaFile?: string | string[];
+  lint?: ServiceLintConfig;
 }
 
 export const DefaultServiceConfig = {
@@ -100,11 +156,22 @@ export interface ConfigBaseFormat {
   client?: ClientConfigFormat;
   service?: ServiceConfigFormat;
   engine?: EngineConfig;
+  // named projects sharing the engine config, for repositories with several clients or services
+  projects?: { [projectName: string]: ProjectConfigFormat };
 }
 
+export type ProjectConfigFormat =
+  | { client: ClientConfigFormat }
+  | { service: ServiceConfigFormat };
+
 export type ApolloConfigFormat =
   | WithRequired<ConfigBaseFormat, "client">
-  | WithRequired<ConfigBaseFormat, "service">;
+  | WithRequired<ConfigBaseFormat, "service">
+  | WithRequired<ConfigBaseFormat, "projects">;
+
+// config files can be loaded from js, ts, yaml and json files. Configs without a file have the
+// directory they were loaded from as their URI
+const configFileExtension = /\.(js|ts|ya?ml|json)$/;
 
 export class ApolloConfig {
   public isClient: boolean;
@@ -113,9 +180,19 @@ export class ApolloConfig {
   public name?: string;
   public service?: ServiceConfigFormat;
   public client?: ClientConfigFormat;
+  // unknown keys and values of the wrong type in the config file
+  public validationErrors: ConfigValidationError[] = [];
+  // the config as written in the config file, with placeholders replaced and a project selected,
+  // but without defaults
+  public fileConfig?: { config: ApolloConfigFormat; filepath: string };
   private _tag?: string;
 
-  constructor(public rawConfig: ApolloConfigFormat, public configURI?: URI) {
+  constructor(
+    public rawConfig: ApolloConfigFormat,
+    public configURI?: URI,
+    // the key of the project in the `projects` of the config file, if it's a named project
+    public projectName?: string
+  ) {
     this.isService = !!rawConfig.service;
     this.isClient = !!rawConfig.client;
     this.engine = rawConfig.engine!;
@@ -125,17 +202,25 @@ export class ApolloConfig {
   }
 
   get configDirURI() {
-    return this.configURI && this.configURI.fsPath.includes(".js")
+    return this.configURI && configFileExtension.test(this.configURI.fsPath)
       ? URI.parse(dirname(this.configURI.fsPath))
       : this.configURI;
   }
 
-  get projects() {
+  get projects(): ApolloConfig[] {
     const configs = [];
-    const { client, service } = this.rawConfig;
+    const { client, service, engine, projects = {} } = this.rawConfig;
     if (client) configs.push(new ClientConfig(this.rawConfig, this.configURI));
     if (service)
       configs.push(new ServiceConfig(this.rawConfig, this.configURI));
+    for (const [projectName, project] of Object.entries(projects)) {
+      const rawConfig = { engine, ...project };
+      configs.push(
+        "client" in project
+          ? new ClientConfig(rawConfig, this.configURI, projectName)
+          : new ServiceConfig(rawConfig, this.configURI, projectName)
+      );
+    }
     return configs;
   }
 
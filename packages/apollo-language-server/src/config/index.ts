@@ -1,3 +1,5 @@
 export * from "./utils";
 export * from "./config";
 export * from "./loadConfig";
+export * from "./validation";
+export * from "./schema";
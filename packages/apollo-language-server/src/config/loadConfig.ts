@@ -1,9 +1,9 @@
 import cosmiconfig from "cosmiconfig";
 import { LoaderEntry } from "cosmiconfig";
 import TypeScriptLoader from "@endemolshinegroup/cosmiconfig-typescript-loader";
-import { resolve } from "path";
+import { resolve, dirname } from "path";
 import { readFileSync, existsSync, lstatSync } from "fs";
-import { merge, get } from "lodash/fp";
+import { merge, get, isPlainObject, mapValues } from "lodash/fp";
 import {
   ApolloConfig,
   ApolloConfigFormat,
@@ -13,6 +13,7 @@ import {
   DefaultEngineConfig
 } from "./config";
 import { getServiceFromKey } from "./utils";
+import { validateConfig, ConfigValidationError } from "./validation";
 import URI from "vscode-uri";
 
 // config settings
@@ -20,13 +21,18 @@ const MODULE_NAME = "apollo";
 const defaultFileNames = [
   "package.json",
   `${MODULE_NAME}.config.js`,
-  `${MODULE_NAME}.config.ts`
+  `${MODULE_NAME}.config.ts`,
+  `${MODULE_NAME}.config.yml`,
+  `${MODULE_NAME}.config.yaml`,
+  `${MODULE_NAME}.config.json`
 ];
 
 const loaders = {
   // XXX improve types for config
   ".json": (cosmiconfig as any).loadJson as LoaderEntry,
   ".js": (cosmiconfig as any).loadJs as LoaderEntry,
+  ".yml": (cosmiconfig as any).loadYaml as LoaderEntry,
+  ".yaml": (cosmiconfig as any).loadYaml as LoaderEntry,
   ".ts": {
     async: TypeScriptLoader
   }
@@ -53,6 +59,10 @@ export interface LoadConfigSettings {
   // options to build one at runtime
   name?: string;
   type?: "service" | "client";
+
+  // the key of the project to load from the `projects` of the config, for CLI usage. When it's
+  // not passed, the only project of the type passed in is loaded.
+  project?: string;
 }
 
 export type ConfigResult<T> = {
@@ -60,13 +70,16 @@ export type ConfigResult<T> = {
   filepath: string;
 } | null;
 
-// XXX load .env files automatically
+// variables in .env.local take precedence over the ones in .env
+const dotEnvFileNames = [".env", ".env.local"];
+
 export async function loadConfig({
   configPath,
   configFileName,
   requireConfig = false,
   name,
-  type
+  type,
+  project
 }: LoadConfigSettings) {
   const explorer = cosmiconfig(MODULE_NAME, {
     searchPlaces: configFileName ? [configFileName] : defaultFileNames,
@@ -111,30 +124,60 @@ export async function loadConfig({
   let engineConfig = {},
     nameFromKey;
 
-  // if there's a .env file, load it and parse for key and service name
-  const dotEnvPath = configPath
-    ? resolve(configPath, ".env")
-    : resolve(process.cwd(), ".env");
+  // if there are .env files next to the config, load them and parse for key and service name
+  const env = loadDotEnv(
+    loadedConfig ? dirname(loadedConfig.filepath) : configPath || process.cwd()
+  );
+
+  if (env["ENGINE_API_KEY"]) {
+    engineConfig = { engine: { apiKey: env["ENGINE_API_KEY"] } };
+    nameFromKey = getServiceFromKey(env["ENGINE_API_KEY"]);
+  }
+
+  // variables set in the environment take precedence over the ones in .env files
+  if (loadedConfig) {
+    loadedConfig = {
+      ...loadedConfig,
+      config: interpolateEnv(loadedConfig.config, { ...env, ...process.env })
+    };
+  }
+
+  // configs are validated as they were written, since defaults are merged into them below
+  const validationErrors: ConfigValidationError[] = loadedConfig
+    ? validateConfig(loadedConfig.config)
+    : [];
 
-  if (existsSync(dotEnvPath) && lstatSync(dotEnvPath).isFile()) {
-    const env: { [key: string]: string } = require("dotenv").parse(
-      readFileSync(dotEnvPath)
+  // SELECT PROJECT
+  // The CLI loads a single project, so a project from the `projects` of the
+  // config replaces its client and service. The editor extension loads all
+  // of them.
+  const projectName = loadedConfig
+    ? selectProjectName(loadedConfig.config, project, type)
+    : undefined;
+  if (loadedConfig && projectName) {
+    const { engine, projects } = loadedConfig.config;
+    loadedConfig = {
+      ...loadedConfig,
+      config: { engine, ...projects![projectName] } as ApolloConfigFormat
+    };
+  } else if (project) {
+    throw new Error(
+      `No project named "${project}" was found. Please add it to the projects of your Apollo config.`
     );
-    if (env["ENGINE_API_KEY"]) {
-      engineConfig = { engine: { apiKey: env["ENGINE_API_KEY"] } };
-      nameFromKey = getServiceFromKey(env["ENGINE_API_KEY"]);
-    }
   }
 
+  const fileConfig = loadedConfig || undefined;
+
   // DETERMINE PROJECT TYPE
   // The CLI passes in a type when loading config. The editor extension
   // does not. So we determine the type of the config here, and use it if
   // the type wasn't explicitly passed in.
-  let projectType: "client" | "service";
+  // Configs with only named projects don't have a type of their own.
+  let projectType: "client" | "service" | undefined;
   if (type) projectType = type;
   else if (loadedConfig && loadedConfig.config.client) projectType = "client";
   else if (loadedConfig && loadedConfig.config.service) projectType = "service";
-  else
+  else if (!(loadedConfig && loadedConfig.config.projects))
     throw new Error(
       "Unable to resolve project type. Please add either a client or service config. For more information, please refer to https://bit.ly/2ByILPj"
     );
@@ -155,9 +198,10 @@ export async function loadConfig({
   // if there was a service name found in the env, merge it with the new/existing config object.
   // if the config loaded doesn't have a client/service key, add one based on projectType
   if (
-    !loadedConfig ||
-    serviceName ||
-    !(loadedConfig.config.client || loadedConfig.config.service)
+    projectType &&
+    (!loadedConfig ||
+      serviceName ||
+      !(loadedConfig.config.client || loadedConfig.config.service))
   ) {
     loadedConfig = {
       filepath: configPath || process.cwd(),
@@ -182,16 +226,108 @@ export async function loadConfig({
     };
   }
 
-  let { config, filepath } = loadedConfig;
+  let { config, filepath } = loadedConfig!;
 
   // selectivly apply defaults when loading the config
   // this is just the includes/excludes defaults.
   // These need to go on _all_ configs. That's why this is last.
   if (config.client) config = merge({ client: DefaultClientConfig }, config);
   if (config.service) config = merge({ service: DefaultServiceConfig }, config);
+  // named client projects without a service use the one from the env, like a top-level client
+  if (config.projects) {
+    config = merge(
+      {
+        projects: mapValues(
+          project =>
+            "client" in project
+              ? { client: { ...DefaultClientConfig, service: serviceName } }
+              : { service: DefaultServiceConfig },
+          config.projects
+        )
+      },
+      config
+    );
+  }
   if (engineConfig) config = merge(engineConfig, config);
 
   config = merge({ engine: DefaultEngineConfig }, config);
 
-  return new ApolloConfig(config, URI.file(resolve(filepath)));
+  const apolloConfig = new ApolloConfig(
+    config,
+    URI.file(resolve(filepath)),
+    projectName
+  );
+  apolloConfig.validationErrors = validationErrors;
+  apolloConfig.fileConfig = fileConfig;
+  return apolloConfig;
+}
+
+function selectProjectName(
+  config: ApolloConfigFormat,
+  project?: string,
+  type?: "service" | "client"
+): string | undefined {
+  const { projects = {} } = config;
+  if (project) {
+    return Object.keys(projects).includes(project) ? project : undefined;
+  }
+  // a client or service at the top level is used when there's one of the type passed in
+  if (!type || config[type]) return undefined;
+
+  const projectsOfType = Object.keys(projects).filter(
+    projectName => type in projects[projectName]
+  );
+  if (projectsOfType.length > 1) {
+    throw new Error(
+      `Multiple ${type} projects were found in the Apollo config. Please choose one of ${projectsOfType
+        .map(projectName => `"${projectName}"`)
+        .join(", ")} with the --project flag.`
+    );
+  }
+  return projectsOfType[0];
+}
+
+function loadDotEnv(directory: string): { [key: string]: string } {
+  return dotEnvFileNames.reduce((env, fileName) => {
+    const dotEnvPath = resolve(directory, fileName);
+    if (!existsSync(dotEnvPath) || !lstatSync(dotEnvPath).isFile()) {
+      return env;
+    }
+    return { ...env, ...require("dotenv").parse(readFileSync(dotEnvPath)) };
+  }, {});
+}
+
+// Replaces `${VAR}` placeholders in the strings of the config, like endpoint urls and headers.
+// Placeholders of variables that aren't set are left as they are.
+function interpolateEnv<T>(
+  value: T,
+  env: Record<string, string | undefined>
+): T {
+  // only strings change, so the interpolated value has the same shape as the one given
+  return interpolateValue(value, env) as T;
+}
+
+function interpolateValue(
+  value: unknown,
+  env: Record<string, string | undefined>
+): unknown {
+  if (typeof value === "string") {
+    return value.replace(/\$\{(\w+)\}/g, (placeholder, name) => {
+      const variable = env[name];
+      return variable !== undefined ? variable : placeholder;
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => interpolateValue(item, env));
+  }
+  // functions and class instances in js configs are left alone
+  if (isPlainObject(value)) {
+    const object = value as { [key: string]: unknown };
+    const result: { [key: string]: unknown } = {};
+    for (const key of Object.keys(object)) {
+      result[key] = interpolateValue(object[key], env);
+    }
+    return result;
+  }
+  return value;
 }
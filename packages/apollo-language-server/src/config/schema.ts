@@ -0,0 +1,223 @@
+// A JSON Schema describing `ApolloConfigFormat`. It's used to validate configs
+// when they're loaded, and published as apollo.config.schema.json so editors
+// can complete and check configs.
+//
+// Only the subset of JSON Schema that `validateConfig` understands is used:
+// `type`, `properties`, `additionalProperties`, `items`, `enum`, `anyOf` with
+// alternatives of different types, and `$ref`s to `definitions`.
+
+export type ConfigSchemaType =
+  | "object"
+  | "array"
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean";
+
+export interface ConfigSchema {
+  $schema?: string;
+  $ref?: string;
+  title?: string;
+  description?: string;
+  type?: ConfigSchemaType;
+  properties?: { [key: string]: ConfigSchema };
+  additionalProperties?: boolean | ConfigSchema;
+  items?: ConfigSchema;
+  enum?: string[];
+  anyOf?: ConfigSchema[];
+  definitions?: { [name: string]: ConfigSchema };
+}
+
+const stringOrStringArray: ConfigSchema = {
+  anyOf: [{ type: "string" }, { type: "array", items: { type: "string" } }]
+};
+
+const stringArray: ConfigSchema = { type: "array", items: { type: "string" } };
+
+const headers: ConfigSchema = {
+  description: "Headers sent with introspection queries",
+  type: "object",
+  additionalProperties: { type: "string" }
+};
+
+const lintSeverity: ConfigSchema = {
+  type: "string",
+  enum: ["off", "warning", "error"]
+};
+
+export const apolloConfigSchema: ConfigSchema = {
+  $schema: "http://json-schema.org/draft-07/schema#",
+  title: "Apollo config",
+  type: "object",
+  properties: {
+    client: { $ref: "#/definitions/client" },
+    service: { $ref: "#/definitions/service" },
+    engine: { $ref: "#/definitions/engine" },
+    projects: {
+      description:
+        "Named client and service projects, for repositories with several of them",
+      type: "object",
+      additionalProperties: {
+        type: "object",
+        properties: {
+          client: { $ref: "#/definitions/client" },
+          service: { $ref: "#/definitions/service" }
+        },
+        additionalProperties: false
+      }
+    }
+  },
+  additionalProperties: false,
+  definitions: {
+    client: {
+      type: "object",
+      properties: {
+        service: {
+          description:
+            "The Engine service name, with an optional @tag, or the remote endpoint or local schema files of the service",
+          anyOf: [{ type: "string" }, { $ref: "#/definitions/clientService" }]
+        },
+        includes: {
+          description: "Globs of the files containing operations",
+          ...stringArray
+        },
+        excludes: {
+          description: "Globs of the files to leave out",
+          ...stringArray
+        },
+        name: { description: "The name of the client", type: "string" },
+        referenceID: { type: "string" },
+        version: { type: "string" },
+        clientOnlyDirectives: stringArray,
+        clientSchemaDirectives: stringArray,
+        addTypename: { type: "boolean" },
+        tagName: {
+          description: "The name of the template literal tag of operations",
+          type: "string"
+        },
+        statsWindow: {
+          anyOf: [
+            { type: "number" },
+            {
+              type: "object",
+              properties: { to: { type: "number" }, from: { type: "number" } },
+              additionalProperties: false
+            }
+          ]
+        },
+        complexity: {
+          description: "Operation complexity analysis",
+          type: "object",
+          properties: {
+            defaultFieldCost: { type: "number" },
+            fieldCosts: {
+              type: "object",
+              additionalProperties: { type: "number" }
+            },
+            listSizeArguments: stringArray,
+            defaultListSize: { type: "number" },
+            maxDepth: { type: "number" },
+            maxFieldCount: { type: "number" },
+            maxCost: { type: "number" }
+          },
+          additionalProperties: false
+        },
+        scalars: {
+          description: "Types generated for custom scalars",
+          type: "object",
+          additionalProperties: {
+            anyOf: [
+              { type: "string" },
+              {
+                type: "object",
+                properties: {
+                  type: { type: "string" },
+                  import: { type: "string" }
+                },
+                additionalProperties: false
+              }
+            ]
+          }
+        },
+        mocks: {
+          description: "Seed and per type values of client:mocks",
+          type: "object",
+          properties: {
+            seed: { type: "integer" },
+            listLength: { type: "integer" },
+            // functions can't be described by JSON Schema
+            types: { type: "object" }
+          },
+          additionalProperties: false
+        }
+      },
+      additionalProperties: false
+    },
+    clientService: {
+      type: "object",
+      properties: {
+        name: { type: "string" },
+        url: { description: "The endpoint to introspect", type: "string" },
+        headers,
+        skipSSLValidation: { type: "boolean" },
+        pollInterval: {
+          description:
+            "Re-introspect the endpoint every this many milliseconds",
+          type: "number"
+        },
+        localSchemaFile: {
+          description:
+            "A path or glob, or a list of them, to SDL files or a single introspection result",
+          ...stringOrStringArray
+        }
+      },
+      additionalProperties: false
+    },
+    service: {
+      type: "object",
+      properties: {
+        name: { description: "The Engine service name", type: "string" },
+        endpoint: {
+          type: "object",
+          properties: {
+            url: { type: "string" },
+            headers,
+            skipSSLValidation: { type: "boolean" },
+            pollInterval: { type: "number" }
+          },
+          additionalProperties: false
+        },
+        localSchemaFile: stringOrStringArray,
+        includes: stringArray,
+        excludes: stringArray,
+        lint: {
+          description: "The severity of service:lint rules",
+          type: "object",
+          properties: {
+            typeNamePascalCase: lintSeverity,
+            fieldNameCamelCase: lintSeverity,
+            enumValueAllCaps: lintSeverity,
+            requireDescriptions: lintSeverity,
+            requireDeprecationReason: lintSeverity,
+            noUnusedTypes: lintSeverity,
+            inputTypeSuffix: lintSeverity
+          },
+          additionalProperties: false
+        }
+      },
+      additionalProperties: false
+    },
+    engine: {
+      type: "object",
+      properties: {
+        endpoint: { type: "string" },
+        frontend: { type: "string" },
+        apiKey: {
+          description: "Prefer setting ENGINE_API_KEY in a .env file",
+          type: "string"
+        }
+      },
+      additionalProperties: false
+    }
+  }
+};
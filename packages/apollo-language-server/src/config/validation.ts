@@ -0,0 +1,136 @@
+import suggestionList from "graphql/jsutils/suggestionList";
+import { apolloConfigSchema, ConfigSchema, ConfigSchemaType } from "./schema";
+
+export interface ConfigValidationError {
+  // the keys leading to the invalid value, like ["client", "includes"]
+  path: string[];
+  message: string;
+}
+
+// Checks a config as it was written, before defaults are merged in, for unknown keys and values of
+// the wrong type
+export function validateConfig(
+  config: unknown,
+  schema: ConfigSchema = apolloConfigSchema
+): ConfigValidationError[] {
+  const errors: ConfigValidationError[] = [];
+  const { definitions = {} } = schema;
+
+  const resolve = (schema: ConfigSchema): ConfigSchema =>
+    schema.$ref
+      ? resolve(definitions[schema.$ref.replace("#/definitions/", "")])
+      : schema;
+
+  const validate = (value: unknown, schema: ConfigSchema, path: string[]) => {
+    schema = resolve(schema);
+
+    if (schema.anyOf) {
+      const alternatives = schema.anyOf.map(resolve);
+      const matching = alternatives.find(alternative =>
+        hasType(value, alternative.type)
+      );
+      if (matching) {
+        validate(value, matching, path);
+      } else {
+        errors.push({
+          path,
+          message: `${describePath(path)} should be ${listTypes(
+            alternatives.map(({ type }) => type)
+          )}, but it's ${describeType(value)}`
+        });
+      }
+      return;
+    }
+
+    if (schema.type && !hasType(value, schema.type)) {
+      errors.push({
+        path,
+        message: `${describePath(path)} should be ${listTypes([
+          schema.type
+        ])}, but it's ${describeType(value)}`
+      });
+      return;
+    }
+
+    if (schema.enum && !schema.enum.includes(value as string)) {
+      errors.push({
+        path,
+        message: `${describePath(path)} should be one of ${schema.enum
+          .map(option => JSON.stringify(option))
+          .join(", ")}, but it's ${JSON.stringify(value)}`
+      });
+      return;
+    }
+
+    if (Array.isArray(value) && schema.items) {
+      value.forEach((item, index) =>
+        validate(item, schema.items!, [...path, String(index)])
+      );
+    }
+
+    if (schema.type === "object") {
+      const object = value as { [key: string]: unknown };
+      const properties = schema.properties || {};
+
+      for (const key of Object.keys(object)) {
+        if (object[key] === undefined) continue;
+
+        if (properties[key]) {
+          validate(object[key], properties[key], [...path, key]);
+        } else if (typeof schema.additionalProperties === "object") {
+          validate(object[key], schema.additionalProperties, [...path, key]);
+        } else if (schema.additionalProperties === false) {
+          const [suggestion] = suggestionList(key, Object.keys(properties));
+          errors.push({
+            path: [...path, key],
+            message: `Unknown key "${key}" in ${describePath(path)}.${
+              suggestion ? ` Did you mean "${suggestion}"?` : ""
+            }`
+          });
+        }
+      }
+    }
+  };
+
+  validate(config, schema, []);
+  return errors;
+}
+
+function hasType(value: unknown, type?: ConfigSchemaType): boolean {
+  switch (type) {
+    case undefined:
+      return true;
+    case "object":
+      return (
+        typeof value === "object" && value !== null && !Array.isArray(value)
+      );
+    case "array":
+      return Array.isArray(value);
+    case "integer":
+      return Number.isInteger(value as number);
+    default:
+      return typeof value === type;
+  }
+}
+
+function describePath(path: string[]): string {
+  return path.length > 0 ? `"${path.join(".")}"` : "the config";
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "an array";
+  const type = typeof value;
+  return type === "object" || type === "undefined" ? `an ${type}` : `a ${type}`;
+}
+
+function listTypes(types: (ConfigSchemaType | undefined)[]): string {
+  const names = types.map(type =>
+    type === "object" || type === "array" || type === "integer"
+      ? `an ${type}`
+      : `a ${type}`
+  );
+  return names.length > 1
+    ? `${names.slice(0, -1).join(", ")} or ${names[names.length - 1]}`
+    : names[0];
+}
@@ -2,18 +2,29 @@ import {
   GraphQLSchema,
   GraphQLError,
   FragmentDefinitionNode,
-  findDeprecatedUsages,
   isExecutableDefinitionNode
 } from "graphql";
 
-import { Diagnostic, DiagnosticSeverity } from "vscode-languageserver";
+import {
+  Diagnostic,
+  DiagnosticSeverity,
+  Position,
+  Range
+} from "vscode-languageserver";
 
 import { GraphQLDocument } from "./document";
 import { highlightNodeForNode } from "./utilities/graphql";
-import { rangeForASTNode } from "./utilities/source";
+import { rangeForASTNode, rangeInContainingDocument } from "./utilities/source";
+import { getRange as rangeOfTokenAtLocation } from "@apollographql/graphql-language-service-interface/dist/getDiagnostics";
 
 import { getValidationErrors } from "./errors/validation";
+import { findDeprecatedUsages } from "./errors/deprecations";
 import { DocumentUri } from "./project/base";
+import { ConfigValidationError } from "./config";
+
+// `DiagnosticTag.Deprecated` from version 3.15 of the protocol, which vscode-languageserver doesn't define yet.
+// Clients supporting it render the deprecated usage struck through.
+export const DeprecatedDiagnosticTag = 2;
 
 /**
  * Build an array of code diagnostics for all executable definitions in a document.
@@ -43,12 +54,16 @@ export function collectExecutableDefinitionDiagnositics(
     );
   }
 
-  for (const error of findDeprecatedUsages(
+  for (const { error } of findDeprecatedUsages(
     schema,
     astWithExecutableDefinitions
   )) {
     diagnostics.push(
-      ...diagnosticsFromError(error, DiagnosticSeverity.Warning, "Deprecation")
+      ...diagnosticsFromError(
+        error,
+        DiagnosticSeverity.Warning,
+        "Deprecation"
+      ).map(diagnostic => ({ ...diagnostic, tags: [DeprecatedDiagnosticTag] }))
     );
   }
 
@@ -61,7 +76,19 @@ export function diagnosticsFromError(
   type: string
 ): Diagnostic[] {
   if (!error.nodes) {
-    return [];
+    // Errors like syntax errors only have a location in their source
+    if (!error.source || !error.locations) return [];
+    const source = error.source;
+
+    return error.locations.map(location => ({
+      source: `GraphQL: ${type}`,
+      message: error.message,
+      severity,
+      range: rangeInContainingDocument(
+        source,
+        rangeOfTokenAtLocation(location, source.body)
+      )
+    }));
   }
 
   return error.nodes.map(node => {
@@ -74,6 +101,118 @@ export function diagnosticsFromError(
   });
 }
 
+// The config isn't parsed, so errors are reported on the last key of their path that's found by
+// scanning the text for each key in the object following the key before it, or in the block
+// indented below it in YAML configs
+export function diagnosticsFromConfigValidationErrors(
+  text: string,
+  errors: ConfigValidationError[],
+  isYaml: boolean = false
+): Diagnostic[] {
+  const findKey = isYaml ? findYamlKey : findObjectKey;
+  const positionAt = (offset: number): Position => {
+    const lines = text.slice(0, offset).split("\n");
+    return Position.create(lines.length - 1, lines[lines.length - 1].length);
+  };
+
+  return errors.map(({ path, message }) => {
+    let range = Range.create(0, 0, 0, 0);
+    let offset = 0;
+    for (const key of path) {
+      const start = findKey(text, offset, key);
+      if (start === undefined) break;
+
+      range = Range.create(positionAt(start), positionAt(start + key.length));
+      offset = start + key.length;
+    }
+
+    return {
+      source: "Apollo: Config",
+      message,
+      severity: DiagnosticSeverity.Warning,
+      range
+    };
+  });
+}
+
+// The offset of `key` in the first object literal after `from`, skipping nested objects, arrays
+// and strings
+function findObjectKey(
+  text: string,
+  from: number,
+  key: string
+): number | undefined {
+  const keyPattern = new RegExp(`(["']?)${escapeRegExp(key)}\\1\\s*:`, "y");
+  const matchesAt = (index: number) => {
+    keyPattern.lastIndex = index;
+    const match = keyPattern.exec(text);
+    return match ? index + match[1].length : undefined;
+  };
+
+  let depth = 0;
+  for (let index = from; index < text.length; index++) {
+    const char = text[index];
+
+    if (char === '"' || char === "'" || char === "`") {
+      const start = depth === 1 ? matchesAt(index) : undefined;
+      if (start !== undefined) return start;
+
+      // skip to the end of the string
+      for (index++; index < text.length && text[index] !== char; index++) {
+        if (text[index] === "\\") index++;
+      }
+    } else if (char === "{" || char === "[") {
+      depth++;
+    } else if (char === "}" || char === "]") {
+      depth--;
+      if (depth < 1) return undefined;
+    } else if (depth === 1 && !/[\w$]/.test(text[index - 1] || "")) {
+      const start = matchesAt(index);
+      if (start !== undefined) return start;
+    }
+  }
+
+  return undefined;
+}
+
+// The offset of `key` in the block of lines indented below the line of `from`, or at the top level
+// when `from` is 0. Keys of flow mappings (`{ key: value }`) aren't found.
+function findYamlKey(
+  text: string,
+  from: number,
+  key: string
+): number | undefined {
+  const keyPattern = new RegExp(`^ *(["']?)${escapeRegExp(key)}\\1 *:`);
+  const parentIndent =
+    from === 0 ? -1 : text.slice(text.lastIndexOf("\n", from) + 1).search(/\S/);
+
+  let childIndent: number | undefined;
+  let offset = from === 0 ? 0 : text.indexOf("\n", from) + 1 || text.length;
+  while (offset < text.length) {
+    const end = text.indexOf("\n", offset);
+    const line = text.slice(offset, end === -1 ? text.length : end);
+    const indent = line.search(/\S/);
+
+    // blank lines and comments don't end blocks
+    if (indent !== -1 && line[indent] !== "#") {
+      if (indent <= parentIndent) return undefined;
+      if (childIndent === undefined) childIndent = indent;
+
+      const match = indent === childIndent && keyPattern.exec(line);
+      if (match) return offset + indent + match[1].length;
+    }
+
+    if (end === -1) break;
+    offset = end + 1;
+  }
+
+  return undefined;
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
 export class DiagnosticSet {
   private diagnosticsByFile = new Map<DocumentUri, Diagnostic[]>();
 
@@ -84,7 +223,8 @@ export class DiagnosticSet {
   addDiagnostics(uri: DocumentUri, diagnostics: Diagnostic[]) {
     const existingDiagnostics = this.diagnosticsByFile.get(uri);
     if (!existingDiagnostics) {
-      this.diagnosticsByFile.set(uri, diagnostics);
+      // copied, because the arrays we're given (like a document's syntax errors) outlive the set
+      this.diagnosticsByFile.set(uri, [...diagnostics]);
     } else {
       existingDiagnostics.push(...diagnostics);
     }
@@ -0,0 +1,75 @@
+import {
+  buildSchema,
+  buildClientSchema,
+  introspectionFromSchema,
+  parse
+} from "graphql";
+import { findDeprecatedUsages } from "../deprecations";
+
+const schema = buildSchema(`
+  directive @deprecated(
+    reason: String = "No longer supported"
+  ) on FIELD_DEFINITION | ENUM_VALUE | ARGUMENT_DEFINITION
+
+  type Query {
+    user(id: ID, name: String @deprecated(reason: "Use id")): User
+    users(role: Role): [User]
+  }
+
+  type User {
+    id: ID!
+    name: String @deprecated(reason: "Use fullName")
+    fullName: String
+    role: Role @deprecated
+  }
+
+  enum Role {
+    ADMIN
+    MEMBER
+    GUEST @deprecated(reason: "Guests have been removed")
+  }
+`);
+
+const document = parse(`
+  query Users {
+    user(name: "apollo") {
+      id
+      name
+      fullName
+    }
+    users(role: GUEST) {
+      role
+    }
+  }
+`);
+
+const format = (usages: ReturnType<typeof findDeprecatedUsages>) =>
+  usages.map(
+    ({ kind, coordinate, error }) =>
+      `${kind} ${coordinate} ${error.locations![0].line}: ${error.message}`
+  );
+
+describe("findDeprecatedUsages", () => {
+  it("reports deprecated fields, arguments and enum values", () => {
+    expect(format(findDeprecatedUsages(schema, document))).toEqual([
+      "argument Query.user(name:) 3: The argument Query.user(name:) is deprecated. Use id",
+      "field User.name 5: The field User.name is deprecated. Use fullName",
+      "enumValue Role.GUEST 8: The enum value Role.GUEST is deprecated. Guests have been removed",
+      "field User.role 9: The field User.role is deprecated. No longer supported"
+    ]);
+  });
+
+  it("only reports fields and enum values for introspection schemas", () => {
+    const clientSchema = buildClientSchema(introspectionFromSchema(schema));
+
+    expect(
+      findDeprecatedUsages(clientSchema, document).map(
+        ({ coordinate, reason }) => ({ coordinate, reason })
+      )
+    ).toEqual([
+      { coordinate: "User.name", reason: "Use fullName" },
+      { coordinate: "Role.GUEST", reason: "Guests have been removed" },
+      { coordinate: "User.role", reason: "No longer supported" }
+    ]);
+  });
+});
@@ -0,0 +1,89 @@
+import { parse } from "graphql";
+import { getLintErrors } from "../lint";
+
+const document = parse(`
+  type Query {
+    me: user
+    Friends(First: Int): [user] @deprecated
+  }
+
+  type user {
+    id: ID!
+    name: String @deprecated(reason: "Use fullName")
+    role: Role
+  }
+
+  type Orphan {
+    id: ID!
+  }
+
+  enum Role {
+    ADMIN
+    regularUser
+  }
+
+  input UserFilter {
+    role: Role
+  }
+
+  type Mutation {
+    updateUsers(filter: UserFilter): [user]
+  }
+`);
+
+const format = (errors: ReturnType<typeof getLintErrors>) =>
+  errors.map(
+    ({ rule, severity, error }) => `${severity} ${rule}: ${error.message}`
+  );
+
+describe("getLintErrors", () => {
+  it("reports problems with the default rule set", () => {
+    expect(format(getLintErrors(document))).toMatchInlineSnapshot(`
+Array [
+  "warning fieldNameCamelCase: Field \\"Friends\\" should be camelCase.",
+  "warning fieldNameCamelCase: Argument or input field \\"First\\" should be camelCase.",
+  "warning requireDeprecationReason: Deprecations should include a reason, i.e. @deprecated(reason: \\"Use \`newField\`\\").",
+  "warning typeNamePascalCase: Type \\"user\\" should be PascalCase.",
+  "warning enumValueAllCaps: Enum value \\"regularUser\\" should be ALL_CAPS.",
+  "warning noUnusedTypes: Type \\"Orphan\\" is never used.",
+]
+`);
+  });
+
+  it("respects configured rules and severities", () => {
+    expect(
+      format(
+        getLintErrors(document, {
+          typeNamePascalCase: "error",
+          fieldNameCamelCase: "off",
+          enumValueAllCaps: "off",
+          requireDeprecationReason: "off",
+          noUnusedTypes: "off",
+          inputTypeSuffix: "warning"
+        })
+      )
+    ).toMatchInlineSnapshot(`
+Array [
+  "error typeNamePascalCase: Type \\"user\\" should be PascalCase.",
+  "warning inputTypeSuffix: Input type \\"UserFilter\\" should end with \\"Input\\".",
+]
+`);
+  });
+
+  it("reports missing descriptions when enabled", () => {
+    const errors = getLintErrors(
+      parse(`
+        "The root query"
+        type Query {
+          "The current user"
+          me: String
+          you: String
+        }
+      `),
+      { requireDescriptions: "error" }
+    );
+    expect(format(errors)).toEqual([
+      'error requireDescriptions: Field "you" is missing a description.'
+    ]);
+  });
+});
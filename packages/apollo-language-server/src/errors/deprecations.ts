@@ -0,0 +1,115 @@
+import {
+  ASTNode,
+  DocumentNode,
+  GraphQLArgument,
+  GraphQLError,
+  GraphQLSchema,
+  TypeInfo,
+  getDirectiveValues,
+  getNamedType,
+  visit,
+  visitWithTypeInfo,
+  GraphQLDeprecatedDirective
+} from "graphql";
+
+export type DeprecatedUsageKind = "field" | "argument" | "enumValue";
+
+export interface DeprecatedUsage {
+  kind: DeprecatedUsageKind;
+  // "Type.field", "Type.field(argument:)" or "Enum.VALUE"
+  coordinate: string;
+  reason?: string;
+  error: GraphQLError;
+}
+
+/**
+ * Find the deprecated fields, arguments and enum values used in the executable definitions of a document.
+ *
+ * Like graphql-js' `findDeprecatedUsages`, but deprecated arguments are reported too. Arguments can only be
+ * deprecated in SDL, so they are only found in schemas built from SDL that allows `@deprecated` on them.
+ */
+export function findDeprecatedUsages(
+  schema: GraphQLSchema,
+  document: DocumentNode
+): DeprecatedUsage[] {
+  const usages: DeprecatedUsage[] = [];
+  const typeInfo = new TypeInfo(schema);
+
+  const report = (
+    kind: DeprecatedUsageKind,
+    coordinate: string,
+    reason: string | undefined,
+    node: ASTNode
+  ) => {
+    const label = kind === "enumValue" ? "enum value" : kind;
+    usages.push({
+      kind,
+      coordinate,
+      reason,
+      error: new GraphQLError(
+        `The ${label} ${coordinate} is deprecated.` +
+          (reason ? ` ${reason}` : ""),
+        [node]
+      )
+    });
+  };
+
+  visit(
+    document,
+    visitWithTypeInfo(typeInfo, {
+      Field(node) {
+        const fieldDef = typeInfo.getFieldDef();
+        const parentType = typeInfo.getParentType();
+        if (fieldDef && fieldDef.isDeprecated && parentType) {
+          report(
+            "field",
+            `${parentType.name}.${fieldDef.name}`,
+            fieldDef.deprecationReason || undefined,
+            node
+          );
+        }
+      },
+      Argument(node) {
+        const argument = typeInfo.getArgument();
+        const fieldDef = typeInfo.getFieldDef();
+        const parentType = typeInfo.getParentType();
+        const reason = argument && argumentDeprecationReason(argument);
+        if (argument && reason !== null && fieldDef && parentType) {
+          report(
+            "argument",
+            `${parentType.name}.${fieldDef.name}(${argument.name}:)`,
+            reason,
+            node
+          );
+        }
+      },
+      EnumValue(node) {
+        const enumValue = typeInfo.getEnumValue();
+        const inputType = typeInfo.getInputType();
+        const type = inputType && getNamedType(inputType);
+        if (enumValue && enumValue.isDeprecated && type) {
+          report(
+            "enumValue",
+            `${type.name}.${enumValue.name}`,
+            enumValue.deprecationReason || undefined,
+            node
+          );
+        }
+      }
+    })
+  );
+
+  return usages;
+}
+
+// Returns null when the argument isn't deprecated
+function argumentDeprecationReason(
+  argument: GraphQLArgument
+): string | undefined | null {
+  if (!argument.astNode) return null;
+  const deprecated = getDirectiveValues(
+    GraphQLDeprecatedDirective,
+    argument.astNode
+  );
+  return deprecated ? deprecated.reason : null;
+}
@@ -0,0 +1,240 @@
+import {
+  ASTVisitor,
+  DocumentNode,
+  GraphQLError,
+  NameNode,
+  TypeDefinitionNode,
+  StringValueNode,
+  visit,
+  visitInParallel
+} from "graphql";
+
+import {
+  ServiceLintConfig,
+  DefaultServiceLintConfig,
+  LintSeverity
+} from "../config";
+
+export type LintRuleName = keyof ServiceLintConfig;
+
+export interface LintError {
+  rule: LintRuleName;
+  severity: Exclude<LintSeverity, "off">;
+  error: GraphQLError;
+}
+
+interface LintContext {
+  reportError(error: GraphQLError): void;
+}
+
+type LintRule = (context: LintContext) => ASTVisitor;
+
+/**
+ * Run the lint rules enabled in `config` over the type system definitions in a document.
+ */
+export function getLintErrors(
+  document: DocumentNode,
+  config: ServiceLintConfig = {}
+): LintError[] {
+  const severities = { ...DefaultServiceLintConfig, ...config };
+  const errors: LintError[] = [];
+
+  const visitors = [];
+  for (const rule of Object.keys(lintRules) as LintRuleName[]) {
+    const severity = severities[rule];
+    if (!severity || severity === "off") continue;
+
+    visitors.push(
+      lintRules[rule]({
+        reportError: error => errors.push({ rule, severity, error })
+      })
+    );
+  }
+
+  visit(document, visitInParallel(visitors));
+  return errors;
+}
+
+const rootTypeNames = ["Query", "Mutation", "Subscription"];
+
+export function TypeNamePascalCase(context: LintContext): ASTVisitor {
+  const checkName = (node: TypeDefinitionNode) => {
+    if (!/^[A-Z][a-zA-Z0-9]*$/.test(node.name.value)) {
+      context.reportError(
+        new GraphQLError(
+          `Type "${node.name.value}" should be PascalCase.`,
+          node.name
+        )
+      );
+    }
+  };
+
+  return {
+    ObjectTypeDefinition: checkName,
+    InterfaceTypeDefinition: checkName,
+    UnionTypeDefinition: checkName,
+    EnumTypeDefinition: checkName,
+    InputObjectTypeDefinition: checkName,
+    ScalarTypeDefinition: checkName
+  };
+}
+
+export function FieldNameCamelCase(context: LintContext): ASTVisitor {
+  const checkName = (kind: string) => (node: { name: NameNode }) => {
+    // Leading underscores are allowed for internal fields like `_service`
+    if (!/^_*[a-z][a-zA-Z0-9]*$/.test(node.name.value)) {
+      context.reportError(
+        new GraphQLError(
+          `${kind} "${node.name.value}" should be camelCase.`,
+          node.name
+        )
+      );
+    }
+  };
+
+  return {
+    FieldDefinition: checkName("Field"),
+    InputValueDefinition: checkName("Argument or input field")
+  };
+}
+
+export function EnumValueAllCaps(context: LintContext): ASTVisitor {
+  return {
+    EnumValueDefinition(node) {
+      if (!/^[A-Z][A-Z0-9_]*$/.test(node.name.value)) {
+        context.reportError(
+          new GraphQLError(
+            `Enum value "${node.name.value}" should be ALL_CAPS.`,
+            node.name
+          )
+        );
+      }
+    }
+  };
+}
+
+export function RequireDescriptions(context: LintContext): ASTVisitor {
+  const checkDescription = (
+    kind: string,
+    node: { name: NameNode; description?: StringValueNode }
+  ) => {
+    if (!node.description || !node.description.value.trim()) {
+      context.reportError(
+        new GraphQLError(
+          `${kind} "${node.name.value}" is missing a description.`,
+          node.name
+        )
+      );
+    }
+  };
+
+  const checkType = (node: TypeDefinitionNode) =>
+    checkDescription("Type", node);
+
+  return {
+    ObjectTypeDefinition: checkType,
+    InterfaceTypeDefinition: checkType,
+    UnionTypeDefinition: checkType,
+    EnumTypeDefinition: checkType,
+    ScalarTypeDefinition: checkType,
+    InputObjectTypeDefinition(node) {
+      checkType(node);
+      for (const field of node.fields || []) {
+        checkDescription("Input field", field);
+      }
+    },
+    FieldDefinition(node) {
+      checkDescription("Field", node);
+    }
+  };
+}
+
+export function RequireDeprecationReason(context: LintContext): ASTVisitor {
+  return {
+    Directive(node) {
+      if (node.name.value !== "deprecated") return;
+
+      const reason = (node.arguments || []).find(
+        argument => argument.name.value === "reason"
+      );
+      if (
+        !reason ||
+        reason.value.kind !== "StringValue" ||
+        !reason.value.value.trim()
+      ) {
+        context.reportError(
+          new GraphQLError(
+            'Deprecations should include a reason, i.e. @deprecated(reason: "Use `newField`").',
+            node
+          )
+        );
+      }
+    }
+  };
+}
+
+export function NoUnusedTypes(context: LintContext): ASTVisitor {
+  const definedTypes: TypeDefinitionNode[] = [];
+  const usedTypeNames = new Set<string>(rootTypeNames);
+
+  const defineType = (node: TypeDefinitionNode) => {
+    definedTypes.push(node);
+  };
+
+  return {
+    ObjectTypeDefinition(node) {
+      defineType(node);
+      // Types implementing an interface are reachable as its possible types
+      if (node.interfaces && node.interfaces.length > 0) {
+        usedTypeNames.add(node.name.value);
+      }
+    },
+    InterfaceTypeDefinition: defineType,
+    UnionTypeDefinition: defineType,
+    EnumTypeDefinition: defineType,
+    InputObjectTypeDefinition: defineType,
+    ScalarTypeDefinition: defineType,
+    NamedType(node) {
+      usedTypeNames.add(node.name.value);
+    },
+    Document: {
+      leave() {
+        for (const node of definedTypes) {
+          if (usedTypeNames.has(node.name.value)) continue;
+
+          context.reportError(
+            new GraphQLError(
+              `Type "${node.name.value}" is never used.`,
+              node.name
+            )
+          );
+        }
+      }
+    }
+  };
+}
+
+export function InputTypeSuffix(context: LintContext): ASTVisitor {
+  return {
+    InputObjectTypeDefinition(node) {
+      if (!node.name.value.endsWith("Input")) {
+        context.reportError(
+          new GraphQLError(
+            `Input type "${node.name.value}" should end with "Input".`,
+            node.name
+          )
+        );
+      }
+    }
+  };
+}
+
+const lintRules: { [rule in LintRuleName]: LintRule } = {
+  typeNamePascalCase: TypeNamePascalCase,
+  fieldNameCamelCase: FieldNameCamelCase,
+  enumValueAllCaps: EnumValueAllCaps,
+  requireDescriptions: RequireDescriptions,
+  requireDeprecationReason: RequireDeprecationReason,
+  noUnusedTypes: NoUnusedTypes,
+  inputTypeSuffix: InputTypeSuffix
+};
@@ -1,6 +1,12 @@
 // Exports for consuming APIs
 
 export { getValidationErrors } from "./errors/validation";
+export { getLintErrors, LintError } from "./errors/lint";
+export {
+  findDeprecatedUsages,
+  DeprecatedUsage,
+  DeprecatedUsageKind
+} from "./errors/deprecations";
 export { ToolError } from "./errors/logger";
 export { LoadingHandler } from "./loadingHandler";
 
@@ -12,7 +18,9 @@ export { isServiceProject, GraphQLServiceProject } from "./project/service";
 // GraphQLSchemaProvider
 export {
   GraphQLSchemaProvider,
-  schemaProviderFromConfig
+  schemaProviderFromConfig,
+  SchemaCacheOptions,
+  defaultSchemaCacheDirectory
 } from "./schema/providers";
 
 // Engine
@@ -21,6 +29,9 @@ export * from "./engine";
 // Config
 export * from "./config";
 
+// Utilities
+export { mkdirRecursive } from "./utilities/fs";
+
 // Generated types
 import * as graphqlTypes from "./graphqlTypes";
 export { graphqlTypes };
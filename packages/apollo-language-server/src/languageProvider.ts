@@ -6,11 +6,19 @@ import {
   Hover,
   Definition,
   CodeLens,
+  Command,
   ReferenceContext,
   InsertTextFormat,
   DocumentSymbol,
   SymbolKind,
-  SymbolInformation
+  SymbolInformation,
+  Range,
+  TextEdit,
+  WorkspaceEdit,
+  CodeAction,
+  CodeActionContext,
+  CodeActionKind,
+  Diagnostic
 } from "vscode-languageserver";
 
 // should eventually be moved into this package, since we're overriding a lot of the existing behavior here
@@ -27,7 +35,8 @@ import {
   positionFromPositionInContainingDocument,
   rangeForASTNode,
   getASTNodeAndTypeInfoAtPosition,
-  positionToOffset
+  positionToOffset,
+  positionForOffset
 } from "./utilities/source";
 
 import {
@@ -50,12 +59,23 @@ import {
   visit,
   isExecutableDefinitionNode,
   isTypeSystemDefinitionNode,
-  isTypeSystemExtensionNode
+  isTypeSystemExtensionNode,
+  NameNode,
+  OperationDefinitionNode,
+  VariableNode,
+  DefinitionNode,
+  DocumentNode,
+  FragmentDefinitionNode,
+  TypeInfo,
+  ValidationContext,
+  print
 } from "graphql";
 import { highlightNodeForNode } from "./utilities/graphql";
+import { GraphQLDocument } from "./document";
 
 import { GraphQLClientProject, isClientProject } from "./project/client";
 import { isNotNullOrUndefined } from "@apollographql/apollo-tools";
+import { operationComplexity } from "apollo-graphql";
 
 function hasFields(type: GraphQLType): boolean {
   return (
@@ -79,6 +99,378 @@ function locationForASTNode(node: ASTNode): Location | null {
   return Location.create(uri, rangeForASTNode(node));
 }
 
+function containsOffset(node: ASTNode, offset: number): boolean {
+  return !!node.loc && node.loc.start <= offset && offset <= node.loc.end;
+}
+
+// All nodes containing the offset, from the definition to the innermost node.
+// Like `getASTNodeAndTypeInfoAtPosition`, we're interested in the parents of names.
+function nodesContainingOffset(
+  document: DocumentNode,
+  offset: number
+): [DefinitionNode, ...ASTNode[]] | null {
+  const definition = document.definitions.find(definition =>
+    containsOffset(definition, offset)
+  );
+  if (!definition) return null;
+
+  const nodes: [DefinitionNode, ...ASTNode[]] = [definition];
+  visit(definition, {
+    enter(node: ASTNode) {
+      if (node.kind === Kind.NAME || !containsOffset(node, offset)) {
+        return false;
+      }
+      if (node !== definition) nodes.push(node);
+      return;
+    }
+  });
+  return nodes;
+}
+
+interface NodeEdit {
+  // the node determines which file the edit applies to
+  node: ASTNode;
+  edit: TextEdit;
+}
+
+function workspaceEditForNodes(edits: NodeEdit[]): WorkspaceEdit {
+  const changes: { [uri: string]: TextEdit[] } = {};
+  for (const { node, edit } of edits) {
+    const uri = uriForASTNode(node);
+    if (!uri) continue;
+    (changes[uri] || (changes[uri] = [])).push(edit);
+  }
+  return { changes };
+}
+
+// Fragments spread by a definition, including the fragments spread by those fragments
+function fragmentsReferencedBy(
+  definition: DefinitionNode,
+  fragments: { [fragmentName: string]: FragmentDefinitionNode }
+): FragmentDefinitionNode[] {
+  const referenced = new Set<FragmentDefinitionNode>();
+  const search = (node: ASTNode) => {
+    visit(node, {
+      FragmentSpread(spread) {
+        const fragment = fragments[spread.name.value];
+        if (fragment && !referenced.has(fragment)) {
+          referenced.add(fragment);
+          search(fragment);
+        }
+      }
+    });
+  };
+  search(definition);
+  return Array.from(referenced);
+}
+
+function rangeForOffsets(node: ASTNode, start: number, end: number): Range {
+  const source = node.loc!.source;
+  return Range.create(
+    positionForOffset(source, start),
+    positionForOffset(source, end)
+  );
+}
+
+// Validation messages we offer quick fixes for, as worded by graphql-js
+const fieldSuggestionRegExp = /^Cannot query field "\w+" on type "\w+"\. Did you mean ((?:"\w+"(?:,? or |, )?)+)\?$/;
+const requiredArgumentRegExp = /^(?:Field "\w+"|Directive "@\w+") argument "(\w+)" of type "(.+)" is required but not provided\.$/;
+const undefinedVariableRegExp = /^Variable "\$(\w+)" is not defined(?: by operation "(\w+)")?\.$/;
+const unusedVariableRegExp = /^Variable "\$(\w+)" is never used(?: in operation "(\w+)")?\.$/;
+
+function quickFixesForDiagnostic(
+  project: GraphQLClientProject,
+  document: GraphQLDocument,
+  diagnostic: Diagnostic
+): CodeAction[] {
+  const quickFix = (title: string, edits: NodeEdit[]): CodeAction => ({
+    title,
+    kind: CodeActionKind.QuickFix,
+    diagnostics: [diagnostic],
+    edit: workspaceEditForNodes(edits)
+  });
+
+  const offset = positionToOffset(
+    document.source,
+    positionFromPositionInContainingDocument(
+      document.source,
+      diagnostic.range.start
+    )
+  );
+  const nodes = nodesContainingOffset(document.ast!, offset);
+  if (!nodes) return [];
+  const [definition] = nodes;
+  const node = nodes[nodes.length - 1];
+
+  let match = fieldSuggestionRegExp.exec(diagnostic.message);
+  if (match && node.kind === Kind.FIELD) {
+    const suggestions = match[1].match(/\w+/g)!.filter(word => word !== "or");
+    return suggestions.map(suggestion =>
+      quickFix(`Change to "${suggestion}"`, [
+        {
+          node,
+          edit: TextEdit.replace(rangeForASTNode(node.name), suggestion)
+        }
+      ])
+    );
+  }
+
+  match = requiredArgumentRegExp.exec(diagnostic.message);
+  if (match && (node.kind === Kind.FIELD || node.kind === Kind.DIRECTIVE)) {
+    const [, name, type] = match;
+    const argument = `${name}: $${name}`;
+    const edits: NodeEdit[] = [
+      node.arguments && node.arguments.length > 0
+        ? {
+            node,
+            edit: TextEdit.insert(
+              rangeForASTNode(node.arguments[node.arguments.length - 1]).end,
+              `, ${argument}`
+            )
+          }
+        : {
+            node,
+            edit: TextEdit.insert(
+              rangeForASTNode(node.name).end,
+              `(${argument})`
+            )
+          }
+    ];
+    // Variables used in fragments have to be declared by the operations spreading them
+    if (definition.kind === Kind.OPERATION_DEFINITION) {
+      edits.push(...variableDeclarationEdits(definition, name, type));
+    }
+    return [quickFix(`Add argument "${name}"`, edits)];
+  }
+
+  match = undefinedVariableRegExp.exec(diagnostic.message);
+  if (match) {
+    const [, name, operationName] = match;
+    const operation = operationForDiagnostic(
+      project,
+      definition,
+      operationName
+    );
+    const schema = project.schema;
+    if (!(operation && schema)) return [];
+
+    const context = new ValidationContext(
+      schema,
+      {
+        kind: Kind.DOCUMENT,
+        definitions: [operation, ...Object.values(project.fragments)]
+      },
+      new TypeInfo(schema)
+    );
+    const usage = context
+      .getRecursiveVariableUsages(operation)
+      .find(usage => usage.node.name.value === name);
+    if (!(usage && usage.type)) return [];
+
+    return [
+      quickFix(
+        `Declare "$${name}: ${usage.type}"`,
+        variableDeclarationEdits(operation, name, String(usage.type))
+      )
+    ];
+  }
+
+  match = unusedVariableRegExp.exec(diagnostic.message);
+  if (match) {
+    const [, name, operationName] = match;
+    const operation = operationForDiagnostic(
+      project,
+      definition,
+      operationName
+    );
+    if (!(operation && operation.variableDefinitions)) return [];
+
+    const variableDefinitions = operation.variableDefinitions;
+    const index = variableDefinitions.findIndex(
+      variableDefinition => variableDefinition.variable.name.value === name
+    );
+    if (index === -1) return [];
+
+    const body = operation.loc!.source.body;
+    const variableDefinition = variableDefinitions[index].loc!;
+    let start: number, end: number;
+    if (variableDefinitions.length === 1) {
+      // remove the parentheses along with the last variable
+      start = body.lastIndexOf("(", variableDefinition.start);
+      end = body.indexOf(")", variableDefinition.end) + 1;
+    } else if (index < variableDefinitions.length - 1) {
+      start = variableDefinition.start;
+      end = variableDefinitions[index + 1].loc!.start;
+    } else {
+      start = variableDefinitions[index - 1].loc!.end;
+      end = variableDefinition.end;
+    }
+
+    return [
+      quickFix(`Remove unused variable "$${name}"`, [
+        {
+          node: operation,
+          edit: TextEdit.del(rangeForOffsets(operation, start, end))
+        }
+      ])
+    ];
+  }
+
+  return [];
+}
+
+function operationForDiagnostic(
+  project: GraphQLClientProject,
+  definition: DefinitionNode,
+  operationName?: string
+): OperationDefinitionNode | undefined {
+  if (!operationName) {
+    return definition.kind === Kind.OPERATION_DEFINITION
+      ? definition
+      : undefined;
+  }
+  // The diagnostic might be reported on a usage in a fragment in another file
+  return project.definitions.find(
+    (definition): definition is OperationDefinitionNode =>
+      definition.kind === Kind.OPERATION_DEFINITION &&
+      !!definition.name &&
+      definition.name.value === operationName
+  );
+}
+
+function variableDeclarationEdits(
+  operation: OperationDefinitionNode,
+  name: string,
+  type: string
+): NodeEdit[] {
+  const variableDefinitions = operation.variableDefinitions || [];
+  if (
+    variableDefinitions.some(
+      variableDefinition => variableDefinition.variable.name.value === name
+    )
+  ) {
+    return [];
+  }
+
+  const declaration = `$${name}: ${type}`;
+  if (variableDefinitions.length > 0) {
+    return [
+      {
+        node: operation,
+        edit: TextEdit.insert(
+          rangeForASTNode(variableDefinitions[variableDefinitions.length - 1])
+            .end,
+          `, ${declaration}`
+        )
+      }
+    ];
+  }
+  // Anonymous operations aren't supported by Apollo, so there's nowhere to put the variables
+  if (!operation.name) return [];
+  return [
+    {
+      node: operation,
+      edit: TextEdit.insert(
+        rangeForASTNode(operation.name).end,
+        `(${declaration})`
+      )
+    }
+  ];
+}
+
+// Fixes that don't correspond to a validation error, like removing fragments that
+// aren't spread anywhere (we don't validate that since fragments can be spread across files).
+function codeActionsAtOffset(
+  project: GraphQLClientProject,
+  document: GraphQLDocument,
+  offset: number
+): CodeAction[] {
+  const nodes = nodesContainingOffset(document.ast!, offset);
+  if (!nodes) return [];
+  const codeActions: CodeAction[] = [];
+
+  const [definition] = nodes;
+  if (
+    definition.kind === Kind.FRAGMENT_DEFINITION &&
+    project.fragmentSpreadsForFragment(definition.name.value).length === 0
+  ) {
+    const body = document.source.body;
+    const { start } = definition.loc!;
+    let { end } = definition.loc!;
+    while (end < body.length && /\s/.test(body[end])) end++;
+
+    codeActions.push({
+      title: `Remove unused fragment "${definition.name.value}"`,
+      kind: CodeActionKind.QuickFix,
+      edit: workspaceEditForNodes([
+        {
+          node: definition,
+          edit: TextEdit.del(rangeForOffsets(definition, start, end))
+        }
+      ])
+    });
+  }
+
+  // Match where `withTypenameFieldAddedWhereNeeded` adds `__typename` for codegen,
+  // offering it on the field or fragment itself or its selection set's braces
+  let node = nodes[nodes.length - 1];
+  if (node.kind === Kind.SELECTION_SET && nodes.length > 1) {
+    node = nodes[nodes.length - 2];
+  }
+  if (
+    project.config.client.addTypename &&
+    ((node.kind === Kind.FIELD && node.selectionSet) ||
+      node.kind === Kind.FRAGMENT_DEFINITION)
+  ) {
+    const selections = node.selectionSet!.selections;
+    if (
+      selections.length > 0 &&
+      !selections.some(
+        selection =>
+          selection.kind === Kind.FIELD &&
+          !selection.alias &&
+          selection.name.value === "__typename"
+      )
+    ) {
+      const body = document.source.body;
+      const firstSelection = selections[0].loc!;
+      const lineStart = body.lastIndexOf("\n", firstSelection.start) + 1;
+      // Keep the selection set's formatting, whether it's on one or several lines
+      const separator =
+        lineStart > node.selectionSet!.loc!.start
+          ? `\n${body.slice(lineStart, firstSelection.start)}`
+          : " ";
+
+      codeActions.push({
+        title: `Add __typename to "${node.name.value}"`,
+        kind: CodeActionKind.QuickFix,
+        edit: workspaceEditForNodes([
+          {
+            node,
+            edit: TextEdit.insert(
+              rangeForASTNode(selections[0]).start,
+              `__typename${separator}`
+            )
+          }
+        ])
+      });
+    }
+  }
+
+  return codeActions;
+}
+
+const nameRegExp = /^[_A-Za-z][_0-9A-Za-z]*$/;
+
+type RenameTarget =
+  | { kind: "fragment"; name: NameNode }
+  | { kind: "operation"; name: NameNode }
+  | {
+      kind: "variable";
+      name: NameNode;
+      operation: OperationDefinitionNode;
+    };
+
 function symbolForFieldDefinition(
   definition: FieldDefinitionNode
 ): DocumentSymbol {
@@ -429,6 +821,244 @@ ${argumentNode.description ? argumentNode.description : ""}
     return null;
   }
 
+  async providePrepareRename(
+    uri: DocumentUri,
+    position: Position,
+    _token: CancellationToken
+  ): Promise<{ range: Range; placeholder: string } | null> {
+    const target = this.renameTargetAt(uri, position);
+    if (!target) return null;
+
+    return {
+      range: rangeForASTNode(target.name),
+      placeholder: target.name.value
+    };
+  }
+
+  async provideRename(
+    uri: DocumentUri,
+    position: Position,
+    newName: string,
+    _token: CancellationToken
+  ): Promise<WorkspaceEdit | null> {
+    const project = this.workspace.projectForFile(uri);
+    if (!(project && project instanceof GraphQLClientProject)) return null;
+
+    const target = this.renameTargetAt(uri, position);
+    if (!target) return null;
+
+    // Allow typing the `$` sigil when renaming variables
+    if (target.kind === "variable") newName = newName.replace(/^\$/, "");
+    if (!nameRegExp.test(newName)) {
+      throw new Error(`"${newName}" is not a valid GraphQL name.`);
+    }
+
+    const oldName = target.name.value;
+    let names: NameNode[] = [];
+
+    switch (target.kind) {
+      case "fragment": {
+        if (newName !== oldName && project.fragments[newName]) {
+          throw new Error(`A fragment named "${newName}" already exists.`);
+        }
+        const fragment = project.fragments[oldName];
+        if (fragment) names.push(fragment.name);
+        names.push(
+          ...project
+            .fragmentSpreadsForFragment(oldName)
+            .map(fragmentSpread => fragmentSpread.name)
+        );
+        break;
+      }
+      case "operation": {
+        // Operations aren't referenced from anywhere else
+        const exists = project.definitions.some(
+          definition =>
+            definition.kind === Kind.OPERATION_DEFINITION &&
+            !!definition.name &&
+            definition.name.value === newName
+        );
+        if (newName !== oldName && exists) {
+          throw new Error(`An operation named "${newName}" already exists.`);
+        }
+        names.push(target.name);
+        break;
+      }
+      case "variable": {
+        const exists = (target.operation.variableDefinitions || []).some(
+          variableDefinition =>
+            variableDefinition.variable.name.value === newName
+        );
+        if (newName !== oldName && exists) {
+          throw new Error(
+            `A variable named "$${newName}" is already defined by this operation.`
+          );
+        }
+        const variableNames = (definition: ASTNode) => {
+          const found: NameNode[] = [];
+          visit(definition, {
+            Variable(node: VariableNode) {
+              if (node.name.value === oldName) found.push(node.name);
+            }
+          });
+          return found;
+        };
+
+        // Fragments spread by the operation can use its variables as well. They're renamed
+        // along with it, unless other operations spread them and would lose the variable.
+        const fragments = project.fragments;
+        const fragmentsUsingVariable = fragmentsReferencedBy(
+          target.operation,
+          fragments
+        ).filter(fragment => variableNames(fragment).length > 0);
+        if (fragmentsUsingVariable.length > 0) {
+          const otherOperation = project.definitions.find(
+            definition =>
+              definition.kind === Kind.OPERATION_DEFINITION &&
+              definition !== target.operation &&
+              fragmentsReferencedBy(definition, fragments).some(fragment =>
+                fragmentsUsingVariable.includes(fragment)
+              )
+          ) as OperationDefinitionNode | undefined;
+          if (otherOperation) {
+            throw new Error(
+              `$${oldName} is also used by fragments that ${
+                otherOperation.name
+                  ? `"${otherOperation.name.value}"`
+                  : "another operation"
+              } spreads, so it can't be renamed in this operation alone.`
+            );
+          }
+        }
+
+        for (const definition of [
+          target.operation,
+          ...fragmentsUsingVariable
+        ]) {
+          names.push(...variableNames(definition));
+        }
+        break;
+      }
+    }
+
+    return workspaceEditForNodes(
+      names.map(name => ({
+        node: name,
+        edit: TextEdit.replace(rangeForASTNode(name), newName)
+      }))
+    );
+  }
+
+  // Only names owned by the client documents can be renamed. Fields, types, arguments and
+  // the like are defined by the schema, so we refuse to rename those with an explanation.
+  private renameTargetAt(
+    uri: DocumentUri,
+    position: Position
+  ): RenameTarget | null {
+    const project = this.workspace.projectForFile(uri);
+    if (!(project && project instanceof GraphQLClientProject)) return null;
+
+    const document = project.documentAt(uri, position);
+    if (!(document && document.ast)) return null;
+
+    const offset = positionToOffset(
+      document.source,
+      positionFromPositionInContainingDocument(document.source, position)
+    );
+
+    const nodes = nodesContainingOffset(document.ast, offset);
+    if (!nodes) return null;
+    const [definition] = nodes;
+    const target = nodes[nodes.length - 1];
+    switch (target.kind) {
+      case Kind.FRAGMENT_DEFINITION:
+      case Kind.FRAGMENT_SPREAD:
+        if (!containsOffset(target.name, offset)) return null;
+        return { kind: "fragment", name: target.name };
+      case Kind.OPERATION_DEFINITION:
+        if (!(target.name && containsOffset(target.name, offset))) return null;
+        return { kind: "operation", name: target.name };
+      case Kind.VARIABLE:
+        if (definition.kind !== Kind.OPERATION_DEFINITION) {
+          throw new Error(
+            `$${
+              target.name.value
+            } is defined by the operations using this fragment. Rename it there instead.`
+          );
+        }
+        return { kind: "variable", name: target.name, operation: definition };
+      case Kind.FIELD:
+        // Aliases are chosen by the client, but we don't track their usages in code
+        if (target.alias && containsOffset(target.alias, offset)) return null;
+        throw new Error(
+          `"${
+            target.name.value
+          }" is a field defined by the schema and can't be renamed.`
+        );
+      case Kind.ARGUMENT:
+      case Kind.OBJECT_FIELD:
+      case Kind.NAMED_TYPE:
+      case Kind.DIRECTIVE:
+      case Kind.ENUM:
+        throw new Error(
+          `"${
+            target.kind === Kind.ENUM ? target.value : target.name.value
+          }" is defined by the schema and can't be renamed.`
+        );
+    }
+
+    if (
+      isTypeSystemDefinitionNode(definition) ||
+      isTypeSystemExtensionNode(definition)
+    ) {
+      throw new Error(
+        "Names in schema definitions can't be renamed from client documents."
+      );
+    }
+
+    return null;
+  }
+
+  async provideCodeActions(
+    uri: DocumentUri,
+    range: Range,
+    context: CodeActionContext,
+    _token: CancellationToken
+  ): Promise<CodeAction[]> {
+    const project = this.workspace.projectForFile(uri);
+    if (!(project && project instanceof GraphQLClientProject)) return [];
+
+    const codeActions: CodeAction[] = [];
+
+    for (const diagnostic of context.diagnostics) {
+      if (diagnostic.source !== "GraphQL: Validation") continue;
+
+      const document = project.documentAt(uri, diagnostic.range.start);
+      if (!(document && document.ast)) continue;
+
+      codeActions.push(
+        ...quickFixesForDiagnostic(project, document, diagnostic)
+      );
+    }
+
+    const document = project.documentAt(uri, range.start);
+    if (document && document.ast) {
+      const offset = positionToOffset(
+        document.source,
+        positionFromPositionInContainingDocument(document.source, range.start)
+      );
+      codeActions.push(...codeActionsAtOffset(project, document, offset));
+    }
+
+    // Errors reported on several nodes, like undefined variables, lead to duplicate fixes
+    const titles = new Set<string>();
+    return codeActions.filter(({ title }) => {
+      if (titles.has(title)) return false;
+      titles.add(title);
+      return true;
+    });
+  }
+
   async provideDocumentSymbol(
     uri: DocumentUri,
     _token: CancellationToken
@@ -521,64 +1151,75 @@ ${argumentNode.description ? argumentNode.description : ""}
 
       for (const definition of document.ast.definitions) {
         if (definition.kind === Kind.OPERATION_DEFINITION) {
-          /*
-          if (set.endpoint) {
-            const fragmentSpreads: Set<
-              graphql.FragmentDefinitionNode
-            > = new Set();
-            const searchForReferencedFragments = (node: graphql.ASTNode) => {
-              visit(node, {
-                FragmentSpread(node: FragmentSpreadNode) {
-                  const fragDefn = project.fragments[node.name.value];
-                  if (!fragDefn) return;
-
-                  if (!fragmentSpreads.has(fragDefn)) {
-                    fragmentSpreads.add(fragDefn);
-                    searchForReferencedFragments(fragDefn);
-                  }
-                }
-              });
-            };
-
-            searchForReferencedFragments(definition);
-
+          // Subscriptions would need a websocket connection, so only queries and mutations can be run
+          const { service } = project.config.client;
+          if (
+            definition.operation !== "subscription" &&
+            typeof service === "object" &&
+            "url" in service
+          ) {
             codeLenses.push({
               range: rangeForASTNode(definition),
               command: Command.create(
                 `Run ${definition.operation}`,
                 "apollographql.runQuery",
-                graphql.parse(
-                  [definition, ...fragmentSpreads]
-                    .map(n => graphql.print(n))
-                    .join("\n")
-                ),
-                definition.operation === "subscription"
-                  ? set.endpoint.subscriptions
-                  : set.endpoint.url,
-                set.endpoint.headers,
-                graphql.printSchema(set.schema!)
+                {
+                  operationName: definition.name && definition.name.value,
+                  document: [
+                    definition,
+                    ...fragmentsReferencedBy(definition, project.fragments)
+                  ]
+                    .map(node => print(node))
+                    .join("\n\n"),
+                  variables: (definition.variableDefinitions || []).map(
+                    ({ variable, type }) => ({
+                      name: variable.name.value,
+                      type: print(type)
+                    })
+                  ),
+                  url: service.url,
+                  headers: service.headers,
+                  skipSSLValidation: service.skipSSLValidation
+                }
+              )
+            });
+          }
+
+          if (project.schema) {
+            const { depth, fieldCount, cost } = operationComplexity(
+              project.schema,
+              definition,
+              project.fragments,
+              project.config.client.complexity
+            );
+            codeLenses.push({
+              range: rangeForASTNode(definition),
+              command: Command.create(
+                `Depth ${depth} · ${fieldCount} ${
+                  fieldCount === 1 ? "field" : "fields"
+                } · Cost ${cost}`,
+                ""
               )
             });
           }
-          */
         } else if (definition.kind === Kind.FRAGMENT_DEFINITION) {
-          // remove project references for fragment now
-          // const fragmentName = definition.name.value;
-          // const locations = project
-          //   .fragmentSpreadsForFragment(fragmentName)
-          //   .map(fragmentSpread => locationForASTNode(fragmentSpread))
-          //   .filter(isNotNullOrUndefined);
-          // const command = Command.create(
-          //   `${locations.length} references`,
-          //   "editor.action.showReferences",
-          //   uri,
-          //   rangeForASTNode(definition).start,
-          //   locations
-          // );
-          // codeLenses.push({
-          //   range: rangeForASTNode(definition),
-          //   command
-          // });
+          const locations = project
+            .fragmentSpreadsForFragment(definition.name.value)
+            .map(fragmentSpread => locationForASTNode(fragmentSpread))
+            .filter(isNotNullOrUndefined);
+          const range = rangeForASTNode(definition);
+          codeLenses.push({
+            range,
+            command: Command.create(
+              `${locations.length} ${
+                locations.length === 1 ? "reference" : "references"
+              }`,
+              "apollographql.showReferences",
+              uri,
+              range.start,
+              locations
+            )
+          });
         }
       }
     }
@@ -7,6 +7,7 @@ export interface LoadingHandler {
   handle<T>(message: string, value: Promise<T>): Promise<T>;
   handleSync<T>(message: string, value: () => T): T;
   showError(message: string): void;
+  showWarning(message: string): void;
 }
 
 export class LanguageServerLoadingHandler implements LoadingHandler {
@@ -61,4 +62,7 @@ export class LanguageServerLoadingHandler implements LoadingHandler {
   showError(message: string) {
     this.connection.window.showErrorMessage(message);
   }
+  showWarning(message: string) {
+    this.connection.window.showWarningMessage(message);
+  }
 }
@@ -0,0 +1,76 @@
+import { mkdtempSync, rmdirSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { TextDocument } from "vscode-languageserver";
+import URI from "vscode-uri";
+import { GraphQLServiceProject } from "../service";
+import { LoadingHandler } from "../../loadingHandler";
+import { ServiceConfig, DefaultEngineConfig } from "../../config";
+
+const loadingHandler: LoadingHandler = {
+  handle: (_message, value) => value,
+  handleSync: (_message, value) => value(),
+  showError: message => {
+    throw new Error(message);
+  },
+  showWarning: () => {}
+};
+
+describe("GraphQLServiceProject", () => {
+  let dir: string;
+  let project: GraphQLServiceProject;
+
+  beforeEach(async () => {
+    // the temporary project root doesn't contain any files
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    dir = mkdtempSync(join(tmpdir(), "service-project-"));
+    project = new GraphQLServiceProject({
+      config: new ServiceConfig({
+        service: {
+          name: "my-service",
+          includes: [],
+          excludes: [],
+          localSchemaFile: require.resolve(
+            "../../../../../__fixtures__/starwars/schema.json"
+          )
+        },
+        engine: DefaultEngineConfig
+      }),
+      loadingHandler,
+      rootURI: URI.file(dir)
+    });
+    await project.whenReady;
+  });
+
+  afterEach(() => {
+    project.dispose();
+    rmdirSync(dir);
+    jest.restoreAllMocks();
+  });
+
+  describe("#validate", () => {
+    it("reports the same diagnostics when validating a document again", () => {
+      const diagnosticCounts: number[] = [];
+      project.onDiagnostics(({ uri, diagnostics }) => {
+        if (uri === "file:///schema.graphql") {
+          diagnosticCounts.push(diagnostics.length);
+        }
+      });
+      project.documentDidChange(
+        TextDocument.create(
+          "file:///schema.graphql",
+          "graphql",
+          1,
+          "type query_root { Hello: String }"
+        )
+      );
+
+      project.validate();
+      project.validate();
+
+      const [first, second] = diagnosticCounts;
+      expect(first).toBe(3);
+      expect(second).toBe(first);
+    });
+  });
+});
@@ -8,17 +8,20 @@ import {
   TypeSystemExtensionNode,
   isTypeSystemExtensionNode,
   DefinitionNode,
-  GraphQLSchema
+  GraphQLSchema,
+  GraphQLError
 } from "graphql";
 
 import {
   TextDocument,
   NotificationHandler,
   PublishDiagnosticsParams,
-  Position
+  Position,
+  DiagnosticSeverity
 } from "vscode-languageserver";
 
 import { GraphQLDocument, extractGraphQLDocuments } from "../document";
+import { DiagnosticSet, diagnosticsFromError } from "../diagnostics";
 
 import { LoadingHandler } from "../loadingHandler";
 import { FileSet } from "../fileSet";
@@ -26,7 +29,9 @@ import { ApolloConfig } from "../config";
 import {
   schemaProviderFromConfig,
   GraphQLSchemaProvider,
-  SchemaResolveConfig
+  SchemaResolveConfig,
+  SchemaCacheOptions,
+  SchemaChangeUnsubscribeHandler
 } from "../schema/providers";
 import { ApolloEngineClient, ClientIdentity } from "../engine";
 
@@ -48,6 +53,8 @@ export interface GraphQLProjectConfig {
   config: ApolloConfig;
   fileSet: FileSet;
   loadingHandler: LoadingHandler;
+  // remote schemas are cached on disk when this is passed
+  schemaCache?: SchemaCacheOptions;
 }
 
 export interface TypeStats {
@@ -68,6 +75,9 @@ export interface ProjectStats {
 export abstract class GraphQLProject implements GraphQLSchemaProvider {
   public schemaProvider: GraphQLSchemaProvider;
   protected _onDiagnostics?: NotificationHandler<PublishDiagnosticsParams>;
+  private unsubscribeFromSchemaChanges: SchemaChangeUnsubscribeHandler;
+  // schema files we've published load errors for, so we can clear them once fixed
+  private schemaErrorURIs: DocumentUri[] = [];
 
   private _isReady: boolean;
   private readyPromise: Promise<void>;
@@ -88,12 +98,21 @@ export abstract class GraphQLProject implements GraphQLSchemaProvider {
     config,
     fileSet,
     loadingHandler,
-    clientIdentity
+    clientIdentity,
+    schemaCache
   }: GraphQLProjectConfig) {
     this.config = config;
     this.fileSet = fileSet;
     this.loadingHandler = loadingHandler;
-    this.schemaProvider = schemaProviderFromConfig(config, clientIdentity);
+    this.schemaProvider = schemaProviderFromConfig(
+      config,
+      clientIdentity,
+      schemaCache && { options: schemaCache, loadingHandler }
+    );
+    this.unsubscribeFromSchemaChanges = this.schemaProvider.onSchemaChange(
+      schema => this.schemaDidChange(schema),
+      errors => this.schemaDidFailToLoad(errors)
+    );
     const { engine } = config;
     if (engine.apiKey) {
       this.engineClient = new ApolloEngineClient(
@@ -154,9 +173,63 @@ export abstract class GraphQLProject implements GraphQLSchemaProvider {
     return this.schemaProvider.resolveSchema(config);
   }
 
-  public onSchemaChange(handler: NotificationHandler<GraphQLSchema>) {
+  public onSchemaChange(
+    handler: NotificationHandler<GraphQLSchema>,
+    errorHandler?: NotificationHandler<GraphQLError[]>
+  ) {
+    this.lastLoadDate = +new Date();
+    return this.schemaProvider.onSchemaChange(handler, errorHandler);
+  }
+
+  // Called when the schema provider notices the schema has changed
+  protected schemaDidChange(_schema: GraphQLSchema) {
+    this.clearSchemaDiagnostics();
     this.lastLoadDate = +new Date();
-    return this.schemaProvider.onSchemaChange(handler);
+    this.invalidate();
+  }
+
+  // Called when the schema provider notices a change, but the new schema couldn't be built.
+  // We keep validating against the last good schema and report the errors on the schema files.
+  protected schemaDidFailToLoad(errors: GraphQLError[]) {
+    this.clearSchemaDiagnostics();
+    if (!this._onDiagnostics) return;
+
+    const diagnosticSet = new DiagnosticSet();
+    for (const error of errors) {
+      // errors like duplicate type definitions can point to several files
+      const errorsByNode = error.nodes
+        ? error.nodes.map(node => new GraphQLError(error.message, node))
+        : [error];
+
+      for (const nodeError of errorsByNode) {
+        const uri = nodeError.source && nodeError.source.name;
+        if (!uri) continue;
+
+        diagnosticSet.addDiagnostics(
+          uri,
+          diagnosticsFromError(nodeError, DiagnosticSeverity.Error, "Schema")
+        );
+      }
+    }
+
+    for (const [uri, diagnostics] of diagnosticSet.entries()) {
+      this.schemaErrorURIs.push(uri);
+      this._onDiagnostics({ uri, diagnostics });
+    }
+  }
+
+  private clearSchemaDiagnostics() {
+    if (this._onDiagnostics) {
+      for (const uri of this.schemaErrorURIs) {
+        this._onDiagnostics({ uri, diagnostics: [] });
+      }
+    }
+    this.schemaErrorURIs = [];
+  }
+
+  // Stop listening for schema changes once this project is no longer used
+  dispose() {
+    this.unsubscribeFromSchemaChanges();
   }
 
   onDiagnostics(handler: NotificationHandler<PublishDiagnosticsParams>) {
@@ -212,6 +285,7 @@ export abstract class GraphQLProject implements GraphQLSchemaProvider {
     );
     if (documents) {
       this.documentsByFile.set(document.uri, documents);
+      this.documentsDidChange(document.uri, documents);
       this.invalidate();
     } else {
       this.removeGraphQLDocumentsFor(document.uri);
@@ -221,6 +295,7 @@ export abstract class GraphQLProject implements GraphQLSchemaProvider {
   private removeGraphQLDocumentsFor(uri: DocumentUri) {
     if (this.documentsByFile.has(uri)) {
       this.documentsByFile.delete(uri);
+      this.documentsDidChange(uri, undefined);
 
       if (this._onDiagnostics) {
         this._onDiagnostics({ uri: uri, diagnostics: [] });
@@ -230,6 +305,12 @@ export abstract class GraphQLProject implements GraphQLSchemaProvider {
     }
   }
 
+  // Called whenever the documents for a file are updated, or removed when `documents` is undefined
+  protected documentsDidChange(
+    _uri: DocumentUri,
+    _documents: GraphQLDocument[] | undefined
+  ) {}
+
   protected invalidate() {
     if (!this.needsValidation && this.isReady) {
       setTimeout(() => {
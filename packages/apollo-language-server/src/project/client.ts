@@ -1,4 +1,4 @@
-import { GraphQLProject } from "./base";
+import { GraphQLProject, DocumentUri } from "./base";
 import {
   GraphQLSchema,
   GraphQLError,
@@ -24,6 +24,7 @@ import { NotificationHandler, DiagnosticSeverity } from "vscode-languageserver";
 import { rangeForASTNode } from "../utilities/source";
 import { formatMS } from "../format";
 import { LoadingHandler } from "../loadingHandler";
+import { SchemaCacheOptions } from "../schema/providers";
 import { FileSet } from "../fileSet";
 
 import { FieldStats, SchemaTag, ServiceID, ClientIdentity } from "../engine";
@@ -40,6 +41,7 @@ import {
   diagnosticsFromError
 } from "../diagnostics";
 import URI from "vscode-uri";
+import { GraphQLDocument } from "../document";
 
 function schemaHasASTNodes(schema: GraphQLSchema): boolean {
   const queryType = schema && schema.getQueryType();
@@ -71,6 +73,7 @@ export interface GraphQLClientProjectConfig {
   config: ClientConfig;
   rootURI: URI;
   loadingHandler: LoadingHandler;
+  schemaCache?: SchemaCacheOptions;
 }
 export class GraphQLClientProject extends GraphQLProject {
   public rootURI: URI;
@@ -84,22 +87,42 @@ export class GraphQLClientProject extends GraphQLProject {
 
   private fieldStats?: FieldStats;
 
+  // Fragment spreads by fragment name for every file, updated as documents change so finding the
+  // references to a fragment doesn't visit every document. This isn't initialized as a field, because
+  // files are scanned from the base class constructor.
+  private fragmentSpreadsByFile?: Map<
+    DocumentUri,
+    Map<string, FragmentSpreadNode[]>
+  >;
+
   constructor({
     config,
     loadingHandler,
     rootURI,
-    clientIdentity
+    clientIdentity,
+    schemaCache
   }: GraphQLClientProjectConfig) {
     const fileSet = new FileSet({
       // the URI of the folder _containing_ the apollo.config.js is the true project's root.
       // if a config doesn't have a uri associated, we can assume the `rootURI` is the project's root.
       rootURI: config.configDirURI || rootURI,
-      includes: [...config.client.includes, ".env", "apollo.config.js"],
+      includes: [
+        ...config.client.includes,
+        ".env",
+        ".env.local",
+        "apollo.config.{js,ts,yml,yaml,json}"
+      ],
       excludes: config.client.excludes,
       configURI: config.configURI
     });
 
-    super({ config, fileSet, loadingHandler, clientIdentity });
+    super({
+      config,
+      fileSet,
+      loadingHandler,
+      clientIdentity,
+      schemaCache
+    });
     this.rootURI = rootURI;
     this.serviceID = config.name;
 
@@ -170,6 +193,11 @@ export class GraphQLClientProject extends GraphQLProject {
     );
   }
 
+  protected schemaDidChange(schema: GraphQLSchema) {
+    this.serviceSchema = augmentSchemaWithGeneratedSDLIfNeeded(schema);
+    super.schemaDidChange(schema);
+  }
+
   async resolveSchema(): Promise<GraphQLSchema> {
     if (!this.schema) throw new Error();
     return this.schema;
@@ -394,19 +422,44 @@ export class GraphQLClientProject extends GraphQLProject {
     }
     return fields;
   }
-  fragmentSpreadsForFragment(fragmentName: string): FragmentSpreadNode[] {
-    const fragmentSpreads: FragmentSpreadNode[] = [];
-    for (const document of this.documents) {
+  protected documentsDidChange(
+    uri: DocumentUri,
+    documents: GraphQLDocument[] | undefined
+  ) {
+    if (!this.fragmentSpreadsByFile) this.fragmentSpreadsByFile = new Map();
+
+    if (!documents) {
+      this.fragmentSpreadsByFile.delete(uri);
+      return;
+    }
+
+    const fragmentSpreads = new Map<string, FragmentSpreadNode[]>();
+    for (const document of documents) {
       if (!document.ast) continue;
 
       visit(document.ast, {
         FragmentSpread(node: FragmentSpreadNode) {
-          if (node.name.value === fragmentName) {
-            fragmentSpreads.push(node);
+          const fragmentName = node.name.value;
+          const spreads = fragmentSpreads.get(fragmentName);
+          if (spreads) {
+            spreads.push(node);
+          } else {
+            fragmentSpreads.set(fragmentName, [node]);
           }
         }
       });
     }
+    this.fragmentSpreadsByFile.set(uri, fragmentSpreads);
+  }
+
+  fragmentSpreadsForFragment(fragmentName: string): FragmentSpreadNode[] {
+    const fragmentSpreads: FragmentSpreadNode[] = [];
+    if (!this.fragmentSpreadsByFile) return fragmentSpreads;
+
+    for (const spreadsForFile of this.fragmentSpreadsByFile.values()) {
+      const spreads = spreadsForFile.get(fragmentName);
+      if (spreads) fragmentSpreads.push(...spreads);
+    }
     return fragmentSpreads;
   }
 }
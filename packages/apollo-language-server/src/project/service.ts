@@ -1,9 +1,14 @@
 import { GraphQLProject } from "./base";
 import { LoadingHandler } from "../loadingHandler";
+import { SchemaCacheOptions } from "../schema/providers";
 import { FileSet } from "../fileSet";
 import { ServiceConfig } from "../config";
 import { ClientIdentity } from "../engine";
 import URI from "vscode-uri";
+import { Kind } from "graphql";
+import { DiagnosticSeverity } from "vscode-languageserver";
+import { DiagnosticSet, diagnosticsFromError } from "../diagnostics";
+import { getLintErrors } from "../errors/lint";
 
 export function isServiceProject(
   project: GraphQLProject
@@ -16,22 +21,37 @@ export interface GraphQLServiceProjectConfig {
   config: ServiceConfig;
   rootURI: URI;
   loadingHandler: LoadingHandler;
+  schemaCache?: SchemaCacheOptions;
 }
 export class GraphQLServiceProject extends GraphQLProject {
+  public config!: ServiceConfig;
+
   constructor({
     clientIdentity,
     config,
     rootURI,
-    loadingHandler
+    loadingHandler,
+    schemaCache
   }: GraphQLServiceProjectConfig) {
     const fileSet = new FileSet({
       rootURI: config.configDirURI || rootURI,
-      includes: [...config.service.includes, ".env", "apollo.config.js"],
+      includes: [
+        ...config.service.includes,
+        ".env",
+        ".env.local",
+        "apollo.config.{js,ts,yml,yaml,json}"
+      ],
       excludes: config.service.excludes,
       configURI: config.configURI
     });
 
-    super({ config, fileSet, loadingHandler, clientIdentity });
+    super({
+      config,
+      fileSet,
+      loadingHandler,
+      clientIdentity,
+      schemaCache
+    });
     this.config = config;
   }
 
@@ -40,10 +60,48 @@ export class GraphQLServiceProject extends GraphQLProject {
   }
 
   initialize() {
-    return [];
+    return [this.scanAllIncludedFiles()];
   }
 
-  validate() {}
+  validate() {
+    if (!this._onDiagnostics) return;
+
+    const diagnosticSet = new DiagnosticSet();
+
+    for (const [uri, documentsForFile] of this.documentsByFile) {
+      for (const document of documentsForFile) {
+        diagnosticSet.addDiagnostics(uri, document.syntaxErrors);
+      }
+    }
+
+    const lintErrors = getLintErrors(
+      {
+        kind: Kind.DOCUMENT,
+        definitions: this.typeSystemDefinitionsAndExtensions
+      },
+      this.config.service.lint
+    );
+
+    for (const { rule, severity, error } of lintErrors) {
+      const uri = error.source && error.source.name;
+      if (!uri) continue;
+
+      diagnosticSet.addDiagnostics(
+        uri,
+        diagnosticsFromError(
+          error,
+          severity === "error"
+            ? DiagnosticSeverity.Error
+            : DiagnosticSeverity.Warning,
+          "Lint"
+        ).map(diagnostic => ({ ...diagnostic, code: rule }))
+      );
+    }
+
+    for (const [uri, diagnostics] of diagnosticSet.entries()) {
+      this._onDiagnostics({ uri, diagnostics });
+    }
+  }
 
   getProjectStats() {
     return { loaded: true, type: "service" };
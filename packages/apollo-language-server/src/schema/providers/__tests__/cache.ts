@@ -0,0 +1,90 @@
+import { buildSchema, printSchema, GraphQLSchema } from "graphql";
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { CachedSchemaProvider, SchemaCacheOptions } from "../cache";
+import { GraphQLSchemaProvider } from "../base";
+import { LoadingHandler } from "../../../loadingHandler";
+
+const schema = buildSchema("type Query { hello: String }");
+
+const loadingHandler: LoadingHandler = {
+  handle: (_message, value) => value,
+  handleSync: (_message, value) => value(),
+  showError: jest.fn(),
+  showWarning: jest.fn()
+};
+
+function createProviders(options: SchemaCacheOptions = {}) {
+  const provider = {
+    resolveSchema: jest.fn(async () => schema),
+    onSchemaChange: jest.fn(() => () => {})
+  };
+  const directory = mkdtempSync(join(tmpdir(), "schema-cache-"));
+  const createCachedProvider = (mode?: SchemaCacheOptions["mode"]) =>
+    new CachedSchemaProvider(
+      provider as GraphQLSchemaProvider,
+      (tag = "current") => `my-service@${tag}`,
+      loadingHandler,
+      { directory, mode }
+    );
+  return { provider, createCachedProvider };
+}
+
+const sdl = (schema: GraphQLSchema) => printSchema(schema);
+
+describe("CachedSchemaProvider", () => {
+  afterEach(() => {
+    (loadingHandler.showWarning as jest.Mock).mockReset();
+  });
+
+  it("serves the cached schema with a warning when loading fails", async () => {
+    const { provider, createCachedProvider } = createProviders();
+    await createCachedProvider().resolveSchema();
+
+    provider.resolveSchema.mockRejectedValue(new Error("ENOTFOUND"));
+    const cachedSchema = await createCachedProvider().resolveSchema();
+
+    expect(sdl(cachedSchema)).toEqual(sdl(schema));
+    expect(loadingHandler.showWarning).toHaveBeenCalledWith(
+      expect.stringMatching(
+        /^Using a stale schema for my-service@current, cached at .+, because it couldn't be loaded: ENOTFOUND$/
+      )
+    );
+  });
+
+  it("caches the schema of each tag", async () => {
+    const { provider, createCachedProvider } = createProviders();
+    await createCachedProvider().resolveSchema({ tag: "staging" });
+
+    provider.resolveSchema.mockRejectedValue(new Error("ENOTFOUND"));
+    await expect(createCachedProvider().resolveSchema()).rejects.toThrow(
+      "ENOTFOUND"
+    );
+  });
+
+  it("only uses the cache when offline", async () => {
+    const { provider, createCachedProvider } = createProviders();
+    await expect(
+      createCachedProvider("offline").resolveSchema()
+    ).rejects.toThrow("No cached schema was found for my-service@current");
+
+    await createCachedProvider().resolveSchema();
+    provider.resolveSchema.mockClear();
+
+    const cachedSchema = await createCachedProvider("offline").resolveSchema();
+    expect(sdl(cachedSchema)).toEqual(sdl(schema));
+    expect(provider.resolveSchema).not.toHaveBeenCalled();
+    expect(loadingHandler.showWarning).not.toHaveBeenCalled();
+  });
+
+  it("doesn't fall back to the cache when refreshing", async () => {
+    const { provider, createCachedProvider } = createProviders();
+    await createCachedProvider().resolveSchema();
+
+    provider.resolveSchema.mockRejectedValue(new Error("ENOTFOUND"));
+    await expect(
+      createCachedProvider("refresh").resolveSchema()
+    ).rejects.toThrow("ENOTFOUND");
+  });
+});
@@ -0,0 +1,185 @@
+import { mkdtempSync, writeFileSync, unlinkSync, rmdirSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { GraphQLSchema, GraphQLError } from "graphql";
+import { FileSchemaProvider } from "../file";
+
+describe("FileSchemaProvider", () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "file-schema-provider-"));
+    path = join(dir, "schema.graphql");
+    writeFileSync(path, "type Query { hello: String }");
+  });
+
+  afterEach(() => {
+    unlinkSync(path);
+    rmdirSync(dir);
+  });
+
+  it("resolves and caches the schema", async () => {
+    const provider = new FileSchemaProvider({ path });
+    const schema = await provider.resolveSchema();
+
+    expect(Object.keys(schema.getQueryType()!.getFields())).toEqual(["hello"]);
+
+    writeFileSync(path, "type Query { world: String }");
+    expect(await provider.resolveSchema()).toBe(schema);
+    expect(
+      Object.keys(
+        (await provider.resolveSchema({ force: true }))
+          .getQueryType()!
+          .getFields()
+      )
+    ).toEqual(["world"]);
+  });
+
+  it("reports located errors for invalid SDL", async () => {
+    writeFileSync(path, "type Query { hello: Strin }");
+    const provider = new FileSchemaProvider({ path });
+
+    await expect(provider.resolveSchema()).rejects.toThrow(
+      'Unknown type "Strin"'
+    );
+  });
+
+  it("merges multiple files and globs", async () => {
+    const extensionPath = join(dir, "user.graphql");
+    writeFileSync(
+      extensionPath,
+      `
+      extend type Query { me: User }
+      type User { id: ID! }
+      `
+    );
+
+    try {
+      for (const paths of [[path, extensionPath], join(dir, "*.graphql")]) {
+        const provider = new FileSchemaProvider({ path: paths });
+        const schema = await provider.resolveSchema();
+        expect(Object.keys(schema.getQueryType()!.getFields())).toEqual([
+          "hello",
+          "me"
+        ]);
+      }
+    } finally {
+      unlinkSync(extensionPath);
+    }
+  });
+
+  it("reports errors with the file they occur in", async () => {
+    const otherPath = join(dir, "other.graphql");
+    writeFileSync(otherPath, "\ntype Query { world: String }");
+
+    try {
+      const provider = new FileSchemaProvider({ path: [path, otherPath] });
+      const error = await provider.resolveSchema().catch(error => error);
+      expect(error.message).toMatch('Type "Query" was defined more than once.');
+      expect(error.message).toMatch(`file://${path} (1:1)`);
+      expect(error.message).toMatch(`file://${otherPath} (2:1)`);
+    } finally {
+      unlinkSync(otherPath);
+    }
+  });
+
+  it("notifies about changes to the schema file", async () => {
+    const provider = new FileSchemaProvider({ path });
+    await provider.resolveSchema();
+
+    const nextChange = () =>
+      new Promise<GraphQLSchema | GraphQLError[]>(resolve => {
+        const unsubscribe = provider.onSchemaChange(
+          schema => {
+            unsubscribe();
+            resolve(schema);
+          },
+          errors => {
+            unsubscribe();
+            resolve(errors);
+          }
+        );
+      });
+
+    // make sure the modification time changes between writes
+    const touch = (contents: string) =>
+      setTimeout(() => writeFileSync(path, contents), 1000);
+
+    let change = nextChange();
+    touch("type Query { hello: String, world: String }");
+    const schema = (await change) as GraphQLSchema;
+    expect(Object.keys(schema.getQueryType()!.getFields())).toEqual([
+      "hello",
+      "world"
+    ]);
+    expect(await provider.resolveSchema()).toBe(schema);
+
+    change = nextChange();
+    touch("type Query {");
+    const errors = (await change) as GraphQLError[];
+    expect(errors).toHaveLength(1);
+    expect(errors[0].message).toMatch("Syntax Error");
+    expect(errors[0].source!.name).toBe(`file://${path}`);
+    expect(errors[0].locations).toEqual([{ line: 1, column: 13 }]);
+
+    // the last valid schema is kept around
+    expect(await provider.resolveSchema()).toBe(schema);
+  }, 10000);
+
+  it("watches files that started matching a glob", async () => {
+    const provider = new FileSchemaProvider({ path: join(dir, "*.graphql") });
+    await provider.resolveSchema();
+
+    // a single subscription, so files are only watched if they're found after subscribing
+    let resolveChange: (schema: GraphQLSchema) => void;
+    const unsubscribe = provider.onSchemaChange(schema =>
+      resolveChange(schema)
+    );
+    const fieldsAfterChange = async (path: string, contents: string) => {
+      const change = new Promise<GraphQLSchema>(
+        resolve => (resolveChange = resolve)
+      );
+      // make sure the modification time changes between writes
+      setTimeout(() => writeFileSync(path, contents), 1000);
+      return Object.keys((await change).getQueryType()!.getFields());
+    };
+
+    const extensionPath = join(dir, "user.graphql");
+    try {
+      writeFileSync(extensionPath, "extend type Query { me: String }");
+      expect(
+        await fieldsAfterChange(path, "type Query { hello: String }\n")
+      ).toEqual(["hello", "me"]);
+
+      expect(
+        await fieldsAfterChange(
+          extensionPath,
+          "extend type Query { me: String, you: String }"
+        )
+      ).toEqual(["hello", "me", "you"]);
+    } finally {
+      unsubscribe();
+      unlinkSync(extensionPath);
+    }
+  }, 10000);
+
+  it("rebuilds the schema when a file matched by a glob is removed", async () => {
+    const extensionPath = join(dir, "user.graphql");
+    writeFileSync(extensionPath, "extend type Query { me: String }");
+    const provider = new FileSchemaProvider({ path: join(dir, "*.graphql") });
+    await provider.resolveSchema();
+
+    const change = new Promise<GraphQLSchema>(resolve => {
+      const unsubscribe = provider.onSchemaChange(schema => {
+        unsubscribe();
+        resolve(schema);
+      });
+    });
+    unlinkSync(extensionPath);
+
+    const schema = await change;
+    expect(Object.keys(schema.getQueryType()!.getFields())).toEqual(["hello"]);
+    expect(await provider.resolveSchema()).toBe(schema);
+  }, 10000);
+});
@@ -0,0 +1,99 @@
+import { buildSchema, introspectionFromSchema, GraphQLSchema } from "graphql";
+import { fetch } from "apollo-env";
+import { IntrospectionSchemaProvider } from "../introspection";
+
+jest.mock("apollo-env", () => ({
+  ...jest.requireActual("apollo-env"),
+  fetch: jest.fn()
+}));
+
+const mockFetch = (fetch as any) as jest.Mock;
+
+function respondWith(sdl: string) {
+  const body = JSON.stringify({
+    data: introspectionFromSchema(buildSchema(sdl))
+  });
+  mockFetch.mockImplementation(async () => ({
+    status: 200,
+    text: async () => body
+  }));
+}
+
+// polls await the mocked fetch, so its promises have to settle after advancing the fake timers
+const { setImmediate } = jest.requireActual("timers");
+async function poll(ms: number) {
+  jest.advanceTimersByTime(ms);
+  await new Promise(resolve => setImmediate(resolve));
+}
+
+describe("IntrospectionSchemaProvider", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    mockFetch.mockReset();
+  });
+
+  it("does not poll without a pollInterval", async () => {
+    respondWith("type Query { hello: String }");
+    const provider = new IntrospectionSchemaProvider({
+      url: "http://localhost:4000/graphql"
+    });
+
+    const handler = jest.fn();
+    const unsubscribe = provider.onSchemaChange(handler);
+    await poll(1000);
+    unsubscribe();
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("only notifies when the schema changed", async () => {
+    respondWith("type Query { hello: String }");
+    const provider = new IntrospectionSchemaProvider({
+      url: "http://localhost:4000/graphql",
+      pollInterval: 5
+    });
+    await provider.resolveSchema();
+
+    const handler = jest.fn();
+    const unsubscribe = provider.onSchemaChange(handler);
+
+    await poll(5);
+    await poll(5);
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(handler).not.toHaveBeenCalled();
+
+    respondWith("type Query { hello: String, world: String }");
+    await poll(5);
+    await poll(5);
+    unsubscribe();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    const schema: GraphQLSchema = handler.mock.calls[0][0];
+    expect(Object.keys(schema.getQueryType()!.getFields())).toEqual([
+      "hello",
+      "world"
+    ]);
+    expect(await provider.resolveSchema()).toBe(schema);
+  });
+
+  it("doesn't notify of the first schema it polls", async () => {
+    respondWith("type Query { hello: String }");
+    const provider = new IntrospectionSchemaProvider({
+      url: "http://localhost:4000/graphql",
+      pollInterval: 5
+    });
+
+    const handler = jest.fn();
+    const unsubscribe = provider.onSchemaChange(handler);
+    await poll(5);
+    unsubscribe();
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
@@ -1,4 +1,4 @@
-import { GraphQLSchema } from "graphql";
+import { GraphQLSchema, GraphQLError } from "graphql";
 import { NotificationHandler } from "vscode-languageserver";
 
 export interface SchemaResolveConfig {
@@ -8,7 +8,9 @@ export interface SchemaResolveConfig {
 export type SchemaChangeUnsubscribeHandler = () => void;
 export interface GraphQLSchemaProvider {
   resolveSchema(config?: SchemaResolveConfig): Promise<GraphQLSchema>;
+  // `errorHandler` is called instead of `handler` when a changed schema couldn't be built
   onSchemaChange(
-    handler: NotificationHandler<GraphQLSchema>
+    handler: NotificationHandler<GraphQLSchema>,
+    errorHandler?: NotificationHandler<GraphQLError[]>
   ): SchemaChangeUnsubscribeHandler;
 }
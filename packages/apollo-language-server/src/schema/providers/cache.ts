@@ -0,0 +1,141 @@
+// CachedSchemaProvider (schema provider => schema, cached on disk)
+import { NotificationHandler } from "vscode-languageserver";
+import {
+  GraphQLSchema,
+  GraphQLError,
+  IntrospectionQuery,
+  buildClientSchema,
+  introspectionFromSchema
+} from "graphql";
+import { createHash } from "crypto";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import { LoadingHandler } from "../../loadingHandler";
+import { mkdirRecursive } from "../../utilities/fs";
+import {
+  GraphQLSchemaProvider,
+  SchemaChangeUnsubscribeHandler,
+  SchemaResolveConfig
+} from "./base";
+
+export const defaultSchemaCacheDirectory = join(
+  homedir(),
+  ".apollo",
+  "schema-cache"
+);
+
+export interface SchemaCacheOptions {
+  // defaults to ~/.apollo/schema-cache
+  directory?: string;
+  // `offline` only uses cached schemas, and `refresh` never falls back to them
+  mode?: "offline" | "refresh";
+}
+
+interface CachedSchema {
+  key: string;
+  cachedAt: string;
+  introspection: IntrospectionQuery;
+}
+
+// Stores the last schema resolved by a remote provider, and serves it when the provider fails
+export class CachedSchemaProvider implements GraphQLSchemaProvider {
+  // the schemas last written to the cache, by key, so unchanged schemas aren't written again
+  private cachedSchemas = new Map<string, GraphQLSchema>();
+  private directory: string;
+  private mode?: SchemaCacheOptions["mode"];
+
+  constructor(
+    private provider: GraphQLSchemaProvider,
+    // identifies the schema of a tag, like a service name and tag or an endpoint url
+    private cacheKey: (tag?: string) => string,
+    private loadingHandler: LoadingHandler,
+    { directory = defaultSchemaCacheDirectory, mode }: SchemaCacheOptions = {}
+  ) {
+    this.directory = directory;
+    this.mode = mode;
+  }
+
+  async resolveSchema(config?: SchemaResolveConfig) {
+    const key = this.cacheKey(config && config.tag);
+
+    if (this.mode === "offline") {
+      const cachedSchema = this.cachedSchemas.get(key);
+      if (cachedSchema) return cachedSchema;
+
+      const cached = this.read(key);
+      if (!cached) {
+        throw new Error(
+          `No cached schema was found for ${key}. Load it without --offline first.`
+        );
+      }
+      const schema = buildClientSchema(cached.introspection);
+      this.cachedSchemas.set(key, schema);
+      return schema;
+    }
+
+    try {
+      const schema = await this.provider.resolveSchema(config);
+      this.write(key, schema);
+      return schema;
+    } catch (error) {
+      const cached = this.mode !== "refresh" && this.read(key);
+      if (!cached) throw error;
+
+      this.loadingHandler.showWarning(
+        `Using a stale schema for ${key}, cached at ${
+          cached.cachedAt
+        }, because it couldn't be loaded: ${error.message}`
+      );
+      return buildClientSchema(cached.introspection);
+    }
+  }
+
+  onSchemaChange(
+    handler: NotificationHandler<GraphQLSchema>,
+    errorHandler?: NotificationHandler<GraphQLError[]>
+  ): SchemaChangeUnsubscribeHandler {
+    if (this.mode === "offline") return () => {};
+
+    return this.provider.onSchemaChange(schema => {
+      this.write(this.cacheKey(), schema);
+      handler(schema);
+    }, errorHandler);
+  }
+
+  private cachePath(key: string) {
+    const hash = createHash("sha1")
+      .update(key)
+      .digest("hex");
+    return join(this.directory, `${hash}.json`);
+  }
+
+  private read(key: string): CachedSchema | undefined {
+    const path = this.cachePath(key);
+    if (!existsSync(path)) return undefined;
+
+    try {
+      return JSON.parse(readFileSync(path, "utf8"));
+    } catch (error) {
+      // a cache that can't be read is the same as no cache
+      return undefined;
+    }
+  }
+
+  private write(key: string, schema: GraphQLSchema) {
+    if (this.cachedSchemas.get(key) === schema) return;
+
+    const cached: CachedSchema = {
+      key,
+      cachedAt: new Date().toISOString(),
+      introspection: introspectionFromSchema(schema)
+    };
+    try {
+      mkdirRecursive(this.directory);
+      writeFileSync(this.cachePath(key), JSON.stringify(cached));
+      this.cachedSchemas.set(key, schema);
+    } catch (error) {
+      // the schema is still used when it can't be cached, like in read-only home directories
+    }
+  }
+}
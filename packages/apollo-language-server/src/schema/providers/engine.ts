@@ -76,10 +76,12 @@ export class EngineSchemaProvider implements GraphQLSchemaProvider {
     return this.schema;
   }
 
+  // Engine doesn't notify us of new schemas and we don't poll it, so the handler is
+  // never called. Schemas are refreshed by resolving them with `force` instead,
+  // like when a project's service is reloaded or its schema tag changes.
   onSchemaChange(
     _handler: NotificationHandler<GraphQLSchema>
   ): SchemaChangeUnsubscribeHandler {
-    throw new Error("Polling of Engine not implemented yet");
     return () => {};
   }
 }
@@ -1,55 +1,255 @@
 // FileSchemaProvider (FileProvider (SDL || IntrospectionResult) => schema)
-import { GraphQLSchema, buildClientSchema, Source, buildSchema } from "graphql";
-import { readFileSync } from "fs";
+import {
+  GraphQLSchema,
+  GraphQLError,
+  DocumentNode,
+  DefinitionNode,
+  Kind,
+  buildClientSchema,
+  Source,
+  parse,
+  printError
+} from "graphql";
+import { validateSDL } from "graphql/validation/validate";
+import { buildServiceDefinition } from "@apollographql/apollo-tools";
+import { readFileSync, watchFile, unwatchFile, Stats } from "fs";
 import { extname, resolve } from "path";
-import { GraphQLSchemaProvider, SchemaChangeUnsubscribeHandler } from "./base";
+import glob from "glob";
+import {
+  GraphQLSchemaProvider,
+  SchemaChangeUnsubscribeHandler,
+  SchemaResolveConfig
+} from "./base";
 import { NotificationHandler } from "vscode-languageserver";
 
 export interface FileSchemaProviderConfig {
-  path: string;
+  // a path or glob, or a list of them, pointing to SDL files or a single introspection result
+  path: string | string[];
 }
-// XXX file subscription
+
+// how often (in ms) to check the schema files for changes
+const WATCH_INTERVAL = 500;
+
+const sdlExtensions = [".graphql", ".graphqls", ".gql"];
+
+interface SchemaLoadResult {
+  schema?: GraphQLSchema;
+  errors?: GraphQLError[];
+}
+
 export class FileSchemaProvider implements GraphQLSchemaProvider {
   private schema?: GraphQLSchema;
 
   constructor(private config: FileSchemaProviderConfig) {}
 
-  async resolveSchema() {
-    if (this.schema) return this.schema;
-    const { path } = this.config;
-    let result;
-    try {
-      result = readFileSync(path, {
-        encoding: "utf-8"
-      });
-    } catch (err) {
-      throw new Error(`Unable to read file ${path}. ${err.message}`);
+  async resolveSchema(override?: SchemaResolveConfig) {
+    if (this.schema && (!override || !override.force)) return this.schema;
+
+    const { schema, errors } = this.loadSchema();
+    if (errors) {
+      throw new Error(errors.map(error => printError(error)).join("\n\n"));
+    }
+
+    this.schema = schema;
+    return this.schema!;
+  }
+
+  // Patterns without glob characters are kept as is, so missing files are still reported
+  private get paths(): string[] {
+    const patterns = Array.isArray(this.config.path)
+      ? this.config.path
+      : [this.config.path];
+
+    const paths = new Set<string>();
+    for (const pattern of patterns) {
+      if (glob.hasMagic(pattern)) {
+        glob.sync(pattern, { nodir: true }).forEach(path => paths.add(path));
+      } else {
+        paths.add(pattern);
+      }
     }
+    return Array.from(paths);
+  }
 
-    const ext = extname(path);
+  private loadSchema(): SchemaLoadResult {
+    const paths = this.paths;
+    if (paths.length === 0) {
+      return {
+        errors: [
+          new GraphQLError(`No schema files found for ${this.config.path}`)
+        ]
+      };
+    }
+
+    const sources: Source[] = [];
+    for (const path of paths) {
+      const uri = `file://${resolve(path)}`;
+      try {
+        sources.push(
+          new Source(readFileSync(path, { encoding: "utf-8" }), uri)
+        );
+      } catch (err) {
+        return {
+          errors: [
+            new GraphQLError(
+              `Unable to read file ${path}. ${err.message}`,
+              undefined,
+              new Source("", uri),
+              [0]
+            )
+          ]
+        };
+      }
+    }
 
     // an actual introspectionQuery result
-    if (ext === ".json") {
-      const parsed = JSON.parse(result);
+    if (paths.length === 1 && extname(paths[0]) === ".json") {
+      return this.loadIntrospectionResult(sources[0]);
+    }
+
+    for (const [index, path] of paths.entries()) {
+      if (!sdlExtensions.includes(extname(path))) {
+        return {
+          errors: [
+            new GraphQLError(
+              extname(path) === ".json"
+                ? `An introspection result can't be combined with other schema files: ${path}`
+                : `Schema could not be loaded for ${path}`,
+              undefined,
+              sources[index],
+              [0]
+            )
+          ]
+        };
+      }
+    }
+
+    return this.loadSDL(sources);
+  }
+
+  private loadIntrospectionResult(source: Source): SchemaLoadResult {
+    try {
+      const parsed = JSON.parse(source.body);
       const __schema = parsed.data
         ? parsed.data.__schema
         : parsed.__schema
         ? parsed.__schema
         : parsed;
 
-      this.schema = buildClientSchema({ __schema });
-    } else if (ext === ".graphql" || ext === ".graphqls" || ext === ".gql") {
-      const uri = `file://${resolve(path)}`;
-      this.schema = buildSchema(new Source(result, uri));
+      return { schema: buildClientSchema({ __schema }) };
+    } catch (error) {
+      return {
+        errors: [new GraphQLError(error.message, undefined, source, [0])]
+      };
     }
-    if (!this.schema) throw new Error(`Schema could not be loaded for ${path}`);
-    return this.schema;
+  }
+
+  private loadSDL(sources: Source[]): SchemaLoadResult {
+    const documents: DocumentNode[] = [];
+    const syntaxErrors: GraphQLError[] = [];
+    for (const source of sources) {
+      try {
+        documents.push(parse(source));
+      } catch (error) {
+        syntaxErrors.push(error);
+      }
+    }
+    if (syntaxErrors.length > 0) return { errors: syntaxErrors };
+
+    let result: SchemaLoadResult;
+    try {
+      result = buildServiceDefinition(
+        documents.map(typeDefs => ({ typeDefs }))
+      );
+    } catch (error) {
+      result = { errors: [error] };
+    }
+    if (!result.errors) return result;
+
+    const errors = result.errors.filter(error => error.nodes);
+    if (errors.length < result.errors.length) {
+      // Errors thrown while building the schema itself don't point to a location,
+      // so validate the merged definitions to find out which files they're in
+      const validationErrors = validateSDL({
+        kind: Kind.DOCUMENT,
+        definitions: ([] as DefinitionNode[]).concat(
+          ...documents.map(document => document.definitions)
+        )
+      });
+
+      errors.push(
+        ...(validationErrors.length > 0
+          ? validationErrors
+          : result.errors
+              .filter(error => !error.nodes)
+              .map(
+                error =>
+                  new GraphQLError(error.message, undefined, sources[0], [0])
+              ))
+      );
+    }
+
+    return { errors };
   }
 
   onSchemaChange(
-    _handler: NotificationHandler<GraphQLSchema>
+    handler: NotificationHandler<GraphQLSchema>,
+    errorHandler?: NotificationHandler<GraphQLError[]>
   ): SchemaChangeUnsubscribeHandler {
-    throw new Error("File watching not implemented yet");
-    return () => {};
+    // the listener of each watched path, needed to unwatch it
+    const watchedPaths = new Map<
+      string,
+      (current: Stats, previous: Stats) => void
+    >();
+    // Globs are expanded again on every change, so files that started matching them since
+    // we subscribed are watched from then on, and files that stopped matching aren't
+    const watchPaths = () => {
+      const paths = this.paths;
+      for (const path of paths) {
+        if (watchedPaths.has(path)) continue;
+        const listener = (current: Stats, previous: Stats) =>
+          pathDidChange(path, current, previous);
+        // a non-persistent watcher won't keep short-lived processes like the CLI alive
+        watchFile(
+          path,
+          { persistent: false, interval: WATCH_INTERVAL },
+          listener
+        );
+        watchedPaths.set(path, listener);
+      }
+      for (const [path, listener] of Array.from(watchedPaths)) {
+        if (paths.includes(path)) continue;
+        unwatchFile(path, listener);
+        watchedPaths.delete(path);
+      }
+    };
+
+    const pathDidChange = (path: string, current: Stats, previous: Stats) => {
+      // the listener is also called when the file is only accessed
+      if (current.mtimeMs === previous.mtimeMs) return;
+
+      watchPaths();
+      // A removed file that's still part of the schema was named explicitly rather than
+      // matched by a glob, so it's likely about to be regenerated
+      if (current.mtimeMs === 0 && watchedPaths.has(path)) return;
+
+      const { schema, errors } = this.loadSchema();
+      if (errors) {
+        if (errorHandler) errorHandler(errors);
+        return;
+      }
+
+      this.schema = schema;
+      handler(this.schema!);
+    };
+
+    watchPaths();
+
+    return () => {
+      for (const [path, listener] of Array.from(watchedPaths)) {
+        unwatchFile(path, listener);
+      }
+      watchedPaths.clear();
+    };
   }
 }
@@ -7,37 +7,71 @@ import {
   ApolloConfig,
   isClientConfig,
   isServiceConfig,
-  isLocalServiceConfig
+  isLocalServiceConfig,
+  parseServiceSpecifier
 } from "../../config";
 
 import { IntrospectionSchemaProvider } from "./introspection";
 import { EngineSchemaProvider } from "./engine";
 import { FileSchemaProvider } from "./file";
+import {
+  CachedSchemaProvider,
+  SchemaCacheOptions,
+  defaultSchemaCacheDirectory
+} from "./cache";
 import { ClientIdentity } from "../../engine";
+import { LoadingHandler } from "../../loadingHandler";
 
 export {
   GraphQLSchemaProvider,
   SchemaChangeUnsubscribeHandler,
-  SchemaResolveConfig
+  SchemaResolveConfig,
+  SchemaCacheOptions,
+  defaultSchemaCacheDirectory
 };
 
 export function schemaProviderFromConfig(
   config: ApolloConfig,
-  clientIdentity?: ClientIdentity // engine provider needs this
+  clientIdentity?: ClientIdentity, // engine provider needs this
+  // schemas of Engine and endpoints are cached on disk when this is passed
+  schemaCache?: { options: SchemaCacheOptions; loadingHandler: LoadingHandler }
 ): GraphQLSchemaProvider {
+  const cached = (
+    provider: GraphQLSchemaProvider,
+    cacheKey: (tag?: string) => string
+  ) =>
+    schemaCache
+      ? new CachedSchemaProvider(
+          provider,
+          cacheKey,
+          schemaCache.loadingHandler,
+          schemaCache.options
+        )
+      : provider;
+
   if (isServiceConfig(config)) {
     if (config.service.localSchemaFile) {
       return new FileSchemaProvider({ path: config.service.localSchemaFile });
     }
 
-    if (config.service.endpoint) {
-      return new IntrospectionSchemaProvider(config.service.endpoint);
+    const { endpoint } = config.service;
+    if (endpoint) {
+      return cached(
+        new IntrospectionSchemaProvider(endpoint),
+        () => endpoint.url
+      );
     }
   }
 
   if (isClientConfig(config)) {
     if (typeof config.client.service === "string") {
-      return new EngineSchemaProvider(config, clientIdentity);
+      const [id, defaultTag = "current"] = parseServiceSpecifier(
+        config.client.service
+      );
+      return cached(
+        new EngineSchemaProvider(config, clientIdentity),
+        (tag = defaultTag) => `${id}@${tag}`
+      );
     }
 
     if (config.client.service) {
@@ -47,7 +81,11 @@ export function schemaProviderFromConfig(
         });
       }
 
-      return new IntrospectionSchemaProvider(config.client.service);
+      const endpoint = config.client.service;
+      return cached(
+        new IntrospectionSchemaProvider(endpoint),
+        () => endpoint.url
+      );
     }
   }
 
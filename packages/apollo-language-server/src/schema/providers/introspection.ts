@@ -12,14 +12,29 @@ import {
 } from "graphql";
 import { Agent } from "http";
 import { fetch } from "apollo-env";
-import { RemoteServiceConfig } from "../../config";
-import { GraphQLSchemaProvider, SchemaChangeUnsubscribeHandler } from "./base";
+import { ServiceEndpointConfig } from "../../config";
+import {
+  GraphQLSchemaProvider,
+  SchemaChangeUnsubscribeHandler,
+  SchemaResolveConfig
+} from "./base";
 
 export class IntrospectionSchemaProvider implements GraphQLSchemaProvider {
   private schema?: GraphQLSchema;
-  constructor(private config: Exclude<RemoteServiceConfig, "name">) {}
-  async resolveSchema() {
-    if (this.schema) return this.schema;
+  // the serialized introspection result `schema` was built from, used to detect changes
+  private introspectionResult?: string;
+
+  constructor(private config: ServiceEndpointConfig) {}
+
+  async resolveSchema(override?: SchemaResolveConfig) {
+    if (this.schema && (!override || !override.force)) return this.schema;
+    await this.introspect();
+    return this.schema!;
+  }
+
+  // Returns whether the introspection result differs from the previous one. The first
+  // result isn't a change, since there was no schema to compare it against.
+  private async introspect(): Promise<boolean> {
     const { skipSSLValidation, url, headers } = this.config;
     const options: HttpLink.Options = {
       uri: url,
@@ -43,13 +58,38 @@ export class IntrospectionSchemaProvider implements GraphQLSchemaProvider {
       throw new Error("No data received from server introspection.");
     }
 
+    const introspectionResult = JSON.stringify(data);
+    const previousResult = this.introspectionResult;
+    if (introspectionResult === previousResult) return false;
+
     this.schema = buildClientSchema(data);
-    return this.schema;
+    this.introspectionResult = introspectionResult;
+    return previousResult !== undefined;
   }
+
   onSchemaChange(
-    _handler: NotificationHandler<GraphQLSchema>
+    handler: NotificationHandler<GraphQLSchema>
   ): SchemaChangeUnsubscribeHandler {
-    throw new Error("Polling of endpoint not implemented yet");
-    return () => {};
+    const { pollInterval } = this.config;
+    if (!pollInterval) return () => {};
+
+    let polling = false;
+    const timer = setInterval(async () => {
+      // skip this tick if the previous introspection hasn't finished yet
+      if (polling) return;
+      polling = true;
+      try {
+        if (await this.introspect()) handler(this.schema!);
+      } catch (error) {
+        // The endpoint is likely restarting, so we'll try again on the next tick
+      } finally {
+        polling = false;
+      }
+    }, pollInterval);
+
+    // don't keep short-lived processes like the CLI alive just to poll
+    timer.unref();
+
+    return () => clearInterval(timer);
   }
 }
@@ -30,7 +30,8 @@ const workspace = new GraphQLWorkspace(
       name: process.env["APOLLO_CLIENT_NAME"],
       version: process.env["APOLLO_CLIENT_VERSION"],
       referenceID: process.env["APOLLO_CLIENT_REFERENCE_ID"]
-    }
+    },
+    schemaCache: {}
   }
 );
 
@@ -84,6 +85,10 @@ connection.onInitialize(async ({ capabilities, workspaceFolders }) => {
       },
       definitionProvider: true,
       referencesProvider: true,
+      codeActionProvider: true,
+      renameProvider: {
+        prepareProvider: true
+      },
       documentSymbolProvider: true,
       workspaceSymbolProvider: true,
       codeLensProvider: {
@@ -126,7 +131,11 @@ documents.onDidChangeContent(params => {
 
 connection.onDidChangeWatchedFiles(params => {
   for (const { uri, type } of params.changes) {
-    if (uri.endsWith("apollo.config.js") || uri.endsWith(".env")) {
+    if (
+      /apollo\.config\.(js|ts|ya?ml|json)$/.test(uri) ||
+      uri.endsWith(".env") ||
+      uri.endsWith(".env.local")
+    ) {
       workspace.reloadProjectForConfig(uri);
     }
 
@@ -173,6 +182,32 @@ connection.onReferences((params, token) =>
   )
 );
 
+connection.onPrepareRename((params, token) =>
+  languageProvider.providePrepareRename(
+    params.textDocument.uri,
+    params.position,
+    token
+  )
+);
+
+connection.onRenameRequest((params, token) =>
+  languageProvider.provideRename(
+    params.textDocument.uri,
+    params.position,
+    params.newName,
+    token
+  )
+);
+
+connection.onCodeAction((params, token) =>
+  languageProvider.provideCodeActions(
+    params.textDocument.uri,
+    params.range,
+    params.context,
+    token
+  )
+);
+
 connection.onDocumentSymbol((params, token) =>
   languageProvider.provideDocumentSymbol(params.textDocument.uri, token)
 );
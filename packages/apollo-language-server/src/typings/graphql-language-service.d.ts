@@ -17,8 +17,8 @@ declare module "@apollographql/graphql-language-service-interface" {
 declare module "@apollographql/graphql-language-service-interface/dist/getAutocompleteSuggestions";
 
 declare module "@apollographql/graphql-language-service-interface/dist/getDiagnostics" {
-  import { Location } from "graphql";
+  import { SourceLocation } from "graphql";
   import { Range } from "vscode-languageserver";
 
-  function getRange(location: Location, queryText: string): Range;
+  function getRange(location: SourceLocation, queryText: string): Range;
 }
@@ -0,0 +1,12 @@
+import { existsSync, mkdirSync } from "fs";
+import { dirname } from "path";
+
+/**
+ * Create a directory along with any missing parent directories.
+ * `recursive` isn't supported by `mkdirSync` in all the node versions we support.
+ */
+export function mkdirRecursive(directory: string) {
+  if (existsSync(directory)) return;
+  mkdirRecursive(dirname(directory));
+  mkdirSync(directory);
+}
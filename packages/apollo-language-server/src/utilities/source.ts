@@ -53,6 +53,10 @@ export function rangeForASTNode(node: ASTNode): Range {
   );
 }
 
+export function positionForOffset(source: Source, offset: number): Position {
+  return positionFromSourceLocation(source, getLocation(source, offset));
+}
+
 export function positionFromSourceLocation(
   source: Source,
   location: SourceLocation
@@ -6,6 +6,7 @@ import {
 import { QuickPickItem } from "vscode";
 import { GraphQLProject, DocumentUri } from "./project/base";
 import { dirname } from "path";
+import { readFileSync, existsSync, lstatSync } from "fs";
 import fg from "glob";
 import {
   loadConfig,
@@ -17,10 +18,14 @@ import { LanguageServerLoadingHandler } from "./loadingHandler";
 import { ServiceID, SchemaTag, ClientIdentity } from "./engine";
 import { GraphQLClientProject, isClientProject } from "./project/client";
 import { GraphQLServiceProject } from "./project/service";
+import { SchemaCacheOptions } from "./schema/providers";
 import URI from "vscode-uri";
+import { diagnosticsFromConfigValidationErrors } from "./diagnostics";
 
 export interface WorkspaceConfig {
   clientIdentity?: ClientIdentity;
+  // remote schemas are cached on disk when this is passed
+  schemaCache?: SchemaCacheOptions;
 }
 
 export class GraphQLWorkspace {
@@ -59,19 +64,21 @@ export class GraphQLWorkspace {
     config: ApolloConfig;
     folder: WorkspaceFolder;
   }) {
-    const { clientIdentity } = this.config;
+    const { clientIdentity, schemaCache } = this.config;
     const project = isClientConfig(config)
       ? new GraphQLClientProject({
           config,
           loadingHandler: this.LanguageServerLoadingHandler,
           rootURI: URI.parse(folder.uri),
-          clientIdentity
+          clientIdentity,
+          schemaCache
         })
       : new GraphQLServiceProject({
           config: config as ServiceConfig,
           loadingHandler: this.LanguageServerLoadingHandler,
           rootURI: URI.parse(folder.uri),
-          clientIdentity
+          clientIdentity,
+          schemaCache
         });
 
     project.onDiagnostics(params => {
@@ -91,6 +98,23 @@ export class GraphQLWorkspace {
     return project;
   }
 
+  // Reports unknown keys and values of the wrong type on the config file, or clears them once fixed
+  private publishConfigDiagnostics(config: ApolloConfig) {
+    if (!this._onDiagnostics || !config.configURI) return;
+
+    const configPath = config.configURI.fsPath;
+    if (!existsSync(configPath) || !lstatSync(configPath).isFile()) return;
+
+    this._onDiagnostics({
+      uri: config.configURI.toString(),
+      diagnostics: diagnosticsFromConfigValidationErrors(
+        readFileSync(configPath, "utf8"),
+        config.validationErrors,
+        /\.ya?ml$/.test(configPath)
+      )
+    });
+  }
+
   async addProjectsInFolder(folder: WorkspaceFolder) {
     // load all possible workspace projects (contains possible config)
     // see if we can move this detection to cosmiconfig
@@ -107,11 +131,14 @@ export class GraphQLWorkspace {
         -- ~/:user/server (GraphQLProject) as WorkspaceFolder
 
     */
-    const apolloConfigFiles: string[] = fg.sync("**/apollo.config.@(js|ts)", {
-      cwd: URI.parse(folder.uri).fsPath,
-      absolute: true,
-      ignore: "**/node_modules/**"
-    });
+    const apolloConfigFiles: string[] = fg.sync(
+      "**/apollo.config.@(js|ts|yml|yaml|json)",
+      {
+        cwd: URI.parse(folder.uri).fsPath,
+        absolute: true,
+        ignore: "**/node_modules/**"
+      }
+    );
 
     // only have unique possible folders
     const apolloConfigFolders = new Set<string>(apolloConfigFiles.map(dirname));
@@ -123,8 +150,9 @@ export class GraphQLWorkspace {
       loadConfig({ configPath: configFolder, requireConfig: true })
         .then(config => {
           foundConfigs.push(config);
+          this.publishConfigDiagnostics(config);
           const projectsForConfig = config.projects.map(projectConfig =>
-            this.createProject({ config, folder })
+            this.createProject({ config: projectConfig, folder })
           );
 
           const existingProjects =
@@ -151,6 +179,7 @@ export class GraphQLWorkspace {
         uri,
         projects.map(project => {
           project.clearAllDiagnostics();
+          project.dispose();
           return this.createProject({
             config: project.config,
             folder: { uri } as WorkspaceFolder
@@ -170,33 +199,40 @@ export class GraphQLWorkspace {
       error = e;
     }
 
-    const project = this.projectForFile(configUri);
-
-    if (!config && this._onConfigFilesFound) {
-      this._onConfigFilesFound(error);
-    }
-    // If project exists, update the config
-    if (project && config) {
-      await Promise.all(project.updateConfig(config));
-      this.reloadService();
+    if (!config) {
+      if (this._onConfigFilesFound) this._onConfigFilesFound(error);
+      return;
     }
 
-    // If project doesn't exist (new config file), create the project and add to workspace
-    if (!project && config) {
-      const folderUri = URI.file(configPath).toString();
+    this.publishConfigDiagnostics(config);
 
-      const newProject = this.createProject({
-        config,
-        folder: { uri: folderUri } as WorkspaceFolder
-      });
+    // A config can define several projects, and projects may have been added to or removed from
+    // it, so all of its projects are replaced
+    const isProjectForConfig = (project: GraphQLProject) =>
+      !!project.config.configDirURI &&
+      project.config.configDirURI.fsPath === configPath;
 
-      const existingProjects = this.projectsByFolderUri.get(folderUri) || [];
-      this.projectsByFolderUri.set(folderUri, [
-        ...existingProjects,
-        newProject
-      ]);
-      this.reloadService();
-    }
+    // If the config is new, its projects are added to the workspace as a folder of their own
+    const folderUri =
+      Array.from(this.projectsByFolderUri.keys()).find(uri =>
+        this.projectsByFolderUri.get(uri)!.some(isProjectForConfig)
+      ) || URI.file(configPath).toString();
+
+    const existingProjects = this.projectsByFolderUri.get(folderUri) || [];
+    existingProjects.filter(isProjectForConfig).forEach(project => {
+      project.clearAllDiagnostics();
+      project.dispose();
+    });
+
+    this.projectsByFolderUri.set(folderUri, [
+      ...existingProjects.filter(project => !isProjectForConfig(project)),
+      ...config.projects.map(projectConfig =>
+        this.createProject({
+          config: projectConfig,
+          folder: { uri: folderUri } as WorkspaceFolder
+        })
+      )
+    ]);
   }
 
   updateSchemaTag(selection: QuickPickItem) {
@@ -215,7 +251,10 @@ export class GraphQLWorkspace {
   removeProjectsInFolder(folder: WorkspaceFolder) {
     const projects = this.projectsByFolderUri.get(folder.uri);
     if (projects) {
-      projects.forEach(project => project.clearAllDiagnostics());
+      projects.forEach(project => {
+        project.clearAllDiagnostics();
+        project.dispose();
+      });
       this.projectsByFolderUri.delete(folder.uri);
     }
   }
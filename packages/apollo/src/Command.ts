@@ -11,7 +11,8 @@ import {
   isClientConfig,
   isServiceConfig,
   ApolloConfig,
-  getServiceFromKey
+  getServiceFromKey,
+  SchemaCacheOptions
 } from "apollo-language-server";
 import { WithRequired, DeepPartial } from "apollo-env";
 import { OclifLoadingHandler } from "./OclifLoadingHandler";
@@ -28,6 +29,7 @@ export interface ProjectContext<Flags = any, Args = any> {
 
 export interface Flags {
   config?: string;
+  project?: string;
   header?: string[];
   endpoint?: string;
   localSchemaFile?: string;
@@ -36,6 +38,8 @@ export interface Flags {
   frontend?: string;
   tag?: string;
   skipSSLValidation?: boolean;
+  offline?: boolean;
+  refresh?: boolean;
 }
 
 export interface ClientCommandFlags extends Flags {
@@ -48,7 +52,7 @@ export interface ClientCommandFlags extends Flags {
   clientVersion?: string;
 }
 
-const headersArrayToObject = (
+export const headersArrayToObject = (
   arr?: string[]
 ): Record<string, string> | undefined => {
   if (!arr) return;
@@ -63,6 +67,10 @@ export abstract class ProjectCommand extends Command {
       char: "c",
       description: "Path to your Apollo config file"
     }),
+    project: flags.string({
+      description:
+        "Name of the project to use from the projects of your Apollo config"
+    }),
     header: flags.string({
       multiple: true,
       parse: header => {
@@ -87,14 +95,31 @@ export abstract class ProjectCommand extends Command {
     frontend: flags.string({
       description: "URL for a custom Apollo Engine frontend",
       hidden: true
+    }),
+    offline: flags.boolean({
+      description:
+        "Use the schema cached by the last run that loaded it from Apollo Engine or an endpoint",
+      exclusive: ["refresh"]
+    }),
+    refresh: flags.boolean({
+      description:
+        "Load the schema from Apollo Engine or an endpoint without falling back to the cached schema when that fails",
+      exclusive: ["offline"]
     })
   };
 
   public project!: GraphQLProject;
   public tasks: ListrTask[] = [];
 
-  protected type: "service" | "client" = "service";
-  protected configMap?: (flags: any) => DeepPartial<ApolloConfig>;
+  // the type of project loaded, which is determined from the config when it's undefined
+  protected type?: "service" | "client" = "service";
+  protected configMap?: (
+    flags: any,
+    config: ApolloConfig
+  ) => DeepPartial<ApolloConfig>;
+  // commands that send the schema to Engine turn this off, so a failure to load it is never
+  // covered up by a stale schema from the cache
+  protected useSchemaCache = true;
   private ctx!: ProjectContext;
 
   async init() {
@@ -116,14 +141,30 @@ export abstract class ProjectCommand extends Command {
   }
 
   protected async createConfig(flags: Flags) {
+    const config = await this.readConfig(flags);
+    this.applyFlags(config, flags);
+    return config;
+  }
+
+  // the config from the config file and the environment, before flags are applied
+  protected async readConfig(flags: Flags) {
     const service = flags.key ? getServiceFromKey(flags.key) : undefined;
     const config = await loadConfig({
       configPath: flags.config && parse(resolve(flags.config)).dir,
       configFileName: flags.config,
       name: service,
-      type: this.type
+      type: this.type,
+      project: flags.project
     });
 
+    for (const { message } of config.validationErrors) {
+      this.warn(`Invalid Apollo config: ${message}`);
+    }
+
+    return config;
+  }
+
+  protected applyFlags(config: ApolloConfig, flags: Flags) {
     config.tag = flags.tag || config.tag || "current";
     //  flag overides
     config.setDefaults({
@@ -166,11 +207,9 @@ export abstract class ProjectCommand extends Command {
 
     // load per command type defaults;
     if (this.configMap) {
-      const defaults = this.configMap(flags);
+      const defaults = this.configMap(flags, config);
       config.setDefaults(defaults);
     }
-
-    return config;
   }
 
   protected createService(config: ApolloConfig, flags: Flags) {
@@ -190,19 +229,36 @@ export abstract class ProjectCommand extends Command {
       referenceID
     };
 
+    if (flags.offline && !this.useSchemaCache) {
+      throw new Error(
+        `${
+          this.id
+        } sends the schema to Engine, so it can't use a cached schema with --offline`
+      );
+    }
+    const schemaCache: SchemaCacheOptions = {
+      mode: flags.offline
+        ? "offline"
+        : flags.refresh || !this.useSchemaCache
+        ? "refresh"
+        : undefined
+    };
+
     if (isServiceConfig(config)) {
       this.project = new GraphQLServiceProject({
         config,
         loadingHandler,
         rootURI,
-        clientIdentity
+        clientIdentity,
+        schemaCache
       });
     } else if (isClientConfig(config)) {
       this.project = new GraphQLClientProject({
         config,
         loadingHandler,
         rootURI,
-        clientIdentity
+        clientIdentity,
+        schemaCache
       });
     } else {
       throw new Error(
@@ -237,6 +293,36 @@ export abstract class ProjectCommand extends Command {
   }
 }
 
+export const clientConfigMap = (flags: ClientCommandFlags) => {
+  const config = {
+    client: {
+      name: flags.clientName,
+      referenceID: flags.clientReferenceId,
+      version: flags.clientVersion
+    }
+  } as WithRequired<DeepPartial<ApolloConfig>, "client">;
+  if (flags.endpoint) {
+    config.client.service = {
+      url: flags.endpoint,
+      headers: headersArrayToObject(flags.header)
+    };
+  }
+
+  if (flags.includes || flags.queries) {
+    config.client.includes = [flags.includes || flags.queries];
+  }
+
+  if (flags.excludes) {
+    config.client.excludes = [flags.excludes];
+  }
+
+  if (flags.tagName) {
+    config.client.tagName = flags.tagName;
+  }
+
+  return config;
+};
+
 export abstract class ClientCommand extends ProjectCommand {
   static flags = {
     ...ProjectCommand.flags,
@@ -275,34 +361,6 @@ export abstract class ClientCommand extends ProjectCommand {
   constructor(argv, config) {
     super(argv, config);
     this.type = "client";
-    this.configMap = (flags: ClientCommandFlags) => {
-      const config = {
-        client: {
-          name: flags.clientName,
-          referenceID: flags.clientReferenceId,
-          version: flags.clientVersion
-        }
-      } as WithRequired<DeepPartial<ApolloConfig>, "client">;
-      if (flags.endpoint) {
-        config.client.service = {
-          url: flags.endpoint,
-          headers: headersArrayToObject(flags.header)
-        };
-      }
-
-      if (flags.includes || flags.queries) {
-        config.client.includes = [flags.includes || flags.queries];
-      }
-
-      if (flags.excludes) {
-        config.client.excludes = [flags.excludes];
-      }
-
-      if (flags.tagName) {
-        config.client.tagName = flags.tagName;
-      }
-
-      return config;
-    };
+    this.configMap = clientConfigMap;
   }
 }
@@ -25,4 +25,7 @@ export class OclifLoadingHandler implements LoadingHandler {
   showError(message: string) {
     this.command.error(message);
   }
+  showWarning(message: string) {
+    this.command.warn(message);
+  }
 }
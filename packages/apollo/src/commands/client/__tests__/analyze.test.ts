@@ -0,0 +1,104 @@
+// this is because of herkou-cli-utils hacky mocking system on their console logger
+import { mockConsole } from "heroku-cli-util";
+import path from "path";
+import fs from "fs";
+import { test as setup } from "apollo-cli-test";
+
+const test = setup.do(() => mockConsole());
+
+const files = {
+  "schema.graphql": fs.readFileSync(
+    path.resolve(__dirname, "../../service/__tests__/fixtures/schema.graphql"),
+    { encoding: "utf-8" }
+  ),
+  "queries.graphql": `
+    query SimpleQuery {
+      hello
+    }
+
+    query ServerQuery {
+      serverSideField {
+        serverData
+      }
+      someEnum
+    }
+  `
+};
+
+const config = (complexity: object = {}) => `
+  module.exports = {
+    client: {
+      includes: ["./queries.graphql"],
+      service: { name: "my-service-name", localSchemaFile: "./schema.graphql" },
+      complexity: ${JSON.stringify(complexity)}
+    }
+  }
+`;
+
+// the captured output also contains the task logs
+const jsonOutput = (stdout: string) =>
+  JSON.parse(stdout.slice(stdout.indexOf("\n{") + 1));
+
+jest.setTimeout(25000);
+
+describe("client:analyze", () => {
+  test
+    .fs({ ...files, "my.config.js": config() })
+    .stdout()
+    .command(["client:analyze", "--config=my.config.js", "--json"])
+    .it("reports the depth, field count and cost of operations", ctx => {
+      expect(jsonOutput(ctx.stdout)).toEqual({
+        operations: [
+          {
+            operationName: "SimpleQuery",
+            depth: 1,
+            fieldCount: 1,
+            cost: 1,
+            errors: []
+          },
+          {
+            operationName: "ServerQuery",
+            depth: 2,
+            fieldCount: 3,
+            cost: 3,
+            errors: []
+          }
+        ]
+      });
+    });
+
+  test
+    .fs({
+      ...files,
+      "my.config.js": config({ fieldCosts: { "Query.someEnum": 5 } })
+    })
+    .stdout()
+    .command([
+      "client:analyze",
+      "--config=my.config.js",
+      "--json",
+      "--maxDepth=1",
+      "--maxCost=6"
+    ])
+    .catch(err => expect(err.message).toBe("EEXIT: 1"))
+    .it("fails when an operation exceeds a threshold", ctx => {
+      const { operations } = jsonOutput(ctx.stdout);
+      expect(operations[0].errors).toEqual([]);
+      expect(operations[1].errors).toEqual([
+        "depth of 2 exceeds the maximum of 1",
+        "cost of 7 exceeds the maximum of 6"
+      ]);
+    });
+
+  test
+    .fs({ ...files, "my.config.js": config({ maxFieldCount: 2 }) })
+    .stdout()
+    .command(["client:analyze", "--config=my.config.js", "--json"])
+    .catch(err => expect(err.message).toBe("EEXIT: 1"))
+    .it("reads thresholds from the config", ctx => {
+      const { operations } = jsonOutput(ctx.stdout);
+      expect(operations[1].errors).toEqual([
+        "field count of 3 exceeds the maximum of 2"
+      ]);
+    });
+});
@@ -0,0 +1,96 @@
+// this is because of herkou-cli-utils hacky mocking system on their console logger
+import { mockConsole } from "heroku-cli-util";
+import { test as setup } from "apollo-cli-test";
+
+const test = setup.do(() => mockConsole());
+
+const files = {
+  "schema.graphql": `
+    type Query {
+      me: User
+      users(role: Role): [User]
+    }
+
+    type User {
+      id: ID!
+      name: String @deprecated(reason: "Use fullName")
+      fullName: String
+      role: Role
+    }
+
+    enum Role {
+      ADMIN
+      MEMBER
+      GUEST @deprecated(reason: "Guests have been removed")
+    }
+  `,
+  "queries.graphql": `query Me {
+  me {
+    name
+    fullName
+  }
+}
+`,
+  "components.js": `
+    const query = gql\`
+      query Guests {
+        users(role: GUEST) {
+          id
+          name
+        }
+      }
+    \`;
+  `,
+  "my.config.js": `
+    module.exports = {
+      client: {
+        includes: ["./queries.graphql", "./components.js"],
+        service: { name: "my-service-name", localSchemaFile: "./schema.graphql" }
+      }
+    }
+  `
+};
+
+// the captured output also contains the task logs
+const jsonOutput = (stdout: string) =>
+  JSON.parse(stdout.slice(stdout.indexOf("\n{") + 1));
+
+jest.setTimeout(25000);
+
+describe("client:deprecations", () => {
+  test
+    .fs(files)
+    .stdout()
+    .command(["client:deprecations", "--config=my.config.js", "--json"])
+    .it("lists deprecated usages with their locations", ctx => {
+      const { usages } = jsonOutput(ctx.stdout);
+      expect(
+        usages.sort((a: any, b: any) => a.file.localeCompare(b.file))
+      ).toEqual([
+        {
+          file: "components.js",
+          line: 4,
+          column: 21,
+          kind: "enumValue",
+          coordinate: "Role.GUEST",
+          reason: "Guests have been removed"
+        },
+        {
+          file: "components.js",
+          line: 6,
+          column: 11,
+          kind: "field",
+          coordinate: "User.name",
+          reason: "Use fullName"
+        },
+        {
+          file: "queries.graphql",
+          line: 3,
+          column: 5,
+          kind: "field",
+          coordinate: "User.name",
+          reason: "Use fullName"
+        }
+      ]);
+    });
+});
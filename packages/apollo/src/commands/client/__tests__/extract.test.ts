@@ -0,0 +1,123 @@
+// this is because of herkou-cli-utils hacky mocking system on their console logger
+import { mockConsole } from "heroku-cli-util";
+import path from "path";
+import fs from "fs";
+import { createHash } from "crypto";
+import { test as setup } from "apollo-cli-test";
+
+const test = setup.do(() => mockConsole());
+
+const readFixture = (fileName: string) =>
+  fs.readFileSync(path.resolve(__dirname, fileName), { encoding: "utf-8" });
+
+const files = {
+  "schema.graphql": readFixture(
+    "../../service/__tests__/fixtures/schema.graphql"
+  ),
+  "queryOne.graphql": readFixture("./fixtures/simpleQuery.graphql"),
+  "queryTwo.graphql": `
+    query OtherQuery {
+      hello
+      ...HelloFragment
+    }
+
+    fragment HelloFragment on Query {
+      aliased: hello
+    }
+  `,
+  "my.config.js": `
+    module.exports = {
+      client: {
+        name: "my-client",
+        includes: ["./**.graphql"],
+        excludes: ["./schema.graphql"],
+        service: { name: "my-service-name", localSchemaFile: "./schema.graphql" }
+      }
+    }
+  `
+};
+
+const sha256 = (text: string) =>
+  createHash("sha256")
+    .update(text)
+    .digest("hex");
+
+jest.setTimeout(25000);
+
+describe("client:extract", () => {
+  test
+    .fs(files)
+    .command(["client:extract", "--config=my.config.js"])
+    .it("writes an operation manifest with engine signatures", () => {
+      const manifest = JSON.parse(fs.readFileSync("manifest.json").toString());
+      expect(manifest).toMatchSnapshot();
+    });
+
+  test
+    .fs(files)
+    .command([
+      "client:extract",
+      "persisted-queries.json",
+      "--config=my.config.js",
+      "--format=apq"
+    ])
+    .it("writes a map of document hashes for persisted queries", () => {
+      const map = JSON.parse(
+        fs.readFileSync("persisted-queries.json").toString()
+      );
+      expect(Object.values(map)).toHaveLength(2);
+      for (const [hash, document] of Object.entries(map)) {
+        expect(hash).toBe(sha256(document as string));
+      }
+      expect(Object.values(map)).toContainEqual(
+        expect.stringContaining("fragment HelloFragment on Query")
+      );
+    });
+
+  test
+    .fs(files)
+    .command([
+      "client:extract",
+      "relay.json",
+      "--config=my.config.js",
+      "--format=relay"
+    ])
+    .it("writes a relay style map of query ids", () => {
+      const map = JSON.parse(fs.readFileSync("relay.json").toString());
+      expect(map).toMatchSnapshot();
+    });
+
+  test
+    .fs(files)
+    .command(["client:extract", "--config=my.config.js", "--format=directory"])
+    .it("writes a file per operation", () => {
+      expect(fs.readdirSync("operations").sort()).toEqual([
+        "OtherQuery.graphql",
+        "SimpleQuery.graphql"
+      ]);
+      expect(
+        fs.readFileSync("operations/SimpleQuery.graphql").toString()
+      ).toMatchSnapshot();
+    });
+
+  test
+    .fs(files)
+    .command([
+      "client:extract",
+      "generated/operations",
+      "--config=my.config.js",
+      "--format=directory"
+    ])
+    .it("creates the missing parents of the directory", () => {
+      expect(fs.readdirSync("generated/operations").sort()).toEqual([
+        "OtherQuery.graphql",
+        "SimpleQuery.graphql"
+      ]);
+    });
+
+  test
+    .fs(files)
+    .command(["client:extract", "--config=my.config.js", "--format=yaml"])
+    .catch(err => expect(err.message).toMatch(/Expected --format=yaml/))
+    .it("rejects unknown formats");
+});
@@ -71,6 +71,44 @@ const defaultFiles = {
   "./my.config.js": defaultConfig
 };
 
+const possibleTypesFiles = {
+  "schema.graphql": `
+    type Query {
+      node(id: ID!): Node
+      search(text: String!): [SearchResult]
+    }
+
+    interface Node {
+      id: ID!
+    }
+
+    type User implements Node {
+      id: ID!
+    }
+
+    type Organization implements Node {
+      id: ID!
+    }
+
+    union SearchResult = User | Organization
+  `,
+  "queryOne.graphql": `
+    query Node {
+      node(id: "1") {
+        id
+      }
+    }
+  `,
+  "my.config.js": `
+    module.exports = {
+      client: {
+        includes: ["./queryOne.graphql"],
+        service: { name: "my-service-name", localSchemaFile: "./schema.graphql" }
+      }
+    }
+  `
+};
+
 jest.setTimeout(25000);
 
 describe("client:codegen", () => {
@@ -174,6 +212,59 @@ describe("client:codegen", () => {
       expect(fs.readFileSync("API.scala").toString()).toMatchSnapshot();
     });
 
+  test
+    .fs({
+      "schema.json": fullSchemaJsonString,
+      "queryOne.graphql": simpleQuery.toString(),
+      "my.config.js": defaultConfig
+    })
+    .command([
+      "client:codegen",
+      "--target=kotlin",
+      "API.kt",
+      "--config=my.config.js",
+      "--namespace=com.example.api"
+    ])
+    .it("writes types for kotlin", () => {
+      expect(fs.readFileSync("API.kt").toString()).toMatchSnapshot();
+    });
+
+  test
+    .fs({
+      "schema.json": fullSchemaJsonString,
+      "queryOne.graphql": simpleQuery.toString(),
+      "my.config.js": defaultConfig
+    })
+    .command([
+      "client:codegen",
+      "--target=dart",
+      "api.dart",
+      "--config=my.config.js"
+    ])
+    .it("writes types for dart", () => {
+      expect(fs.readFileSync("api.dart").toString()).toMatchSnapshot();
+    });
+
+  test
+    .fs({
+      "schema.json": fullSchemaJsonString,
+      "queryOne.graphql": simpleQuery.toString(),
+      "my.config.js": defaultConfig
+    })
+    .command([
+      "client:codegen",
+      "--target=json-schema",
+      "schema.generated.json",
+      "--zodFile=schemas.ts",
+      "--config=my.config.js"
+    ])
+    .it("writes JSON schemas and zod schemas for json-schema", () => {
+      expect(
+        fs.readFileSync("schema.generated.json").toString()
+      ).toMatchSnapshot();
+      expect(fs.readFileSync("schemas.ts").toString()).toMatchSnapshot();
+    });
+
   test
     .fs({
       "schema.json": fullSchemaJsonString,
@@ -191,6 +282,138 @@ describe("client:codegen", () => {
       expect(fs.readFileSync("API.ts").toString()).toMatchSnapshot();
     });
 
+  test
+    .fs({
+      "schema.json": fullSchemaJsonString,
+      "queryOne.graphql": simpleQuery.toString(),
+      "my.config.js": defaultConfig
+    })
+    .command([
+      "client:codegen",
+      "--config=my.config.js",
+      "--target=typescript",
+      "--outputFlat",
+      "--typedDocumentNodes",
+      "API.ts"
+    ])
+    .it("writes typed document nodes for typescript", () => {
+      expect(fs.readFileSync("API.ts").toString()).toMatchSnapshot();
+    });
+
+  test
+    .fs({
+      "schema.graphql": `
+        scalar DateTime
+        scalar JSON
+
+        type Query {
+          now: DateTime!
+          settings: JSON
+        }
+      `,
+      "queryOne.graphql": `
+        query Settings {
+          now
+          settings
+        }
+      `,
+      "my.config.js": `
+        module.exports = {
+          client: {
+            includes: ["./queryOne.graphql"],
+            service: { name: "my-service-name", localSchemaFile: "./schema.graphql" },
+            scalars: { DateTime: { type: "DateTime", import: "luxon" } }
+          }
+        }
+      `
+    })
+    .command([
+      "client:codegen",
+      "--config=my.config.js",
+      "--target=typescript",
+      "--outputFlat",
+      '--scalars={"JSON": "unknown"}',
+      "API.ts"
+    ])
+    .it("writes the types of mapped custom scalars for typescript", () => {
+      expect(fs.readFileSync("API.ts").toString()).toMatchSnapshot();
+    });
+
+  test
+    .fs(possibleTypesFiles)
+    .command([
+      "client:codegen",
+      "--config=my.config.js",
+      "--target=typescript",
+      "--outputFlat",
+      "--possibleTypesPath=possibleTypes.json",
+      "API.ts"
+    ])
+    .it("writes the possible types of interfaces and unions", () => {
+      expect(
+        JSON.parse(fs.readFileSync("possibleTypes.json").toString())
+      ).toEqual({
+        Node: ["Organization", "User"],
+        SearchResult: ["Organization", "User"]
+      });
+    });
+
+  test
+    .fs(possibleTypesFiles)
+    .command([
+      "client:codegen",
+      "--config=my.config.js",
+      "--target=typescript",
+      "--outputFlat",
+      "--possibleTypesPath=possibleTypes.ts",
+      "--onlyUsedPossibleTypes",
+      "API.ts"
+    ])
+    .it(
+      "writes the possible types of the interfaces and unions used as TypeScript",
+      () => {
+        expect(
+          fs.readFileSync("possibleTypes.ts").toString()
+        ).toMatchSnapshot();
+      }
+    );
+
+  test
+    .fs(possibleTypesFiles)
+    .command([
+      "client:codegen",
+      "--config=my.config.js",
+      "--target=flow",
+      "--outputFlat",
+      "--possibleTypesPath=possibleTypes.js",
+      "API.js"
+    ])
+    .it(
+      "writes the possible types to a .js file as a JavaScript module",
+      () => {
+        expect(fs.readFileSync("possibleTypes.js").toString()).toMatch(
+          /^export const possibleTypes = {$/m
+        );
+      }
+    );
+
+  test
+    .fs(possibleTypesFiles)
+    .command([
+      "client:codegen",
+      "--config=my.config.js",
+      "--target=flow",
+      "--outputFlat",
+      "--possibleTypesPath=possibleTypes.js",
+      "--possibleTypesFormat=flow",
+      "API.js"
+    ])
+    .it("writes the possible types in the format passed in", () => {
+      expect(fs.readFileSync("possibleTypes.js").toString()).toMatch(
+        /^\/\* @flow \*\/$/m
+      );
+    });
+
   test
     .fs({
       "schema.json": fullSchemaJsonString,
@@ -0,0 +1,132 @@
+// this is because of herkou-cli-utils hacky mocking system on their console logger
+import { mockConsole } from "heroku-cli-util";
+import path from "path";
+import fs from "fs";
+import { test as setup } from "apollo-cli-test";
+
+const test = setup.do(() => mockConsole());
+
+const files = {
+  "schema.graphql": fs.readFileSync(
+    path.resolve(__dirname, "../../service/__tests__/fixtures/schema.graphql"),
+    { encoding: "utf-8" }
+  ),
+  "queries.graphql": `
+    query SimpleQuery {
+      hello
+    }
+
+    query ServerQuery {
+      serverSideField {
+        ...ServerFields
+      }
+      someEnum
+    }
+
+    fragment ServerFields on ServerField {
+      __typename
+      serverData
+    }
+  `
+};
+
+const config = (mocks: string = "{}") => `
+  module.exports = {
+    client: {
+      includes: ["./queries.graphql"],
+      service: { name: "my-service-name", localSchemaFile: "./schema.graphql" },
+      mocks: ${mocks}
+    }
+  }
+`;
+
+// the captured output also contains the task logs
+const jsonOutput = (stdout: string) =>
+  JSON.parse(stdout.slice(stdout.indexOf("\n{") + 1));
+
+jest.setTimeout(25000);
+
+describe("client:mocks", () => {
+  test
+    .fs({ ...files, "my.config.js": config() })
+    .stdout()
+    .command(["client:mocks", "--config=my.config.js"])
+    .it("prints a mock response for every operation", ctx => {
+      expect(jsonOutput(ctx.stdout)).toMatchSnapshot();
+    });
+
+  test
+    .fs({
+      ...files,
+      "my.config.js": config(`{
+        seed: 42,
+        types: { String: ({ fieldName }) => "mocked " + fieldName }
+      }`)
+    })
+    .stdout()
+    .command(["client:mocks", "--config=my.config.js", "--seed=7"])
+    .it("uses the configured mocks", ctx => {
+      expect(jsonOutput(ctx.stdout).SimpleQuery).toEqual({
+        data: { hello: "mocked hello" }
+      });
+    });
+
+  test
+    .fs({
+      ...files,
+      "other.graphql": `
+        query OtherQuery {
+          hello
+        }
+      `,
+      "my.config.js": `
+        module.exports = {
+          projects: {
+            web: {
+              client: {
+                includes: ["./queries.graphql"],
+                service: { name: "my-service-name", localSchemaFile: "./schema.graphql" }
+              }
+            },
+            other: {
+              client: {
+                includes: ["./other.graphql"],
+                service: { name: "my-service-name", localSchemaFile: "./schema.graphql" }
+              }
+            }
+          }
+        }
+      `
+    })
+    .stdout()
+    .command(["client:mocks", "--config=my.config.js", "--project=other"])
+    .it("uses the project passed in", ctx => {
+      expect(Object.keys(jsonOutput(ctx.stdout))).toEqual(["OtherQuery"]);
+    });
+
+  test
+    .fs({ ...files, "my.config.js": config() })
+    .stdout()
+    .command(["client:mocks", "--config=my.config.js", "fixtures"])
+    .it("writes a file for every operation to a directory", () => {
+      expect(fs.readdirSync("fixtures").sort()).toEqual([
+        "ServerQuery.json",
+        "SimpleQuery.json"
+      ]);
+      expect(
+        JSON.parse(fs.readFileSync("fixtures/ServerQuery.json", "utf-8")).data
+          .serverSideField.__typename
+      ).toBe("ServerField");
+    });
+
+  test
+    .fs({ ...files, "my.config.js": config() })
+    .stdout()
+    .command(["client:mocks", "--config=my.config.js", "test/fixtures"])
+    .it("creates the missing parents of the directory", () => {
+      expect(fs.readdirSync("test/fixtures").sort()).toEqual([
+        "ServerQuery.json",
+        "SimpleQuery.json"
+      ]);
+    });
+});
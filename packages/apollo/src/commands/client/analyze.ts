@@ -0,0 +1,152 @@
+import { flags } from "@oclif/command";
+import { table } from "heroku-cli-util";
+import chalk from "chalk";
+import { operationComplexity, OperationComplexity } from "apollo-graphql";
+import { ClientCommand } from "../../Command";
+
+interface Thresholds {
+  depth?: number;
+  fieldCount?: number;
+  cost?: number;
+}
+
+interface AnalyzeResult extends OperationComplexity {
+  errors: string[];
+}
+
+interface TasksOutput {
+  results: AnalyzeResult[];
+  shouldOutputJson: boolean;
+}
+
+const measureLabels: { [measure in keyof Thresholds]-?: string } = {
+  depth: "depth",
+  fieldCount: "field count",
+  cost: "cost"
+};
+
+export default class ClientAnalyze extends ClientCommand {
+  static description =
+    "Analyze the depth, field count and cost of a client's operations";
+  static flags = {
+    ...ClientCommand.flags,
+    maxDepth: flags.integer({
+      description:
+        "Fail when an operation nests fields deeper than this. Overrides client.complexity.maxDepth"
+    }),
+    maxFieldCount: flags.integer({
+      description:
+        "Fail when an operation selects more fields than this. Overrides client.complexity.maxFieldCount"
+    }),
+    maxCost: flags.integer({
+      description:
+        "Fail when the cost of an operation is higher than this. Overrides client.complexity.maxCost"
+    }),
+    json: flags.boolean({
+      description:
+        "Output result in json, which can then be parsed by CLI tools such as jq."
+    })
+  };
+
+  async run() {
+    const { results, shouldOutputJson } = await this.runTasks<TasksOutput>(
+      ({ flags, project }) => [
+        {
+          title: "Analyzing operations",
+          task: async (ctx: TasksOutput) => {
+            const schema = await project.resolveSchema({ tag: flags.tag });
+            const { complexity = {} } = this.project.config.client;
+
+            const thresholds: Thresholds = {
+              depth: firstDefined(flags.maxDepth, complexity.maxDepth),
+              fieldCount: firstDefined(
+                flags.maxFieldCount,
+                complexity.maxFieldCount
+              ),
+              cost: firstDefined(flags.maxCost, complexity.maxCost)
+            };
+
+            const fragments = this.project.fragments;
+            ctx.results = Object.values(this.project.operations).map(
+              operation => {
+                const result = operationComplexity(
+                  schema,
+                  operation,
+                  fragments,
+                  complexity
+                );
+                return {
+                  ...result,
+                  errors: thresholdErrors(result, thresholds)
+                };
+              }
+            );
+            ctx.shouldOutputJson = !!flags.json;
+          }
+        }
+      ]
+    );
+
+    const failures = results.filter(({ errors }) => errors.length > 0);
+
+    if (shouldOutputJson) {
+      this.log(JSON.stringify({ operations: results }, null, 2));
+    } else if (results.length === 0) {
+      this.log("\nNo operations found to analyze\n");
+    } else {
+      this.log("\n");
+      table(
+        results.map(({ operationName, depth, fieldCount, cost, errors }) => ({
+          operation:
+            errors.length > 0 ? chalk.red(operationName || "") : operationName,
+          depth,
+          fieldCount,
+          cost
+        })),
+        {
+          columns: [
+            { key: "operation", label: "Operation" },
+            { key: "depth", label: "Depth" },
+            { key: "fieldCount", label: "Fields" },
+            { key: "cost", label: "Cost" }
+          ]
+        }
+      );
+      this.log("\n");
+
+      for (const { operationName, errors } of failures) {
+        for (const error of errors) {
+          this.log(`${chalk.red("error")} ${operationName}: ${error}`);
+        }
+      }
+      if (failures.length > 0) this.log("\n");
+    }
+
+    // exit with failing status if any operation exceeds a threshold
+    if (failures.length > 0) {
+      this.exit(1);
+    }
+  }
+}
+
+function firstDefined<T>(...values: (T | undefined)[]): T | undefined {
+  return values.find(value => value !== undefined);
+}
+
+function thresholdErrors(
+  complexity: OperationComplexity,
+  thresholds: Thresholds
+): string[] {
+  const errors: string[] = [];
+  for (const measure of Object.keys(measureLabels) as (keyof Thresholds)[]) {
+    const threshold = thresholds[measure];
+    if (threshold !== undefined && complexity[measure] > threshold) {
+      errors.push(
+        `${measureLabels[measure]} of ${
+          complexity[measure]
+        } exceeds the maximum of ${threshold}`
+      );
+    }
+  }
+  return errors;
+}
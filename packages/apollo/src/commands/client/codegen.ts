@@ -5,6 +5,9 @@ import { Kind, DocumentNode } from "graphql";
 import tty from "tty";
 import { Gaze } from "gaze";
 import URI from "vscode-uri";
+import { ClientScalarConfig } from "apollo-language-server";
+import { ScalarMapping } from "apollo-codegen-core/lib/compiler";
+import { PossibleTypesFormat } from "apollo-codegen-core/lib/possibleTypes";
 
 import { TargetType, default as generate } from "../../generate";
 
@@ -22,6 +25,18 @@ const waitForKey = async () => {
   );
 };
 
+// Scalars can be mapped to just a type name
+const scalarMappings = (scalars: {
+  [scalarName: string]: ClientScalarConfig;
+}): { [scalarName: string]: ScalarMapping } => {
+  const mappings: { [scalarName: string]: ScalarMapping } = {};
+  for (const [scalarName, scalar] of Object.entries(scalars)) {
+    mappings[scalarName] =
+      typeof scalar === "string" ? { type: scalar } : scalar;
+  }
+  return mappings;
+};
+
 export default class Generate extends ClientCommand {
   static aliases = ["codegen:generate"];
   static description =
@@ -36,7 +51,7 @@ export default class Generate extends ClientCommand {
     // general
     target: flags.string({
       description:
-        "Type of code generator to use (swift | typescript | flow | scala)",
+        "Type of code generator to use (swift | typescript | flow | scala | kotlin | dart | json-schema)",
       required: true
     }),
     localSchemaFile: flags.string({
@@ -56,21 +71,39 @@ export default class Generate extends ClientCommand {
       description:
         "Include a prefix when using provided types for custom scalars"
     }),
+    scalars: flags.string({
+      description:
+        'JSON map of custom scalars to the types generated for them, e.g. \'{"DateTime": {"type": "DateTime", "import": "luxon"}, "JSON": "unknown"}\'. Merged with client.scalars, and takes precedence over passthroughCustomScalars [TypeScript, Flow, Swift and Scala only]'
+    }),
     mergeInFieldsFromFragmentSpreads: flags.boolean({
       description: "Merge fragment fields onto its enclosing type"
     }),
+    possibleTypesPath: flags.string({
+      description:
+        "Path to a file to which the concrete types of every interface and union are written, for Apollo Client's `possibleTypes` option"
+    }),
+    possibleTypesFormat: flags.string({
+      description:
+        "Format of the possible types file. Inferred from its extension when omitted: typescript for .ts, javascript for .js and .mjs, flow for .flow and json otherwise",
+      options: ["json", "typescript", "flow", "javascript"]
+    }),
+    onlyUsedPossibleTypes: flags.boolean({
+      description:
+        "Only write the possible types of the interfaces and unions selected by your operations and fragments"
+    }),
 
-    // swift
+    // swift, kotlin
     namespace: flags.string({
-      description: "The namespace to emit generated code into."
+      description:
+        "The namespace to emit generated code into. Used as the package name for Kotlin"
     }),
     operationIdsPath: flags.string({
       description:
-        "Path to an operation id JSON map file. If specified, also stores the operation ids (hashes) as properties on operation types [currently Swift-only]"
+        "Path to an operation id JSON map file. If specified, also stores the operation ids (hashes) as properties on operation types [Swift, Kotlin and Dart only]"
     }),
     only: flags.string({
       description:
-        "Parse all input files, but only output generated code for the specified file [Swift only]"
+        "Parse all input files, but only output generated code for the specified file [Swift, Kotlin and Dart only]"
     }),
 
     // flow
@@ -91,6 +124,16 @@ export default class Generate extends ClientCommand {
     globalTypesFile: flags.string({
       description:
         'By default, TypeScript will put a file named "globalTypes.ts" inside the "output" directory. Set "globalTypesFile" to specify a different path.'
+    }),
+    typedDocumentNodes: flags.boolean({
+      description:
+        'Also export each operation document as a "TypedDocumentNode" typed with its result and variables. Requires "@graphql-typed-document-node/core" [TypeScript only]'
+    }),
+
+    // json-schema
+    zodFile: flags.string({
+      description:
+        'Path to a file to which a zod schema for the result and variables of every operation is also written. Requires "zod" [JSON Schema only]'
     })
   };
 
@@ -99,7 +142,7 @@ export default class Generate extends ClientCommand {
       name: "output",
       description: `Directory to which generated files will be written.
 - For TypeScript/Flow generators, this specifies a directory relative to each source file by default.
-- For TypeScript/Flow generators with the "outputFlat" flag is set, and for the Swift generator, this specifies a file or directory (absolute or relative to the current working directory) to which:
+- For TypeScript/Flow generators with the "outputFlat" flag is set, and for the Swift, Kotlin and Dart generators, this specifies a file or directory (absolute or relative to the current working directory) to which:
   - a file will be written for each query (if "output" is a directory)
   - all generated types will be written
 - For all other types, this defines a file (absolute or relative to the current working directory) to which all generated types are written.`
@@ -115,9 +158,16 @@ export default class Generate extends ClientCommand {
       this.runTasks(({ flags, args, project }) => {
         let inferredTarget: TargetType = "" as TargetType;
         if (
-          ["json", "swift", "typescript", "flow", "scala"].includes(
-            flags.target
-          )
+          [
+            "json",
+            "swift",
+            "typescript",
+            "flow",
+            "scala",
+            "kotlin",
+            "dart",
+            "json-schema"
+          ].includes(flags.target)
         ) {
           inferredTarget = flags.target as TargetType;
         } else {
@@ -130,7 +180,7 @@ export default class Generate extends ClientCommand {
           inferredTarget != "flow"
         ) {
           throw new Error(
-            "The output path must be specified in the arguments for Swift and Scala"
+            "The output path must be specified in the arguments for Swift, Scala, Kotlin, Dart and JSON Schema"
           );
         }
 
@@ -156,6 +206,12 @@ export default class Generate extends ClientCommand {
               });
 
               if (!schema) throw new Error("Error loading schema");
+
+              const scalars = scalarMappings({
+                ...this.project.config.client.scalars,
+                ...(flags.scalars && JSON.parse(flags.scalars))
+              });
+
               const write = () => {
                 const operations = Object.values(this.project.operations);
                 const fragments = Object.values(this.project.fragments);
@@ -185,6 +241,7 @@ export default class Generate extends ClientCommand {
                       flags.passthroughCustomScalars ||
                       !!flags.customScalarsPrefix,
                     customScalarsPrefix: flags.customScalarsPrefix || "",
+                    scalars,
                     addTypename: flags.addTypename,
                     namespace: flags.namespace,
                     operationIdsPath: flags.operationIdsPath,
@@ -193,7 +250,14 @@ export default class Generate extends ClientCommand {
                       flags.mergeInFieldsFromFragmentSpreads,
                     useFlowExactObjects: flags.useFlowExactObjects,
                     useFlowReadOnlyTypes: flags.useFlowReadOnlyTypes,
-                    globalTypesFile: flags.globalTypesFile
+                    globalTypesFile: flags.globalTypesFile,
+                    typedDocumentNodes: flags.typedDocumentNodes,
+                    possibleTypesPath: flags.possibleTypesPath,
+                    possibleTypesFormat: flags.possibleTypesFormat as
+                      | PossibleTypesFormat
+                      | undefined,
+                    onlyUsedPossibleTypes: flags.onlyUsedPossibleTypes,
+                    zodFile: flags.zodFile
                   }
                 );
               };
@@ -0,0 +1,89 @@
+import { flags } from "@oclif/command";
+import { table } from "heroku-cli-util";
+import { Kind, isExecutableDefinitionNode } from "graphql";
+import chalk from "chalk";
+import { findDeprecatedUsages, DeprecatedUsage } from "apollo-language-server";
+import { ClientCommand } from "../../Command";
+import { ErrorLocation, errorLocation, printErrorLocation } from "../../utils";
+
+interface DeprecationResult extends ErrorLocation {
+  kind: string;
+  coordinate: string;
+  reason?: string;
+}
+
+interface TasksOutput {
+  results: DeprecationResult[];
+  shouldOutputJson: boolean;
+}
+
+export default class ClientDeprecations extends ClientCommand {
+  static description =
+    "List the deprecated fields, arguments and enum values used by a client's operations";
+  static flags = {
+    ...ClientCommand.flags,
+    json: flags.boolean({
+      description:
+        "Output result in json, which can then be parsed by CLI tools such as jq."
+    })
+  };
+
+  async run() {
+    const { results, shouldOutputJson } = await this.runTasks<TasksOutput>(
+      ({ flags, project }) => [
+        {
+          title: "Finding deprecated usages",
+          task: async (ctx: TasksOutput) => {
+            const schema = await project.resolveSchema({ tag: flags.tag });
+
+            ctx.results = [];
+            for (const document of this.project.documents) {
+              if (!document.ast) continue;
+
+              const usages = findDeprecatedUsages(schema, {
+                kind: Kind.DOCUMENT,
+                definitions: document.ast.definitions.filter(
+                  isExecutableDefinitionNode
+                )
+              });
+              ctx.results.push(...usages.map(deprecationResultFromUsage));
+            }
+            ctx.shouldOutputJson = !!flags.json;
+          }
+        }
+      ]
+    );
+
+    if (shouldOutputJson) {
+      this.log(JSON.stringify({ usages: results }, null, 2));
+    } else if (results.length === 0) {
+      this.log("\nNo deprecated usages found\n");
+    } else {
+      this.log("\n");
+      table(
+        results.map(result => ({
+          location: printErrorLocation(result),
+          coordinate: chalk.yellow(result.coordinate),
+          reason: result.reason || ""
+        })),
+        {
+          columns: [
+            { key: "location", label: "Location" },
+            { key: "coordinate", label: "Deprecated" },
+            { key: "reason", label: "Reason" }
+          ]
+        }
+      );
+      this.log("\n");
+    }
+  }
+}
+
+function deprecationResultFromUsage({
+  kind,
+  coordinate,
+  reason,
+  error
+}: DeprecatedUsage): DeprecationResult {
+  return { kind, coordinate, reason, ...errorLocation(error) };
+}
@@ -1,39 +1,42 @@
+import { flags } from "@oclif/command";
 import { createHash } from "crypto";
 import { writeFileSync } from "fs";
-import {
-  printWithReducedWhitespace,
-  sortAST,
-  defaultSignature as engineDefaultSignature
-} from "apollo-engine-reporting";
-import { DocumentNode } from "graphql";
+import { join } from "path";
+import { printWithReducedWhitespace, sortAST } from "apollo-engine-reporting";
+import { defaultEngineReportingSignature, operationHash } from "apollo-graphql";
+import { DocumentNode, print } from "graphql";
+import { mkdirRecursive } from "apollo-language-server";
 
 import { ClientCommand } from "../../Command";
 import { hideCertainLiterals } from "./push";
 
-// XXX this is duplicated code
-const manifestOperationHash = (str: string): string =>
-  createHash("sha256")
-    .update(str)
-    .digest("hex");
+type ManifestFormat = "manifest" | "apq" | "relay" | "directory";
 
-const engineSignature = (_TODO_operationAST: DocumentNode): string => {
-  // TODO.  We don't currently have access to the operation name since it's
-  // currently omitted by the `apollo-codegen-core` package logic.
-  return engineDefaultSignature(_TODO_operationAST, "TODO");
-};
+interface ExtractedOperation {
+  name: string;
+  document: DocumentNode;
+}
 
 export default class ClientExtract extends ClientCommand {
   static description = "Extract queries from a client";
   static flags = {
-    ...ClientCommand.flags
+    ...ClientCommand.flags,
+    format: flags.string({
+      description: `Format of the extracted queries:
+- manifest: an operation manifest for registering operations with Engine
+- apq: a map from the sha256 hash of each document to the document, for Automatic Persisted Queries
+- relay: a map from the md5 hash of each document to the document, like the Relay compiler persists
+- directory: a directory containing a .graphql file for each operation`,
+      options: ["manifest", "apq", "relay", "directory"],
+      default: "manifest"
+    })
   };
 
   static args = [
     {
       name: "output",
-      description: "Path to write the extracted queries to",
-      required: true,
-      default: "manifest.json"
+      description:
+        "Path to write the extracted queries to. Defaults to manifest.json, or to an operations directory when the format is directory"
     }
   ];
 
@@ -43,43 +46,34 @@ export default class ClientExtract extends ClientCommand {
         {
           title: "Extracting operations from project",
           task: async ctx => {
-            const operations = Object.values(
+            ctx.operations = Object.entries(
               this.project.mergedOperationsAndFragmentsForService
-            ).map(operationAST => {
-              // While this could include dropping unused definitions, they are
-              // kept because the registered operations should mirror those in the
-              // client bundle minus any PII which lives within string literals.
-              const printed = printWithReducedWhitespace(
-                sortAST(hideCertainLiterals(operationAST))
-              );
-
-              return {
-                signature: manifestOperationHash(printed),
-                document: printed,
-                metadata: {
-                  engineSignature: engineSignature(operationAST)
-                }
-              };
-            });
-
-            ctx.operations = operations;
+            ).map(([name, document]) => ({ name, document }));
             ctx.clientIdentity = config.client;
           }
         },
         {
           title: "Outputing extracted queries",
           task: (ctx, task) => {
-            const filename = args.output;
+            const format = flags.format as ManifestFormat;
+            const filename =
+              args.output ||
+              (format === "directory" ? "operations" : "manifest.json");
             task.title = "Outputing extracted queries to " + filename;
             ctx.filename = filename;
-            writeFileSync(
-              filename,
-              JSON.stringify(
-                { version: 1, operations: ctx.operations },
-                null,
-                2
-              )
-            );
+
+            if (format === "directory") {
+              writeOperationsDirectory(filename, ctx.operations);
+              return;
+            }
+
+            const output =
+              format === "apq"
+                ? persistedQueryMap(ctx.operations)
+                : format === "relay"
+                ? relayQueryMap(ctx.operations)
+                : engineManifest(ctx.operations);
+            writeFileSync(filename, JSON.stringify(output, null, 2));
           }
         }
       ]
@@ -92,3 +86,60 @@ export default class ClientExtract extends ClientCommand {
     );
   }
 }
+
+function engineManifest(operations: ExtractedOperation[]) {
+  return {
+    version: 1,
+    operations: operations.map(({ name, document }) => {
+      // While this could include dropping unused definitions, they are
+      // kept because the registered operations should mirror those in the
+      // client bundle minus any PII which lives within string literals.
+      const printed = printWithReducedWhitespace(
+        sortAST(hideCertainLiterals(document))
+      );
+
+      return {
+        signature: operationHash(printed),
+        document: printed,
+        metadata: {
+          engineSignature: defaultEngineReportingSignature(document, name)
+        }
+      };
+    })
+  };
+}
+
+// Persisted query ids are looked up by the hash of the document a client sends,
+// so the documents are printed as is rather than normalized like the manifest
+function persistedQueryMap(operations: ExtractedOperation[]) {
+  const map: Record<string, string> = {};
+  for (const { document } of operations) {
+    const text = print(document);
+    map[operationHash(text)] = text;
+  }
+  return map;
+}
+
+function relayQueryMap(operations: ExtractedOperation[]) {
+  const map: Record<string, string> = {};
+  for (const { document } of operations) {
+    const text = print(document);
+    map[
+      createHash("md5")
+        .update(text)
+        .digest("hex")
+    ] = text;
+  }
+  return map;
+}
+
+function writeOperationsDirectory(
+  directory: string,
+  operations: ExtractedOperation[]
+) {
+  mkdirRecursive(directory);
+
+  for (const { name, document } of operations) {
+    writeFileSync(join(directory, `${name}.graphql`), print(document));
+  }
+}
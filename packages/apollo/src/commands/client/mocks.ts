@@ -0,0 +1,77 @@
+import { flags } from "@oclif/command";
+import { writeFileSync } from "fs";
+import { join } from "path";
+import { mockOperation, OperationMock } from "apollo-graphql";
+import { mkdirRecursive } from "apollo-language-server";
+import { ClientCommand } from "../../Command";
+
+interface TasksOutput {
+  mocks: OperationMock[];
+}
+
+export default class ClientMocks extends ClientCommand {
+  static description =
+    "Generate mock responses for a client's operations, for use as test fixtures";
+  static flags = {
+    ...ClientCommand.flags,
+    seed: flags.integer({
+      description: "Seed for the generated values. Overrides client.mocks.seed"
+    }),
+    listLength: flags.integer({
+      description:
+        "Number of items in generated lists. Overrides client.mocks.listLength"
+    })
+  };
+
+  static args = [
+    {
+      name: "output",
+      description:
+        "Directory to which a JSON file with the mock response of each operation is written. The mock responses are printed as a JSON object keyed by operation name when omitted"
+    }
+  ];
+
+  async run() {
+    const { args } = this.parse(ClientMocks);
+
+    const { mocks } = await this.runTasks<TasksOutput>(({ flags, project }) => [
+      {
+        title: "Generating mock responses",
+        task: async (ctx: TasksOutput) => {
+          const schema = await project.resolveSchema({ tag: flags.tag });
+          const { mocks: config = {} } = this.project.config.client;
+
+          const fragments = this.project.fragments;
+          ctx.mocks = Object.values(this.project.operations).map(operation =>
+            mockOperation(schema, operation, fragments, {
+              ...config,
+              ...(flags.seed !== undefined && { seed: flags.seed }),
+              ...(flags.listLength !== undefined && {
+                listLength: flags.listLength
+              })
+            })
+          );
+        }
+      }
+    ]);
+
+    if (args.output) {
+      mkdirRecursive(args.output);
+      for (const { operationName, response } of mocks) {
+        writeFileSync(
+          join(args.output, `${operationName}.json`),
+          JSON.stringify(response, null, 2) + "\n"
+        );
+      }
+      this.log(`Wrote ${mocks.length} mock responses to ${args.output}`);
+    } else {
+      const responses: {
+        [operationName: string]: OperationMock["response"];
+      } = {};
+      for (const { operationName, response } of mocks) {
+        responses[operationName || ""] = response;
+      }
+      this.log(JSON.stringify(responses, null, 2));
+    }
+  }
+}
@@ -0,0 +1,137 @@
+import { readFileSync } from "fs";
+import { cli } from "cli-ux";
+// this is because of herkou-cli-utils hacky mocking system on their console logger
+import { mockConsole } from "heroku-cli-util";
+import { test as setup } from "apollo-cli-test";
+
+const test = setup.do(() => mockConsole());
+
+jest.setTimeout(25000);
+
+describe("config:init", () => {
+  test
+    .fs({
+      "package.json": JSON.stringify({
+        name: "@acme/web",
+        dependencies: { "@apollo/react-hooks": "3.0.0" },
+        devDependencies: { typescript: "3.5.0" }
+      }),
+      "src/schema.graphql": "type Query { hello: String }"
+    })
+    .stdout()
+    .command(["config:init", "--yes"])
+    .it("detects the framework and schema of a client", ({ stdout }) => {
+      expect(stdout).toContain("Detected a React client project");
+      expect(readFileSync("apollo.config.js", "utf8")).toBe(
+        `module.exports = {
+  client: {
+    service: {
+      name: "web",
+      localSchemaFile: "./src/schema.graphql"
+    },
+    includes: ["src/**/*.{ts,tsx,graphql}"]
+  }
+};
+`
+      );
+    });
+
+  test
+    .fs({
+      "package.json": JSON.stringify({
+        name: "relay-app",
+        dependencies: { "react-relay": "5.0.0" }
+      })
+    })
+    .stdout()
+    .command(["config:init", "--yes"])
+    .it("uses the graphql tag and an endpoint for Relay", () => {
+      const config = readFileSync("apollo.config.js", "utf8");
+      expect(config).toContain(`url: "http://localhost:4000/graphql"`);
+      expect(config).toContain(`includes: ["./**/*.{js,jsx,graphql}"]`);
+      expect(config).toContain(`tagName: "graphql"`);
+    });
+
+  test
+    .fs({
+      "package.json": JSON.stringify({
+        name: "api",
+        dependencies: { "apollo-server": "2.6.0" }
+      }),
+      "schema.graphqls": "type Query { hello: String }"
+    })
+    .stdout()
+    .command(["config:init", "--yes"])
+    .it("detects services", () => {
+      expect(readFileSync("apollo.config.js", "utf8")).toBe(
+        `module.exports = {
+  service: {
+    name: "api",
+    localSchemaFile: "./schema.graphqls"
+  }
+};
+`
+      );
+    });
+
+  test
+    .fs({
+      "package.json": JSON.stringify({
+        name: "web",
+        dependencies: { "apollo-client": "2.6.0" }
+      }),
+      "src/operations.gql": "query Hello { hello }",
+      "src/schema.graphql": "query World { world }"
+    })
+    .stdout()
+    .command(["config:init", "--yes"])
+    .it("doesn't use operation files as the schema", () => {
+      expect(readFileSync("apollo.config.js", "utf8")).toContain(
+        `url: "http://localhost:4000/graphql"`
+      );
+    });
+
+  const answers: { [message: string]: string } = {
+    "Engine service name": "my-service",
+    "Glob of the files with operations":
+      "src/**/*.{ts,tsx,graphql}, shared/*.graphql"
+  };
+  test
+    .fs({
+      "package.json": JSON.stringify({
+        name: "web",
+        dependencies: { "apollo-client": "2.6.0" }
+      })
+    })
+    .stdout()
+    .stub(cli, "prompt", () => async (message: string, { default: value }) =>
+      message in answers ? answers[message] : value
+    )
+    .command(["config:init"])
+    .it("prompts for the settings", () => {
+      expect(readFileSync("apollo.config.js", "utf8")).toBe(
+        `module.exports = {
+  client: {
+    service: {
+      name: "my-service",
+      url: "http://localhost:4000/graphql"
+    },
+    includes: ["src/**/*.{ts,tsx,graphql}", "shared/*.graphql"]
+  }
+};
+`
+      );
+    });
+
+  test
+    .fs({ "apollo.config.js": "module.exports = {};" })
+    .command(["config:init", "--yes"])
+    .catch(error =>
+      expect(error.message).toMatch(/An apollo.config.js already exists/)
+    )
+    .it("doesn't overwrite an existing config without --force", () => {
+      expect(readFileSync("apollo.config.js", "utf8")).toBe(
+        "module.exports = {};"
+      );
+    });
+});
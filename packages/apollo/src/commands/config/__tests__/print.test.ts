@@ -0,0 +1,85 @@
+// this is because of herkou-cli-utils hacky mocking system on their console logger
+import { mockConsole } from "heroku-cli-util";
+import { test as setup } from "apollo-cli-test";
+
+const test = setup.do(() => mockConsole());
+
+const files = {
+  "schema.graphql": `
+    type Query {
+      hello: String
+    }
+  `,
+  ".env": "ENGINE_API_KEY=service:my-service-name:secret",
+  "service.config.js": `
+    module.exports = {
+      service: {
+        name: "my-service-name",
+        localSchemaFile: "./schema.graphql"
+      }
+    }
+  `,
+  "client.config.js": `
+    module.exports = {
+      client: {
+        service: { name: "other-service", localSchemaFile: "./schema.graphql" }
+      }
+    }
+  `
+};
+
+const jsonOutput = (stdout: string) =>
+  JSON.parse(stdout.slice(stdout.indexOf("\n{") + 1));
+
+jest.setTimeout(25000);
+
+describe("config:print", () => {
+  test
+    .fs(files)
+    .stdout()
+    .command([
+      "config:print",
+      "--config=service.config.js",
+      "--endpoint=http://localhost:4001/graphql",
+      "--json"
+    ])
+    .it("prints the resolved config with the source of each value", ctx => {
+      const { config, sources } = jsonOutput(ctx.stdout);
+      expect(config.service).toMatchObject({
+        name: "my-service-name",
+        localSchemaFile: "./schema.graphql",
+        endpoint: { url: "http://localhost:4001/graphql" }
+      });
+      expect(config.engine.apiKey).toBe("service:my-service-name:********");
+      expect(ctx.stdout).not.toContain("secret");
+
+      expect(sources).toMatchObject({
+        "service.name": "service.config.js",
+        "service.localSchemaFile": "service.config.js",
+        "service.endpoint.url": "flags",
+        "service.includes": "default",
+        "engine.apiKey": ".env",
+        "engine.endpoint": "default"
+      });
+    });
+
+  test
+    // the service name of an API key in .env would replace the client's service
+    .fs({ ...files, ".env": "" })
+    .stdout()
+    .command([
+      "config:print",
+      "--config=client.config.js",
+      "--tagName=graphql",
+      "--json"
+    ])
+    .it("applies the flags of client commands to clients", ctx => {
+      const { config, sources } = jsonOutput(ctx.stdout);
+      expect(config.client.tagName).toBe("graphql");
+      expect(sources["client.tagName"]).toBe("flags");
+      expect(sources["client.service.localSchemaFile"]).toBe(
+        "client.config.js"
+      );
+      expect(config.service).toBeUndefined();
+    });
+});
@@ -0,0 +1,271 @@
+import Command, { flags } from "@oclif/command";
+import { cli } from "cli-ux";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { basename, resolve } from "path";
+import { isPlainObject } from "lodash";
+import glob from "glob";
+import {
+  parse,
+  isTypeSystemDefinitionNode,
+  isTypeSystemExtensionNode
+} from "graphql";
+
+interface DetectedProject {
+  type: "client" | "service";
+  framework?: string;
+  name: string;
+  tagName: string;
+  includes: string[];
+  // a schema file or the url of an endpoint
+  schema: string;
+}
+
+// checked in order, so frameworks built on Apollo Client come before it
+const clientFrameworks = [
+  {
+    framework: "React",
+    packages: ["@apollo/client", "@apollo/react-hooks", "react-apollo"]
+  },
+  { framework: "Vue", packages: ["vue-apollo", "@vue/apollo-composable"] },
+  { framework: "Angular", packages: ["apollo-angular"] },
+  { framework: "Relay", packages: ["react-relay"], tagName: "graphql" },
+  { framework: "Apollo Client", packages: ["apollo-client", "apollo-boost"] }
+];
+
+const serverPackages = ["graphql-yoga", "express-graphql"];
+
+const defaultEndpoint = "http://localhost:4000/graphql";
+const configFileName = "apollo.config.js";
+
+export default class ConfigInit extends Command {
+  static description =
+    "Create an apollo.config.js for a client or service project, with the framework, tag name and schema location detected from the current directory";
+  static flags = {
+    type: flags.string({
+      description:
+        "The type of project to create the config for. It's detected from the dependencies in package.json when omitted",
+      options: ["client", "service"]
+    }),
+    yes: flags.boolean({
+      char: "y",
+      description: "Use the detected settings without prompting for them"
+    }),
+    force: flags.boolean({
+      char: "f",
+      description: "Overwrite an existing apollo.config.js"
+    })
+  };
+
+  async run() {
+    const { flags } = this.parse(ConfigInit);
+    const configPath = resolve(configFileName);
+
+    if (existsSync(configPath) && !flags.force) {
+      this.error(
+        `An ${configFileName} already exists. Use --force to overwrite it.`
+      );
+    }
+
+    const type = flags.type as DetectedProject["type"] | undefined;
+    const detected = detectProject(process.cwd(), type);
+    if (detected.framework) {
+      this.log(`Detected a ${detected.framework} ${detected.type} project`);
+    }
+
+    const project = flags.yes
+      ? detected
+      : await this.promptForProject(detected, !type);
+
+    writeFileSync(
+      configPath,
+      `module.exports = ${toJavaScript(configForProject(project))};\n`
+    );
+    this.log(`Wrote ${configFileName}`);
+  }
+
+  private async promptForProject(
+    detected: DetectedProject,
+    promptForType: boolean
+  ): Promise<DetectedProject> {
+    let type = detected.type;
+    if (promptForType) {
+      type = await cli.prompt("Project type (client or service)", {
+        default: detected.type
+      });
+      if (type !== "client" && type !== "service") {
+        this.error(`Unknown project type "${type}"`);
+      }
+    }
+
+    const name = await cli.prompt("Engine service name", {
+      default: detected.name
+    });
+    const schema = await cli.prompt("Schema file or endpoint url", {
+      default: detected.schema
+    });
+    if (type === "service") {
+      return { ...detected, type, name, schema };
+    }
+
+    const tagName = await cli.prompt("Template literal tag of operations", {
+      default: detected.tagName
+    });
+    const includes = await cli.prompt("Glob of the files with operations", {
+      default: detected.includes.join(",")
+    });
+    return {
+      ...detected,
+      type,
+      name,
+      schema,
+      tagName,
+      includes: splitGlobs(includes)
+    };
+  }
+}
+
+function detectProject(
+  directory: string,
+  type?: DetectedProject["type"]
+): DetectedProject {
+  const packageJsonPath = resolve(directory, "package.json");
+  const packageJson = existsSync(packageJsonPath)
+    ? JSON.parse(readFileSync(packageJsonPath, "utf8"))
+    : {};
+  const dependencies = Object.keys({
+    ...packageJson.dependencies,
+    ...packageJson.devDependencies
+  });
+
+  const client = clientFrameworks.find(({ packages }) =>
+    packages.some(name => dependencies.includes(name))
+  );
+  const isServer = dependencies.some(
+    name => name.startsWith("apollo-server") || serverPackages.includes(name)
+  );
+  const detectedType = type || (isServer && !client ? "service" : "client");
+
+  const extensions = dependencies.includes("typescript") ? "ts,tsx" : "js,jsx";
+  const sourceDirectory = existsSync(resolve(directory, "src")) ? "src" : ".";
+
+  return {
+    type: detectedType,
+    framework:
+      detectedType === "client"
+        ? client && client.framework
+        : isServer
+        ? "GraphQL server"
+        : undefined,
+    // npm scopes aren't part of service names
+    name: packageJson.name
+      ? packageJson.name.replace(/^@[^/]+\//, "")
+      : basename(directory),
+    tagName: (client && client.tagName) || "gql",
+    includes: [`${sourceDirectory}/**/*.{${extensions},graphql}`],
+    schema: findSchemaFile(directory) || defaultEndpoint
+  };
+}
+
+// Splits a list of globs on the commas that aren't part of a brace pattern like `*.{ts,tsx}`
+function splitGlobs(globs: string): string[] {
+  const result: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const char of globs) {
+    if (char === "," && depth === 0) {
+      result.push(current);
+      current = "";
+      continue;
+    }
+    if (char === "{") depth++;
+    if (char === "}") depth--;
+    current += char;
+  }
+  result.push(current);
+  return result.map(include => include.trim()).filter(Boolean);
+}
+
+// SDL files named after the schema are preferred over other SDL files and introspection results
+function findSchemaFile(directory: string): string | undefined {
+  const options = { cwd: directory, ignore: "**/node_modules/**" };
+  const schemaFile = [
+    ...glob.sync("**/schema.{graphql,gql,graphqls}", options),
+    ...glob.sync("**/*.{graphqls,gql}", options),
+    ...glob.sync("**/schema.json", options)
+  ].find(file => isSchemaFile(resolve(directory, file)));
+  return schemaFile && `./${schemaFile}`;
+}
+
+// Operation files share extensions with SDL files, so only type definitions and introspection
+// results count as schemas
+function isSchemaFile(path: string): boolean {
+  const contents = readFileSync(path, "utf8");
+  try {
+    if (path.endsWith(".json")) {
+      const result = JSON.parse(contents);
+      return !!(result.__schema || (result.data && result.data.__schema));
+    }
+    const { definitions } = parse(contents);
+    return (
+      definitions.length > 0 &&
+      definitions.every(
+        definition =>
+          isTypeSystemDefinitionNode(definition) ||
+          isTypeSystemExtensionNode(definition)
+      )
+    );
+  } catch {
+    return false;
+  }
+}
+
+function configForProject({
+  type,
+  name,
+  schema,
+  tagName,
+  includes
+}: DetectedProject) {
+  const isEndpoint = /^https?:\/\//.test(schema);
+
+  if (type === "service") {
+    return {
+      service: {
+        name,
+        ...(isEndpoint
+          ? { endpoint: { url: schema } }
+          : { localSchemaFile: schema })
+      }
+    };
+  }
+
+  return {
+    client: {
+      service: {
+        name,
+        ...(isEndpoint ? { url: schema } : { localSchemaFile: schema })
+      },
+      includes,
+      ...(tagName !== "gql" && { tagName })
+    }
+  };
+}
+
+// Prints config values as a JavaScript object literal
+function toJavaScript(value: unknown, indent: string = ""): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => toJavaScript(item, indent)).join(", ")}]`;
+  }
+  if (isPlainObject(value)) {
+    const object = value as { [key: string]: unknown };
+    const propertyIndent = `${indent}  `;
+    const properties = Object.keys(object).map(
+      key =>
+        `${propertyIndent}${
+          /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key)
+        }: ${toJavaScript(object[key], propertyIndent)}`
+    );
+    return `{\n${properties.join(",\n")}\n${indent}}`;
+  }
+  return JSON.stringify(value);
+}
@@ -0,0 +1,125 @@
+import { flags } from "@oclif/command";
+import { table } from "heroku-cli-util";
+import { relative } from "path";
+import { get, isEqual, isPlainObject } from "lodash";
+import chalk from "chalk";
+import { isClientConfig } from "apollo-language-server";
+import { ProjectCommand, ClientCommand, clientConfigMap } from "../../Command";
+
+interface ConfigValue {
+  path: string[];
+  value: unknown;
+}
+
+export default class ConfigPrint extends ProjectCommand {
+  static description =
+    "Print the config resolved from the config file, the environment and flags, with the source of each value";
+  static flags = {
+    ...ClientCommand.flags,
+    type: flags.string({
+      description:
+        "The type of project to resolve the config for. It's determined from the config when omitted",
+      options: ["client", "service"]
+    }),
+    json: flags.boolean({
+      description:
+        "Output result in json, which can then be parsed by CLI tools such as jq."
+    })
+  };
+
+  // only the config is resolved, so there's no project to load
+  async init() {}
+
+  async run() {
+    const { flags } = this.parse(ConfigPrint);
+    this.type = flags.type as "client" | "service" | undefined;
+    // the flags of client commands only apply to client configs
+    this.configMap = (flags, config) =>
+      isClientConfig(config) ? clientConfigMap(flags) : {};
+
+    const config = await this.readConfig(flags);
+    const loadedConfig = config.rawConfig;
+    this.applyFlags(config, flags);
+
+    const { fileConfig } = config;
+
+    const sourceOf = (path: string[], value: unknown) => {
+      if (!isEqual(get(loadedConfig, path), value)) return "flags";
+      if (fileConfig && isEqual(get(fileConfig.config, path), value)) {
+        return relative(process.cwd(), fileConfig.filepath);
+      }
+      // the API key is the only value read from .env files
+      return path.join(".") === "engine.apiKey" ? ".env" : "default";
+    };
+
+    const values = configValues(config.rawConfig).map(({ path, value }) => {
+      const key = path.join(".");
+      return {
+        key,
+        value:
+          key === "engine.apiKey" && typeof value === "string"
+            ? redactKey(value)
+            : value,
+        source: sourceOf(path, value)
+      };
+    });
+
+    if (flags.json) {
+      const sources: { [key: string]: string } = {};
+      for (const { key, source } of values) {
+        sources[key] = source;
+      }
+      const { engine } = config.rawConfig;
+      const printedConfig =
+        engine && engine.apiKey
+          ? {
+              ...config.rawConfig,
+              engine: { ...engine, apiKey: redactKey(engine.apiKey) }
+            }
+          : config.rawConfig;
+      this.log(JSON.stringify({ config: printedConfig, sources }, null, 2));
+    } else {
+      this.log("\n");
+      table(
+        values.map(({ key, value, source }) => ({
+          key,
+          value:
+            typeof value === "function" ? "[Function]" : JSON.stringify(value),
+          source: source === "flags" ? chalk.yellow(source) : source
+        })),
+        {
+          columns: [
+            { key: "key", label: "Key" },
+            { key: "value", label: "Value" },
+            { key: "source", label: "Source" }
+          ]
+        }
+      );
+      this.log("\n");
+    }
+  }
+}
+
+// The values of a config keyed by their path, with lists treated as a single value
+function configValues(value: unknown, path: string[] = []): ConfigValue[] {
+  if (isPlainObject(value)) {
+    const object = value as { [key: string]: unknown };
+    const keys = Object.keys(object);
+    if (keys.length > 0) {
+      return keys.reduce(
+        (values, key) => [
+          ...values,
+          ...configValues(object[key], [...path, key])
+        ],
+        [] as ConfigValue[]
+      );
+    }
+  }
+  return value === undefined ? [] : [{ path, value }];
+}
+
+// Engine API keys look like service:<service name>:<secret>, and only the secret is hidden
+function redactKey(key: string): string {
+  const parts = key.split(":");
+  return parts.length === 3 ? `${parts[0]}:${parts[1]}:********` : "********";
+}
@@ -0,0 +1,58 @@
+import { formatMarkdown } from "../diff";
+import { SchemaChangeType } from "../../../utils";
+
+describe("markdown formatting", () => {
+  it("is correct with breaking changes", () => {
+    expect(
+      formatMarkdown({
+        baseDescription: "local schema file 'schema.graphql'",
+        changes: [
+          {
+            type: SchemaChangeType.BREAKING,
+            code: "FIELD_REMOVED",
+            description: "Query.hello was removed."
+          },
+          {
+            type: SchemaChangeType.DANGEROUS,
+            code: "VALUE_ADDED_TO_ENUM",
+            description: "baz was added to enum type SomeEnum."
+          },
+          {
+            type: SchemaChangeType.SAFE,
+            code: "TYPE_ADDED",
+            description: "User was added."
+          }
+        ]
+      })
+    ).toMatchInlineSnapshot(`
+"
+### Apollo Service Diff
+🔄 Compared your local schema against local schema file 'schema.graphql'.
+🔢 Found **3 schema changes**.
+❌ Found **1 breaking changes** and **1 dangerous changes**.
+
+| Change | Code | Description |
+| ------ | ---- | ----------- |
+| BREAKING | FIELD_REMOVED | Query.hello was removed. |
+| DANGEROUS | VALUE_ADDED_TO_ENUM | baz was added to enum type SomeEnum. |
+| SAFE | TYPE_ADDED | User was added. |
+"
+`);
+  });
+
+  it("is correct with no changes", () => {
+    expect(
+      formatMarkdown({
+        baseDescription: "schema tag 'current' on service 'engine'",
+        changes: []
+      })
+    ).toMatchInlineSnapshot(`
+"
+### Apollo Service Diff
+🔄 Compared your local schema against schema tag 'current' on service 'engine'.
+🔢 Found **0 schema changes**.
+✅ Found **no breaking changes**.
+"
+`);
+  });
+});
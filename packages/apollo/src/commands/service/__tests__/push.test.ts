@@ -0,0 +1,94 @@
+// the schema cache is written to a temporary home directory instead of ~/.apollo
+jest.mock("os", () => {
+  const os = jest.requireActual("os");
+  const home = jest
+    .requireActual("path")
+    .join(os.tmpdir(), `apollo-push-test-${process.pid}`);
+  return { ...os, homedir: () => home };
+});
+
+import {
+  existsSync,
+  readFileSync,
+  readdirSync,
+  rmdirSync,
+  unlinkSync
+} from "fs";
+import { createServer, Server } from "http";
+import { homedir } from "os";
+import { dirname, join, resolve } from "path";
+import { buildSchema, introspectionFromSchema } from "graphql";
+import { test as setup } from "apollo-cli-test";
+// this is because of herkou-cli-utils hacky mocking system on their console logger
+import { mockConsole } from "heroku-cli-util";
+import { defaultSchemaCacheDirectory } from "apollo-language-server";
+
+const test = setup.do(() => mockConsole());
+
+const endpoint = "http://localhost:4010/graphql";
+const introspectionResult = introspectionFromSchema(
+  buildSchema(
+    readFileSync(resolve(__dirname, "./fixtures/schema.graphql"), "utf8")
+  )
+);
+
+jest.setTimeout(25000);
+
+let server: Server;
+const startServer = () =>
+  new Promise(resolve => {
+    server = createServer((_request, response) => {
+      response.setHeader("Content-Type", "application/json");
+      response.end(JSON.stringify({ data: introspectionResult }));
+    }).listen(4010, resolve);
+  });
+const stopServer = () => new Promise(resolve => server.close(resolve));
+
+afterAll(() => {
+  if (!existsSync(homedir())) return;
+  for (const file of readdirSync(defaultSchemaCacheDirectory)) {
+    unlinkSync(join(defaultSchemaCacheDirectory, file));
+  }
+  rmdirSync(defaultSchemaCacheDirectory);
+  rmdirSync(dirname(defaultSchemaCacheDirectory));
+  rmdirSync(homedir());
+});
+
+describe("service:push", () => {
+  test
+    // loading the schema once caches it
+    .do(startServer)
+    .fs({})
+    .stdout()
+    .command([
+      "service:download",
+      `--endpoint=${endpoint}`,
+      "--key=service:test:1234"
+    ])
+    .do(stopServer)
+    .command([
+      "service:push",
+      `--endpoint=${endpoint}`,
+      "--key=service:test:1234"
+    ])
+    .catch(error => expect(error.message).toMatch(/ECONNREFUSED.*4010/))
+    .it(
+      "fails when the endpoint is unreachable, even with a cached schema",
+      () => {
+        expect(readdirSync(defaultSchemaCacheDirectory)).toHaveLength(1);
+      }
+    );
+
+  test
+    .fs({})
+    .command([
+      "service:push",
+      `--endpoint=${endpoint}`,
+      "--key=service:test:1234",
+      "--offline"
+    ])
+    .catch(error =>
+      expect(error.message).toMatch(/can't use a cached schema with --offline/)
+    )
+    .it("can't be run offline");
+});
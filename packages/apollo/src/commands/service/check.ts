@@ -129,6 +129,7 @@ export default class ServiceCheck extends ProjectCommand {
       exclusive: ["json"]
     })
   };
+  protected useSchemaCache = false;
 
   async run() {
     const {
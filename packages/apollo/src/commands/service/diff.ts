@@ -0,0 +1,245 @@
+import { flags } from "@oclif/command";
+import { table } from "heroku-cli-util";
+import { GraphQLSchema } from "graphql";
+import chalk from "chalk";
+import { ProjectCommand, Flags, headersArrayToObject } from "../../Command";
+import { diffSchemas, SchemaChange, SchemaChangeType } from "../../utils";
+import {
+  ApolloConfig,
+  DefaultConfigBase,
+  schemaProviderFromConfig
+} from "apollo-language-server";
+
+const formatChange = (change: SchemaChange) => {
+  let color = (x: string): string => x;
+  if (change.type === SchemaChangeType.BREAKING) {
+    color = chalk.red;
+  }
+
+  if (change.type === SchemaChangeType.DANGEROUS) {
+    color = chalk.yellow;
+  }
+
+  return {
+    type: color(change.type),
+    code: color(change.code),
+    description: color(change.description)
+  };
+};
+
+// Sort breaking changes first, then dangerous, then safe ones
+const changeTypeOrder = [
+  SchemaChangeType.BREAKING,
+  SchemaChangeType.DANGEROUS,
+  SchemaChangeType.SAFE
+];
+
+interface DiffFlags extends Flags {
+  baseLocalSchemaFile?: string;
+  baseEndpoint?: string;
+  baseTag?: string;
+  json?: boolean;
+  markdown?: boolean;
+}
+
+interface TasksOutput {
+  baseSchema: GraphQLSchema;
+  changes: SchemaChange[];
+  baseDescription: string;
+  shouldOutputJson: boolean;
+  shouldOutputMarkdown: boolean;
+}
+
+export function formatMarkdown({
+  changes,
+  baseDescription
+}: {
+  changes: SchemaChange[];
+  baseDescription: string;
+}): string {
+  const breakingChanges = changes.filter(
+    change => change.type === SchemaChangeType.BREAKING
+  );
+  const dangerousChanges = changes.filter(
+    change => change.type === SchemaChangeType.DANGEROUS
+  );
+
+  return `
+### Apollo Service Diff
+🔄 Compared your local schema against ${baseDescription}.
+🔢 Found **${changes.length} schema changes**.
+${
+  breakingChanges.length > 0
+    ? `❌ Found **${breakingChanges.length} breaking changes** and **${
+        dangerousChanges.length
+      } dangerous changes**.`
+    : dangerousChanges.length > 0
+    ? `⚠️ Found **no breaking changes** and **${
+        dangerousChanges.length
+      } dangerous changes**.`
+    : `✅ Found **no breaking changes**.`
+}
+${
+  changes.length > 0
+    ? `
+| Change | Code | Description |
+| ------ | ---- | ----------- |
+${changes
+  .map(
+    ({ type, code, description }) => `| ${type} | ${code} | ${description} |`
+  )
+  .join("\n")}
+`
+    : ""
+}`;
+}
+
+export default class ServiceDiff extends ProjectCommand {
+  static description =
+    "Compare a service's schema against another schema locally, without Apollo Engine";
+  static flags = {
+    ...ProjectCommand.flags,
+    localSchemaFile: flags.string({
+      description:
+        "Path to your local schema file (introspection result or SDL) to compare"
+    }),
+    baseLocalSchemaFile: flags.string({
+      description:
+        "Path to the local schema file (introspection result or SDL) to compare against",
+      exclusive: ["baseEndpoint", "baseTag"]
+    }),
+    baseEndpoint: flags.string({
+      description:
+        "The url of a running service to introspect and compare against. Uses the same headers as --endpoint",
+      exclusive: ["baseLocalSchemaFile", "baseTag"]
+    }),
+    baseTag: flags.string({
+      description:
+        "The published tag in Apollo Engine to compare against. Defaults to 'current' when no other base is given",
+      exclusive: ["baseLocalSchemaFile", "baseEndpoint"]
+    }),
+    json: flags.boolean({
+      description:
+        "Output result in json, which can then be parsed by CLI tools such as jq.",
+      exclusive: ["markdown"]
+    }),
+    markdown: flags.boolean({
+      description: "Output result in markdown.",
+      exclusive: ["json"]
+    })
+  };
+
+  async run() {
+    const {
+      changes,
+      baseDescription,
+      shouldOutputJson,
+      shouldOutputMarkdown
+    } = await this.runTasks<TasksOutput>(
+      ({ config, flags, project }) => [
+        {
+          title: "Loading base schema",
+          task: async (ctx: TasksOutput, task) => {
+            const { provider, description } = baseSchemaProvider(config, flags);
+            ctx.baseDescription = description;
+            task.title = `Loading base schema from ${description}`;
+            ctx.baseSchema = await provider.resolveSchema({});
+          }
+        },
+        {
+          title: "Comparing schemas",
+          task: async (ctx: TasksOutput) => {
+            const schema = await project.resolveSchema({});
+            ctx.changes = diffSchemas(ctx.baseSchema, schema).sort(
+              (a, b) =>
+                changeTypeOrder.indexOf(a.type) -
+                changeTypeOrder.indexOf(b.type)
+            );
+            ctx.shouldOutputJson = !!flags.json;
+            ctx.shouldOutputMarkdown = !!flags.markdown;
+          }
+        }
+      ],
+      context => ({
+        renderer: context.flags.markdown ? "silent" : "default"
+      })
+    );
+
+    const breakingChanges = changes.filter(
+      ({ type }) => type === SchemaChangeType.BREAKING
+    );
+
+    if (shouldOutputJson) {
+      this.log(JSON.stringify({ changes }, null, 2));
+    } else if (shouldOutputMarkdown) {
+      this.log(formatMarkdown({ changes, baseDescription }));
+    } else if (changes.length === 0) {
+      this.log("\nNo changes present between schemas\n");
+    } else {
+      this.log("\n");
+      table(changes.map(formatChange), {
+        columns: [
+          { key: "type", label: "Change" },
+          { key: "code", label: "Code" },
+          { key: "description", label: "Description" }
+        ]
+      });
+      this.log("\n");
+    }
+
+    // exit with failing status if we have breaking changes
+    if (breakingChanges.length > 0) {
+      this.exit(1);
+    }
+  }
+}
+
+function baseSchemaProvider(config: ApolloConfig, flags: DiffFlags) {
+  if (flags.baseLocalSchemaFile) {
+    return {
+      description: `local schema file '${flags.baseLocalSchemaFile}'`,
+      provider: schemaProviderFromConfig(
+        new ApolloConfig({
+          service: {
+            ...DefaultConfigBase,
+            localSchemaFile: flags.baseLocalSchemaFile
+          }
+        })
+      )
+    };
+  }
+
+  if (flags.baseEndpoint) {
+    return {
+      description: `endpoint '${flags.baseEndpoint}'`,
+      provider: schemaProviderFromConfig(
+        new ApolloConfig({
+          service: {
+            ...DefaultConfigBase,
+            endpoint: {
+              url: flags.baseEndpoint,
+              headers: headersArrayToObject(flags.header)
+            }
+          }
+        })
+      )
+    };
+  }
+
+  if (!config.name || !config.engine.apiKey) {
+    throw new Error(
+      "No base schema to compare against. Pass --baseLocalSchemaFile or --baseEndpoint, or provide an Engine API key to compare against a published tag"
+    );
+  }
+
+  const tag = flags.baseTag || "current";
+  return {
+    description: `schema tag '${tag}' on service '${config.name}'`,
+    provider: schemaProviderFromConfig(
+      new ApolloConfig({
+        client: { ...DefaultConfigBase, service: `${config.name}@${tag}` },
+        engine: config.engine
+      })
+    )
+  };
+}
@@ -0,0 +1,142 @@
+import { flags } from "@oclif/command";
+import { table } from "heroku-cli-util";
+import {
+  GraphQLSchema,
+  DefinitionNode,
+  DocumentNode,
+  Kind,
+  Source,
+  parse,
+  printSchema,
+  isIntrospectionType,
+  isScalarType,
+  isSpecifiedScalarType
+} from "graphql";
+import chalk from "chalk";
+import { ProjectCommand } from "../../Command";
+import { ErrorLocation, errorLocation, printErrorLocation } from "../../utils";
+import {
+  getLintErrors,
+  LintError,
+  isServiceProject
+} from "apollo-language-server";
+
+interface LintResult extends ErrorLocation {
+  rule: string;
+  severity: string;
+  message: string;
+}
+
+interface TasksOutput {
+  results: LintResult[];
+  shouldOutputJson: boolean;
+}
+
+export default class ServiceLint extends ProjectCommand {
+  static description =
+    "Lint a service's schema for naming, description and deprecation conventions";
+  static flags = {
+    ...ProjectCommand.flags,
+    localSchemaFile: flags.string({
+      description:
+        "Path to your local GraphQL schema file (introspection result or SDL)"
+    }),
+    json: flags.boolean({
+      description:
+        "Output result in json, which can then be parsed by CLI tools such as jq."
+    })
+  };
+
+  async run() {
+    const { results, shouldOutputJson } = await this.runTasks<TasksOutput>(
+      ({ flags, project }) => [
+        {
+          title: "Linting service schema",
+          task: async (ctx: TasksOutput) => {
+            if (!isServiceProject(project)) {
+              throw new Error(
+                "No service found to lint. Please add a service config. For more information, please refer to https://bit.ly/2ByILPj"
+              );
+            }
+
+            // Prefer the SDL included in the project, since that is what the editor lints.
+            // Otherwise fall back to the schema resolved from the configured provider.
+            let document: DocumentNode = {
+              kind: Kind.DOCUMENT,
+              definitions: project.typeSystemDefinitionsAndExtensions
+            };
+            if (document.definitions.length === 0) {
+              document = documentFromSchema(await project.resolveSchema({}));
+            }
+
+            ctx.results = getLintErrors(
+              document,
+              project.config.service.lint
+            ).map(lintResultFromError);
+            ctx.shouldOutputJson = !!flags.json;
+          }
+        }
+      ]
+    );
+
+    const errors = results.filter(({ severity }) => severity === "error");
+
+    if (shouldOutputJson) {
+      this.log(JSON.stringify({ results }, null, 2));
+    } else if (results.length === 0) {
+      this.log("\nNo lint problems found\n");
+    } else {
+      this.log("\n");
+      table(
+        results.map(result => {
+          const { rule, severity, message } = result;
+          const color = severity === "error" ? chalk.red : chalk.yellow;
+          return {
+            location: printErrorLocation(result),
+            severity: color(severity),
+            rule,
+            message
+          };
+        }),
+        {
+          columns: [
+            { key: "location", label: "Location" },
+            { key: "severity", label: "Severity" },
+            { key: "rule", label: "Rule" },
+            { key: "message", label: "Message" }
+          ]
+        }
+      );
+      this.log("\n");
+    }
+
+    // exit with failing status if any rule reported an error
+    if (errors.length > 0) {
+      this.exit(1);
+    }
+  }
+}
+
+function lintResultFromError({ rule, severity, error }: LintError): LintResult {
+  return { rule, severity, message: error.message, ...errorLocation(error) };
+}
+
+function documentFromSchema(schema: GraphQLSchema): DocumentNode {
+  const definitions: DefinitionNode[] = [];
+
+  for (const type of Object.values(schema.getTypeMap())) {
+    if (
+      isIntrospectionType(type) ||
+      (isScalarType(type) && isSpecifiedScalarType(type))
+    ) {
+      continue;
+    }
+    if (type.astNode) definitions.push(type.astNode);
+    if (type.extensionASTNodes) definitions.push(...type.extensionASTNodes);
+  }
+
+  // Schemas built from an introspection result don't carry any AST
+  return definitions.length > 0
+    ? { kind: Kind.DOCUMENT, definitions }
+    : parse(new Source(printSchema(schema), "schema"));
+}
@@ -20,6 +20,7 @@ export default class ServicePush extends ProjectCommand {
         "Path to your local GraphQL schema file (introspection result or SDL)"
     })
   };
+  protected useSchemaCache = false;
 
   async run() {
     let result;
@@ -13,6 +13,10 @@ import {
   CompilerOptions as LegacyCompilerOptions
 } from "apollo-codegen-core/lib/compiler/legacyIR";
 import serializeToJSON from "apollo-codegen-core/lib/serializeToJSON";
+import {
+  generatePossibleTypes,
+  PossibleTypesFormat
+} from "apollo-codegen-core/lib/possibleTypes";
 import { BasicGeneratedFile } from "apollo-codegen-core/lib/utilities/CodeGenerator";
 
 import { generateSource as generateSwiftSource } from "apollo-codegen-swift";
@@ -22,23 +26,38 @@ import {
   generateGlobalSource as generateTypescriptGlobalSource
 } from "apollo-codegen-typescript";
 import { generateSource as generateScalaSource } from "apollo-codegen-scala";
+import { generateSource as generateKotlinSource } from "apollo-codegen-kotlin";
+import { generateSource as generateDartSource } from "apollo-codegen-dart";
+import {
+  generateSource as generateJSONSchemaSource,
+  generateZodSource
+} from "apollo-codegen-json-schema";
 
 import { FlowCompilerOptions } from "../../apollo-codegen-flow/lib/language";
+import { TypescriptCompilerOptions } from "../../apollo-codegen-typescript/lib/language";
 import { validateQueryDocument } from "apollo-language-server/lib/errors/validation";
 
 export type TargetType =
   | "json"
   | "swift"
   | "scala"
+  | "kotlin"
+  | "dart"
+  | "json-schema"
   | "flow"
   | "typescript"
   | "ts";
 
 export type GenerationOptions = CompilerOptions &
   LegacyCompilerOptions &
-  FlowCompilerOptions & {
+  FlowCompilerOptions &
+  TypescriptCompilerOptions & {
     globalTypesFile?: string;
     rootPath?: string;
+    possibleTypesPath?: string;
+    possibleTypesFormat?: PossibleTypesFormat;
+    onlyUsedPossibleTypes?: boolean;
+    zodFile?: string;
   };
 
 function toPath(uri: string): string {
@@ -59,13 +78,15 @@ export default function generate(
   validateQueryDocument(schema, document);
 
   const { rootPath = process.cwd() } = options;
+  // kept for the possible types, which are generated from the same context as the target
+  let context: CompilerContext | undefined;
   if (outputPath.split(".").length <= 1 && !fs.existsSync(outputPath)) {
     fs.mkdirSync(outputPath);
   }
 
   if (target === "swift") {
     options.addTypename = true;
-    const context = compileToIR(schema, document, options);
+    context = compileToIR(schema, document, options);
 
     const outputIndividualFiles =
       fs.existsSync(outputPath) && fs.statSync(outputPath).isDirectory();
@@ -84,8 +105,64 @@ export default function generate(
       writeOperationIdsMap(context);
       writtenFiles += 1;
     }
+  } else if (target === "kotlin") {
+    options.addTypename = true;
+    context = compileToIR(schema, document, options);
+
+    const outputIndividualFiles =
+      fs.existsSync(outputPath) && fs.statSync(outputPath).isDirectory();
+
+    const generator = generateKotlinSource(
+      context,
+      outputIndividualFiles,
+      only
+    );
+
+    if (outputIndividualFiles) {
+      writeGeneratedFiles(generator.generatedFiles, outputPath);
+      writtenFiles += Object.keys(generator.generatedFiles).length;
+    } else {
+      fs.writeFileSync(outputPath, generator.output);
+      writtenFiles += 1;
+    }
+
+    if (options.generateOperationIds) {
+      writeOperationIdsMap(context);
+      writtenFiles += 1;
+    }
+  } else if (target === "dart") {
+    options.addTypename = true;
+    context = compileToIR(schema, document, options);
+
+    const outputIndividualFiles =
+      fs.existsSync(outputPath) && fs.statSync(outputPath).isDirectory();
+
+    const generator = generateDartSource(context, outputIndividualFiles, only);
+
+    if (outputIndividualFiles) {
+      writeGeneratedFiles(generator.generatedFiles, outputPath);
+      writtenFiles += Object.keys(generator.generatedFiles).length;
+    } else {
+      fs.writeFileSync(outputPath, generator.output);
+      writtenFiles += 1;
+    }
+
+    if (options.generateOperationIds) {
+      writeOperationIdsMap(context);
+      writtenFiles += 1;
+    }
+  } else if (target === "json-schema") {
+    context = compileToIR(schema, document, options);
+
+    fs.writeFileSync(outputPath, generateJSONSchemaSource(context));
+    writtenFiles += 1;
+
+    if (options.zodFile) {
+      fs.writeFileSync(options.zodFile, generateZodSource(context));
+      writtenFiles += 1;
+    }
   } else if (target === "flow") {
-    const context = compileToIR(schema, document, options);
+    context = compileToIR(schema, document, options);
     const { generatedFiles, common } = generateFlowSource(context);
 
     const outFiles: {
@@ -132,7 +209,7 @@ export default function generate(
       writtenFiles += 1;
     }
   } else if (target === "typescript" || target === "ts") {
-    const context = compileToIR(schema, document, options);
+    context = compileToIR(schema, document, options);
     const generatedFiles = generateTypescriptLocalSource(context);
     const generatedGlobalFile = generateTypescriptGlobalSource(context);
 
@@ -193,13 +270,13 @@ export default function generate(
     }
   } else {
     let output;
-    const context = compileToLegacyIR(schema, document, options);
+    const legacyContext = compileToLegacyIR(schema, document, options);
     switch (target) {
       case "json":
-        output = serializeToJSON(context);
+        output = serializeToJSON(legacyContext);
         break;
       case "scala":
-        output = generateScalaSource(context);
+        output = generateScalaSource(legacyContext);
     }
 
     if (outputPath) {
@@ -210,6 +287,16 @@ export default function generate(
     }
   }
 
+  if (options.possibleTypesPath) {
+    writePossibleTypes(
+      context || compileToIR(schema, document, options),
+      options.possibleTypesPath,
+      !!options.onlyUsedPossibleTypes,
+      options.possibleTypesFormat
+    );
+    writtenFiles += 1;
+  }
+
   return writtenFiles;
 }
 
@@ -245,3 +332,30 @@ function writeOperationIdsMap(context: CompilerContext) {
     JSON.stringify(operationIdsMap, null, 2)
   );
 }
+
+// Unless it's given, the format of the possible types file is inferred from its extension
+function possibleTypesFormat(possibleTypesPath: string): PossibleTypesFormat {
+  switch (path.extname(possibleTypesPath)) {
+    case ".ts":
+      return "typescript";
+    case ".js":
+    case ".mjs":
+      return "javascript";
+    case ".flow":
+      return "flow";
+    default:
+      return "json";
+  }
+}
+
+function writePossibleTypes(
+  context: CompilerContext,
+  possibleTypesPath: string,
+  onlyUsedTypes: boolean,
+  format: PossibleTypesFormat = possibleTypesFormat(possibleTypesPath)
+) {
+  fs.writeFileSync(
+    possibleTypesPath,
+    generatePossibleTypes(context, format, { onlyUsedTypes })
+  );
+}
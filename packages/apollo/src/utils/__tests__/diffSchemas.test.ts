@@ -0,0 +1,111 @@
+import { buildSchema } from "graphql";
+import { diffSchemas, SchemaChangeType } from "..";
+
+const oldSchema = buildSchema(`
+  type Query {
+    me: User
+    users: [User]
+  }
+
+  type User {
+    id: ID!
+    name: String
+    role: Role
+  }
+
+  enum Role {
+    ADMIN
+    USER
+  }
+`);
+
+const newSchema = buildSchema(`
+  directive @cacheControl(maxAge: Int) on FIELD_DEFINITION
+
+  type Query {
+    me: User
+    post(id: ID!): Post
+  }
+
+  type User {
+    id: ID!
+    "The user's display name"
+    name: String @deprecated(reason: "Use displayName")
+    displayName: String
+    role: Role
+  }
+
+  type Post {
+    id: ID!
+  }
+
+  enum Role {
+    ADMIN
+    USER
+    GUEST
+  }
+`);
+
+describe("diffSchemas", () => {
+  it("classifies breaking, dangerous and safe changes", () => {
+    expect(diffSchemas(oldSchema, newSchema)).toMatchInlineSnapshot(`
+Array [
+  Object {
+    "code": "FIELD_REMOVED",
+    "description": "Query.users was removed.",
+    "type": "BREAKING",
+  },
+  Object {
+    "code": "VALUE_ADDED_TO_ENUM",
+    "description": "GUEST was added to enum type Role.",
+    "type": "DANGEROUS",
+  },
+  Object {
+    "code": "FIELD_ADDED",
+    "description": "Query.post was added.",
+    "type": "SAFE",
+  },
+  Object {
+    "code": "FIELD_DEPRECATED",
+    "description": "User.name was deprecated: Use displayName",
+    "type": "SAFE",
+  },
+  Object {
+    "code": "FIELD_DESCRIPTION_CHANGED",
+    "description": "Description of User.name changed.",
+    "type": "SAFE",
+  },
+  Object {
+    "code": "FIELD_ADDED",
+    "description": "User.displayName was added.",
+    "type": "SAFE",
+  },
+  Object {
+    "code": "TYPE_ADDED",
+    "description": "Post was added.",
+    "type": "SAFE",
+  },
+  Object {
+    "code": "DIRECTIVE_ADDED",
+    "description": "@cacheControl was added.",
+    "type": "SAFE",
+  },
+]
+`);
+  });
+
+  it("returns no changes for identical schemas", () => {
+    expect(diffSchemas(oldSchema, oldSchema)).toEqual([]);
+  });
+
+  it("reports removed types as breaking", () => {
+    const changes = diffSchemas(newSchema, oldSchema);
+    expect(
+      changes.filter(({ type }) => type === SchemaChangeType.BREAKING)
+    ).toContainEqual({
+      type: SchemaChangeType.BREAKING,
+      code: "TYPE_REMOVED",
+      description: "Post was removed."
+    });
+  });
+});
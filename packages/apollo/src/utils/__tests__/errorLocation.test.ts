@@ -0,0 +1,36 @@
+import { GraphQLError, Source } from "graphql";
+import { join } from "path";
+import { errorLocation, printErrorLocation } from "..";
+
+const errorAt = (source: Source, position: number) =>
+  new GraphQLError("Something is wrong", undefined, source, [position]);
+
+describe("errorLocation", () => {
+  it("finds the file relative to the working directory", () => {
+    const source = new Source(
+      "type Query {\n  hello: String\n}",
+      `file://${join(process.cwd(), "schema.graphql")}`
+    );
+    const location = errorLocation(errorAt(source, 15));
+    expect(location).toEqual({ file: "schema.graphql", line: 2, column: 3 });
+    expect(printErrorLocation(location)).toBe("schema.graphql:2:3");
+  });
+
+  it("offsets the position of documents within their file", () => {
+    const source = new Source("query { hello }", "client.js", {
+      line: 10,
+      column: 20
+    });
+    expect(errorLocation(errorAt(source, 8))).toEqual({
+      file: "client.js",
+      line: 10,
+      column: 28
+    });
+  });
+
+  it("has no location for errors without a source", () => {
+    const location = errorLocation(new GraphQLError("Something is wrong"));
+    expect(location).toEqual({});
+    expect(printErrorLocation(location)).toBe("");
+  });
+});
@@ -0,0 +1,176 @@
+import {
+  GraphQLSchema,
+  GraphQLNamedType,
+  GraphQLField,
+  GraphQLEnumValue,
+  findBreakingChanges,
+  findDangerousChanges,
+  isObjectType,
+  isInterfaceType,
+  isEnumType,
+  isScalarType,
+  isIntrospectionType,
+  isSpecifiedScalarType
+} from "graphql";
+
+export enum SchemaChangeType {
+  BREAKING = "BREAKING",
+  DANGEROUS = "DANGEROUS",
+  SAFE = "SAFE"
+}
+
+export interface SchemaChange {
+  type: SchemaChangeType;
+  code: string;
+  description: string;
+}
+
+/**
+ * Compares two schemas locally and classifies every change between them.
+ *
+ * Breaking and dangerous changes come straight from `graphql-js`; anything
+ * else we can detect (additions, deprecations, description changes) is
+ * reported as safe.
+ */
+export function diffSchemas(
+  oldSchema: GraphQLSchema,
+  newSchema: GraphQLSchema
+): SchemaChange[] {
+  return [
+    ...findBreakingChanges(oldSchema, newSchema).map(
+      ({ type, description }) => ({
+        type: SchemaChangeType.BREAKING,
+        code: type,
+        description
+      })
+    ),
+    ...findDangerousChanges(oldSchema, newSchema).map(
+      ({ type, description }) => ({
+        type: SchemaChangeType.DANGEROUS,
+        code: type,
+        description
+      })
+    ),
+    ...findSafeChanges(oldSchema, newSchema)
+  ];
+}
+
+function findSafeChanges(
+  oldSchema: GraphQLSchema,
+  newSchema: GraphQLSchema
+): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  const safe = (code: string, description: string) =>
+    changes.push({ type: SchemaChangeType.SAFE, code, description });
+
+  const oldTypeMap = oldSchema.getTypeMap();
+  const newTypeMap = newSchema.getTypeMap();
+
+  for (const newType of Object.values(newTypeMap)) {
+    if (
+      isIntrospectionType(newType) ||
+      (isScalarType(newType) && isSpecifiedScalarType(newType))
+    ) {
+      continue;
+    }
+
+    const oldType = oldTypeMap[newType.name];
+    if (!oldType) {
+      safe("TYPE_ADDED", `${newType.name} was added.`);
+      continue;
+    }
+
+    if (descriptionChanged(oldType, newType)) {
+      safe(
+        "TYPE_DESCRIPTION_CHANGED",
+        `Description of ${newType.name} changed.`
+      );
+    }
+
+    if (
+      (isObjectType(oldType) && isObjectType(newType)) ||
+      (isInterfaceType(oldType) && isInterfaceType(newType))
+    ) {
+      const oldFields = oldType.getFields();
+      for (const newField of Object.values(newType.getFields())) {
+        const oldField = oldFields[newField.name];
+        const coordinate = `${newType.name}.${newField.name}`;
+
+        if (!oldField) {
+          safe("FIELD_ADDED", `${coordinate} was added.`);
+          continue;
+        }
+
+        findDeprecationChanges(oldField, newField, coordinate, "FIELD", safe);
+
+        if (descriptionChanged(oldField, newField)) {
+          safe(
+            "FIELD_DESCRIPTION_CHANGED",
+            `Description of ${coordinate} changed.`
+          );
+        }
+      }
+    }
+
+    if (isEnumType(oldType) && isEnumType(newType)) {
+      for (const newValue of newType.getValues()) {
+        const oldValue = oldType.getValue(newValue.name);
+        if (!oldValue) continue; // reported as dangerous by graphql-js
+
+        findDeprecationChanges(
+          oldValue,
+          newValue,
+          `${newType.name}.${newValue.name}`,
+          "ENUM_VALUE",
+          safe
+        );
+      }
+    }
+  }
+
+  for (const newDirective of newSchema.getDirectives()) {
+    if (!oldSchema.getDirective(newDirective.name)) {
+      safe("DIRECTIVE_ADDED", `@${newDirective.name} was added.`);
+    }
+  }
+
+  return changes;
+}
+
+function findDeprecationChanges(
+  oldMember: GraphQLField<any, any> | GraphQLEnumValue,
+  newMember: GraphQLField<any, any> | GraphQLEnumValue,
+  coordinate: string,
+  codePrefix: "FIELD" | "ENUM_VALUE",
+  safe: (code: string, description: string) => void
+) {
+  if (!oldMember.isDeprecated && newMember.isDeprecated) {
+    safe(
+      `${codePrefix}_DEPRECATED`,
+      `${coordinate} was deprecated${
+        newMember.deprecationReason ? `: ${newMember.deprecationReason}` : "."
+      }`
+    );
+  } else if (oldMember.isDeprecated && !newMember.isDeprecated) {
+    safe(
+      `${codePrefix}_DEPRECATION_REMOVED`,
+      `${coordinate} is no longer deprecated.`
+    );
+  } else if (
+    oldMember.isDeprecated &&
+    newMember.isDeprecated &&
+    oldMember.deprecationReason !== newMember.deprecationReason
+  ) {
+    safe(
+      `${codePrefix}_DEPRECATION_REASON_CHANGED`,
+      `Deprecation reason of ${coordinate} changed.`
+    );
+  }
+}
+
+function descriptionChanged(
+  oldMember: GraphQLNamedType | GraphQLField<any, any>,
+  newMember: GraphQLNamedType | GraphQLField<any, any>
+) {
+  return (oldMember.description || "") !== (newMember.description || "");
+}
@@ -0,0 +1,31 @@
+import { GraphQLError } from "graphql";
+import { relative } from "path";
+import URI from "vscode-uri";
+
+export interface ErrorLocation {
+  file?: string;
+  line?: number;
+  column?: number;
+}
+
+// The file, relative to the working directory, and position an error was reported at
+export function errorLocation(error: GraphQLError): ErrorLocation {
+  const { source, locations } = error;
+  if (!(source && locations && locations.length > 0)) return {};
+
+  const [{ line, column }] = locations;
+  // Sources extracted from template literals are offset within their file
+  const { locationOffset } = source;
+  return {
+    file: source.name.startsWith("file://")
+      ? relative(process.cwd(), URI.parse(source.name).fsPath)
+      : source.name,
+    line: line + locationOffset.line - 1,
+    column: line === 1 ? column + locationOffset.column - 1 : column
+  };
+}
+
+// Prints a location like editors and compilers do, as file:line:column
+export function printErrorLocation({ file, line, column }: ErrorLocation) {
+  return file ? `${file}:${line}:${column}` : "";
+}
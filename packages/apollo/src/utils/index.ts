@@ -1 +1,3 @@
 export * from "./validateHistoricParams";
+export * from "./diffSchemas";
+export * from "./errorLocation";
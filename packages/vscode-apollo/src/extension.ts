@@ -13,7 +13,8 @@ import {
 } from "vscode";
 import StatusBar from "./statusBar";
 import { getLanguageServerClient } from "./languageServerClient";
-import { LanguageClient } from "vscode-languageclient";
+import { runQuery, RunQueryArguments } from "./runQuery";
+import { LanguageClient, Position, Location } from "vscode-languageclient";
 import {
   printNoFileOpenMessage,
   printStatsToClientOutputChannel
@@ -145,6 +146,27 @@ export function activate(context: ExtensionContext) {
       schemaTagItems = [...items, ...schemaTagItems];
     });
 
+    // The references code lens on fragments sends protocol types, which have to be converted
+    // before VS Code can show them
+    commands.registerCommand(
+      "apollographql.showReferences",
+      (uri: string, position: Position, locations: Location[]) => {
+        const { protocol2CodeConverter } = client;
+        commands.executeCommand(
+          "editor.action.showReferences",
+          protocol2CodeConverter.asUri(uri),
+          protocol2CodeConverter.asPosition(position),
+          locations.map(location => protocol2CodeConverter.asLocation(location))
+        );
+      }
+    );
+
+    // Run from the code lens on operations
+    commands.registerCommand(
+      "apollographql.runQuery",
+      (args: RunQueryArguments) => runQuery(context, args)
+    );
+
     commands.registerCommand("apollographql/selectSchemaTag", async () => {
       const selection = await window.showQuickPick(schemaTagItems);
       if (selection) {
@@ -51,6 +51,8 @@ export function getLanguageServerClient(
     synchronize: {
       fileEvents: [
         workspace.createFileSystemWatcher("**/.env"),
+        workspace.createFileSystemWatcher("**/.env.local"),
+        workspace.createFileSystemWatcher("**/apollo.config.{yml,yaml,json}"),
         workspace.createFileSystemWatcher("**/*.{graphql,js,ts,jsx,tsx,vue,py}")
       ]
     },
@@ -0,0 +1,145 @@
+import { window, ExtensionContext, ViewColumn, WebviewPanel } from "vscode";
+import { fetch } from "apollo-env";
+import { Agent } from "https";
+
+export interface RunQueryVariable {
+  name: string;
+  type: string;
+}
+
+// Sent by the language server with the "Run query" code lens
+export interface RunQueryArguments {
+  operationName?: string;
+  // the operation with all of the fragments it references
+  document: string;
+  variables: RunQueryVariable[];
+  url: string;
+  headers?: { [key: string]: string };
+  skipSSLValidation?: boolean;
+}
+
+let resultPanel: WebviewPanel | undefined;
+
+export async function runQuery(
+  context: ExtensionContext,
+  {
+    operationName,
+    document,
+    variables,
+    url,
+    headers,
+    skipSSLValidation
+  }: RunQueryArguments
+) {
+  let variableValues: { [name: string]: any } | undefined;
+  if (variables.length > 0) {
+    variableValues = await promptForVariables(
+      context,
+      operationName,
+      variables
+    );
+    // the prompt was dismissed
+    if (!variableValues) return;
+  }
+
+  let result: any;
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { ...headers, "Content-Type": "application/json" },
+      body: JSON.stringify({
+        query: document,
+        operationName,
+        variables: variableValues
+      }),
+      ...(skipSSLValidation && {
+        agent: new Agent({ rejectUnauthorized: false })
+      })
+    });
+    const text = await response.text();
+    try {
+      result = JSON.parse(text);
+    } catch {
+      throw new Error(
+        `${url} responded with ${response.status} ${response.statusText}`
+      );
+    }
+  } catch (error) {
+    window.showErrorMessage(
+      `Couldn't run ${operationName || "operation"}: ${error.message}`
+    );
+    return;
+  }
+
+  showResult(operationName, result);
+}
+
+// The last variables used for an operation are saved in the workspace, and are used as the
+// initial value of the prompt the next time it's run
+async function promptForVariables(
+  context: ExtensionContext,
+  operationName: string | undefined,
+  variables: RunQueryVariable[]
+): Promise<{ [name: string]: any } | undefined> {
+  const stateKey = `apollographql.variables.${operationName || ""}`;
+  const saved = context.workspaceState.get<string>(stateKey);
+
+  const template: { [name: string]: null } = {};
+  for (const { name } of variables) {
+    template[name] = null;
+  }
+
+  const label = operationName || "operation";
+  const definitions = variables
+    .map(({ name, type }) => `$${name}: ${type}`)
+    .join(", ");
+  const input = await window.showInputBox({
+    prompt: `Variables for ${label} as JSON (${definitions})`,
+    value: saved || JSON.stringify(template),
+    ignoreFocusOut: true,
+    validateInput: value => {
+      try {
+        const parsed = JSON.parse(value);
+        if (typeof parsed === "object" && parsed !== null) return null;
+      } catch {}
+      return "Variables must be a JSON object";
+    }
+  });
+  if (input === undefined) return undefined;
+
+  await context.workspaceState.update(stateKey, input);
+  return JSON.parse(input);
+}
+
+function showResult(operationName: string | undefined, result: any) {
+  const title = `Result: ${operationName || "operation"}`;
+
+  if (resultPanel) {
+    resultPanel.title = title;
+    resultPanel.reveal(ViewColumn.Beside, true);
+  } else {
+    resultPanel = window.createWebviewPanel(
+      "apolloQueryResult",
+      title,
+      { viewColumn: ViewColumn.Beside, preserveFocus: true },
+      {}
+    );
+    resultPanel.onDidDispose(() => {
+      resultPanel = undefined;
+    });
+  }
+
+  resultPanel.webview.html = `<!DOCTYPE html>
+<html>
+  <body>
+    <pre>${escapeHTML(JSON.stringify(result, null, 2))}</pre>
+  </body>
+</html>`;
+}
+
+function escapeHTML(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}